@@ -0,0 +1,124 @@
+import DodoPayments from 'dodopayments';
+import { mappingOptions, printRetryHint, resolveBrand, resolveMode } from './command';
+import { createItems, printPreview, printSummary, printUnmigrated } from './engine';
+import { checkResumeTarget, Journal } from './journal';
+import { DEFAULT_MAPPING_FILE, MappingStore } from './mapping';
+import { readPlan } from './plan';
+import { createReconciler } from './reconcile';
+import { requireSecret } from './prompts';
+import { MigrationContext, MigrationResult } from './types';
+
+// `dodo-migrate apply <plan>`: create the records of a plan written by `dodo-migrate plan <provider>`
+export default {
+    command: 'apply <plan>',
+    describe: 'Create the records of a reviewed migration plan in Dodo Payments',
+    builder: (yargs: any) => {
+        return yargs
+            .positional('plan', {
+                describe: 'Plan file written by `dodo-migrate plan <provider>`',
+                type: 'string'
+            })
+            .option('dodo-api-key', {
+                describe: 'Dodo Payments API Key',
+                type: 'string',
+                demandOption: false
+            })
+            .option('dodo-brand-id', {
+                describe: 'Dodo Payments Brand ID, must match the brand of the plan',
+                type: 'string',
+                demandOption: false
+            })
+            // No default on purpose: applying a plan must never silently fall back to another environment
+            .option('mode', {
+                describe: 'Dodo Payments environment, must match the mode of the plan',
+                type: 'string',
+                choices: ['test_mode', 'live_mode'],
+                demandOption: false
+            })
+            .options(mappingOptions);
+    },
+    handler: async (argv: any) => {
+        try {
+            await applyPlan(argv);
+        } catch (error: any) {
+            console.log(`[ERROR] ${error.message || error}`);
+            process.exit(1);
+        }
+
+        // Exit explicitly so open SDK connections don't keep CI/CD pipelines waiting
+        process.exit(0);
+    }
+};
+
+async function applyPlan(argv: any) {
+    const plan = readPlan(argv['plan']);
+    const total = plan.types.reduce((count, type) => count + type.items.length, 0);
+
+    console.log(`[LOG] Applying ${plan.provider} migration plan created at ${plan.created_at}`);
+    console.log(`[LOG] Target: brand ${plan.brand_id} in ${plan.mode}, ${total} records`);
+
+    // Detect if we're in non-interactive mode (CI/CD, automated scripts)
+    const interactive = !!process.stdin.isTTY;
+
+    const DODO_API_KEY = await requireSecret(argv['dodo-api-key'], 'dodo-api-key', 'Enter your Dodo Payments API Key:', interactive);
+    const MODE = await resolveMode(argv['mode'], interactive);
+
+    // Refuse to write into an environment or brand the plan was not reviewed for
+    if (MODE !== plan.mode) {
+        throw new Error(`Plan targets ${plan.mode} but apply is running against ${MODE}. Refusing to apply.`);
+    }
+
+    const client = new DodoPayments({
+        bearerToken: DODO_API_KEY,
+        environment: MODE,
+    });
+
+    const brand_id = await resolveBrand(client, argv['dodo-brand-id'], interactive);
+    if (brand_id !== plan.brand_id) {
+        throw new Error(`Plan targets brand ${plan.brand_id} but apply is running against brand ${brand_id}. Refusing to apply.`);
+    }
+
+    let journal: Journal;
+    if (argv['resume']) {
+        journal = Journal.open(argv['resume']);
+        checkResumeTarget(journal.run, plan.provider, MODE, brand_id);
+        console.log(`[LOG] Resuming run ${journal.run.run_id} in ${journal.path}`);
+    } else {
+        journal = Journal.start(plan.provider, MODE, brand_id, plan.types.map(type => type.name));
+        console.log(`[LOG] Journaling run ${journal.run.run_id} in ${journal.path}, continue it with --resume=${journal.path} if it gets interrupted`);
+    }
+
+    const ctx: MigrationContext<null> = {
+        source: null,
+        client,
+        brand_id,
+        mode: MODE,
+        argv,
+        interactive,
+        dryRun: false,
+        onExisting: argv['on-existing'] || 'skip',
+        mappings: new MappingStore(argv['mapping-file'] || DEFAULT_MAPPING_FILE, plan.provider, MODE, brand_id),
+        reconcile: createReconciler(client, brand_id),
+        journal,
+        unmigrated: []
+    };
+
+    // Types are stored in creation order, so referenced records always exist before the records pointing at them
+    const results: MigrationResult[] = [];
+    for (const type of plan.types) {
+        const result: MigrationResult = { name: type.name, fetched: type.fetched, counts: type.counts, created: 0, updated: 0, existing: 0, failed: 0, skipped: false, items: type.items, planned: [] };
+        if (type.items.length === 0) {
+            result.skipped = true;
+        } else {
+            printPreview(result);
+            await createItems(result, ctx);
+        }
+        results.push(result);
+    }
+
+    printSummary(results, false);
+    printUnmigrated(ctx.unmigrated);
+    journal.close();
+    printRetryHint(results, journal);
+    console.log('\n[LOG] Plan applied successfully!');
+}
@@ -0,0 +1,336 @@
+import { writeFileSync } from 'node:fs';
+import DodoPayments from 'dodopayments';
+import { checkbox, select } from '@inquirer/prompts';
+import { checkFixedDiscountOptions } from './discounts';
+import { prepareMigrationType, printSummary, printUnmigrated, runMigrationType } from './engine';
+import { checkResumeTarget, Journal } from './journal';
+import { DEFAULT_MAPPING_FILE, MappingStore } from './mapping';
+import { PLAN_VERSION, writePlan } from './plan';
+import { createReconciler } from './reconcile';
+import { requireSecret } from './prompts';
+import { DodoMode, MigrationContext, MigrationResult, MigrationType, SourceProvider } from './types';
+
+// Options controlling how already migrated and interrupted records are detected and handled, shared with `apply`
+export const mappingOptions = {
+    'mapping-file': {
+        describe: 'JSON file recording which source records were migrated to which Dodo Payments IDs',
+        type: 'string',
+        demandOption: false,
+        default: DEFAULT_MAPPING_FILE
+    },
+    'on-existing': {
+        describe: 'What to do with records that were already migrated',
+        type: 'string',
+        choices: ['skip', 'update'],
+        demandOption: false,
+        default: 'skip'
+    },
+    'resume': {
+        describe: 'Journal of an interrupted run (runs/<run-id>.jsonl) to continue where it stopped',
+        type: 'string',
+        demandOption: false
+    }
+};
+
+// 'migrate' creates the records right away, 'plan' only writes them to a plan file for `apply`
+type CommandAction = 'migrate' | 'plan';
+
+// Build the yargs command module for a provider
+export function createCommand<TSource>(provider: SourceProvider<TSource>, action: CommandAction = 'migrate') {
+    return {
+        command: `${provider.command} [arguments]`,
+        describe: action === 'plan' ? `Plan a migration from ${provider.name} to Dodo Payments` : `Migrate from ${provider.name} to Dodo Payments`,
+        builder: (yargs: any) => {
+            if (provider.apiKeyPrompt) {
+                yargs = yargs.option('provider-api-key', {
+                    describe: provider.apiKeyDescription,
+                    type: 'string',
+                    demandOption: false
+                });
+            }
+            yargs = yargs
+                .option('dodo-api-key', {
+                    describe: 'Dodo Payments API Key',
+                    type: 'string',
+                    demandOption: false
+                })
+                .option('dodo-brand-id', {
+                    describe: 'Dodo Payments Brand ID',
+                    type: 'string',
+                    demandOption: false
+                })
+                .option('mode', {
+                    describe: 'Dodo Payments environment',
+                    type: 'string',
+                    choices: ['test_mode', 'live_mode'],
+                    demandOption: false,
+                    default: 'test_mode'
+                })
+                .option('migrate-types', {
+                    describe: `Types of data to migrate (comma-separated: ${provider.types.map(type => type.value).join(',')})`,
+                    type: 'string',
+                    demandOption: false
+                });
+
+            if (action === 'plan') {
+                yargs = yargs.option('output', {
+                    describe: 'File to write the migration plan to',
+                    type: 'string',
+                    demandOption: false,
+                    default: 'migration-plan.json'
+                });
+            } else {
+                yargs = yargs
+                    .options(mappingOptions)
+                    .option('dry-run', {
+                        describe: 'Fetch and transform everything and show the Dodo Payments payloads without creating anything',
+                        type: 'boolean',
+                        demandOption: false,
+                        default: false
+                    })
+                    .option('dry-run-output', {
+                        describe: 'Save the dry run payloads to this JSON file instead of printing them',
+                        type: 'string',
+                        demandOption: false
+                    });
+            }
+
+            for (const [name, option] of Object.entries(provider.options || {})) {
+                yargs = yargs.option(name, option);
+            }
+            return yargs;
+        },
+        handler: async (argv: any) => {
+            try {
+                await runProvider(provider, argv, action);
+            } catch (error: any) {
+                console.log(`[ERROR] ${error.message || error}`);
+                process.exit(1);
+            }
+
+            // Exit explicitly so open SDK connections don't keep CI/CD pipelines waiting
+            process.exit(0);
+        }
+    };
+}
+
+// `dodo-migrate plan <provider>`: the same provider commands, writing a plan file instead of creating records
+export function createPlanCommand(providers: SourceProvider<any>[]) {
+    return {
+        command: 'plan',
+        describe: 'Write a reviewable migration plan without creating anything in Dodo Payments',
+        builder: (yargs: any) => {
+            for (const provider of providers) {
+                yargs = yargs.command(createCommand(provider, 'plan'));
+            }
+            return yargs.demandCommand(1, 'You need to specify a provider');
+        },
+        handler: () => { }
+    };
+}
+
+async function runProvider<TSource>(provider: SourceProvider<TSource>, argv: any, action: CommandAction) {
+    console.log(`[LOG] Starting ${provider.name} to Dodo Payments migration...\n`);
+
+    // Detect if we're in non-interactive mode (CI/CD, automated scripts)
+    const interactive = !!process.stdin.isTTY;
+
+    const PROVIDER_API_KEY = provider.apiKeyPrompt
+        ? await requireSecret(argv['provider-api-key'], 'provider-api-key', provider.apiKeyPrompt, interactive)
+        : '';
+    const DODO_API_KEY = await requireSecret(argv['dodo-api-key'], 'dodo-api-key', 'Enter your Dodo Payments API Key:', interactive);
+
+    const MODE = await resolveMode(argv['mode'], interactive);
+    if (provider.options?.['fixed-discount-strategy']) {
+        await checkFixedDiscountOptions(argv, interactive);
+    }
+
+    const dryRun = action === 'plan' || !!argv['dry-run'] || !!argv['dry-run-output'];
+    if (dryRun && argv['resume']) {
+        throw new Error('--resume can\'t be combined with --dry-run');
+    }
+    // Brand and data types default to the ones of the run being resumed
+    const resumed = argv['resume'] ? Journal.open(argv['resume']) : undefined;
+
+    let source: TSource;
+    try {
+        source = await provider.connect(PROVIDER_API_KEY, argv, interactive);
+        console.log(`[LOG] Successfully connected to ${provider.name}`);
+    } catch (error: any) {
+        throw new Error(`Failed to connect to ${provider.name}!\n${error.message || error}`);
+    }
+
+    const client = new DodoPayments({
+        bearerToken: DODO_API_KEY,
+        environment: MODE,
+    });
+
+    const brand_id = await resolveBrand(client, argv['dodo-brand-id'] ?? resumed?.run.brand_id, interactive);
+    if (resumed) {
+        checkResumeTarget(resumed.run, provider.command, MODE, brand_id);
+    }
+    const migrateTypes = await resolveMigrateTypes(provider, argv, argv['migrate-types'] ?? resumed?.run.types.join(','), interactive);
+
+    console.log(`[LOG] Will migrate: ${migrateTypes.join(', ')}`);
+
+    const journal = dryRun ? undefined : resumed ?? Journal.start(provider.command, MODE, brand_id, migrateTypes);
+    if (journal) {
+        console.log(`[LOG] ${resumed ? 'Resuming' : 'Journaling'} run ${journal.run.run_id} in ${journal.path}, continue it with --resume=${journal.path} if it gets interrupted`);
+    }
+
+    const ctx: MigrationContext<TSource> = {
+        source,
+        client,
+        brand_id,
+        mode: MODE,
+        argv,
+        interactive,
+        dryRun,
+        onExisting: argv['on-existing'] || 'skip',
+        mappings: new MappingStore(argv['mapping-file'] || DEFAULT_MAPPING_FILE, provider.command, MODE, brand_id),
+        reconcile: createReconciler(client, brand_id),
+        journal,
+        unmigrated: []
+    };
+
+    if (ctx.dryRun) {
+        console.log('[DRY RUN] Nothing will be created in Dodo Payments');
+    }
+
+    // Types always run in the order the provider declares them, so dependencies (e.g. products before subscriptions) are created first
+    const results: MigrationResult[] = [];
+    for (const type of provider.types) {
+        if (migrateTypes.includes(type.value)) {
+            results.push(action === 'plan'
+                ? await prepareMigrationType(provider.name, type, ctx)
+                : await runMigrationType(provider.name, type, ctx));
+        }
+    }
+
+    if (action === 'plan') {
+        checkPrepared(results);
+        writePlan(argv['output'], {
+            version: PLAN_VERSION,
+            provider: provider.command,
+            mode: MODE,
+            brand_id,
+            created_at: new Date().toISOString(),
+            types: results.map(result => ({ name: result.name, fetched: result.fetched, counts: result.counts, items: result.items }))
+        });
+        printUnmigrated(ctx.unmigrated);
+        const count = results.reduce((total, result) => total + result.items.length, 0);
+        console.log(`\n[LOG] Wrote a plan with ${count} records to ${argv['output']}`);
+        console.log(`[LOG] Review it, then run: dodo-migrate apply ${argv['output']} --mode=${MODE} --dodo-brand-id=${brand_id}`);
+        return;
+    }
+
+    printSummary(results, ctx.dryRun);
+    printUnmigrated(ctx.unmigrated);
+    journal?.close();
+
+    if (ctx.dryRun) {
+        if (argv['dry-run-output']) {
+            writeDryRunOutput(argv['dry-run-output'], provider, ctx, results);
+        }
+        checkPrepared(results);
+        console.log('\n[LOG] Dry run completed, nothing was created in Dodo Payments');
+        return;
+    }
+    printRetryHint(results, journal!);
+    checkPrepared(results);
+    console.log('\n[LOG] Migration completed successfully!');
+}
+
+// A data type that could not be fetched or prepared fails the run, so scripts don't take it for a complete migration
+function checkPrepared(results: MigrationResult[]) {
+    const failed = results.filter(result => result.error).map(result => result.name.toLowerCase());
+    if (failed.length > 0) {
+        throw new Error(`Could not migrate ${failed.join(', ')}, see the errors above`);
+    }
+}
+
+export function printRetryHint(results: MigrationResult[], journal: Journal) {
+    const failed = results.reduce((total, result) => total + result.failed, 0);
+    if (failed > 0) {
+        console.log(`\n[WARN] ${failed} records failed, retry them with --resume=${journal.path}`);
+    }
+}
+
+function writeDryRunOutput(path: string, provider: SourceProvider<any>, ctx: MigrationContext, results: MigrationResult[]) {
+    const output = {
+        provider: provider.command,
+        mode: ctx.mode,
+        brand_id: ctx.brand_id,
+        generated_at: new Date().toISOString(),
+        calls: results.flatMap(result => result.planned)
+    };
+    writeFileSync(path, JSON.stringify(output, null, 2) + '\n');
+    console.log(`[DRY RUN] Saved ${output.calls.length} payloads to ${path}`);
+}
+
+export async function resolveMode(mode: DodoMode | undefined, interactive: boolean): Promise<DodoMode> {
+    if (mode) return mode;
+
+    if (!interactive) {
+        throw new Error('--mode required in non-interactive mode');
+    }
+
+    return await select({
+        message: 'Select Dodo Payments environment:',
+        choices: [
+            { name: 'Test Mode', value: 'test_mode' as DodoMode },
+            { name: 'Live Mode', value: 'live_mode' as DodoMode }
+        ],
+        default: 'test_mode'
+    });
+}
+
+export async function resolveBrand(client: DodoPayments, brand_id: string | undefined, interactive: boolean): Promise<string> {
+    if (brand_id) return brand_id;
+
+    if (!interactive) {
+        throw new Error('--dodo-brand-id required in non-interactive mode');
+    }
+
+    let brands;
+    try {
+        brands = await client.brands.list();
+    } catch (e: any) {
+        throw new Error(`Failed to fetch brands from Dodo Payments!\n${e.message || e}`);
+    }
+
+    return await select({
+        message: 'Select your Dodo Payments brand:',
+        choices: brands.items.map((brand) => ({
+            name: brand.name || 'Unnamed Brand',
+            value: brand.brand_id,
+        })),
+    });
+}
+
+async function resolveMigrateTypes(provider: SourceProvider<any>, argv: any, value: string | undefined, interactive: boolean): Promise<string[]> {
+    const validTypes = provider.types.map(type => type.value);
+    const checked = (type: MigrationType) => typeof type.checked === 'function' ? type.checked(argv) : type.checked;
+
+    if (value) {
+        const types = value.split(',').map(type => type.trim()).filter(Boolean);
+        const unknown = types.filter(type => !validTypes.includes(type));
+        if (unknown.length > 0) {
+            throw new Error(`Unknown migrate type(s): ${unknown.join(', ')}. Valid types: ${validTypes.join(', ')}`);
+        }
+        return types;
+    }
+
+    if (!interactive) {
+        // In non-interactive mode, default to the types that are selected by default in the prompt
+        const defaults = provider.types.filter(checked).map(type => type.value);
+        console.log(`[LOG] Non-interactive mode: defaulting to migrate ${defaults.join(', ')}`);
+        return defaults;
+    }
+
+    return await checkbox({
+        message: 'Select what you want to migrate:',
+        choices: provider.types.map(type => ({ name: type.name, value: type.value, checked: checked(type) })),
+        required: true
+    });
+}
@@ -0,0 +1,50 @@
+import { afterAll, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { readCsv } from './csv';
+
+const dir = mkdtempSync(join(tmpdir(), 'dodo-migrate-csv-'));
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+function csvFile(name: string, text: string): string {
+    const path = join(dir, name);
+    writeFileSync(path, text);
+    return path;
+}
+
+test('reads quoted fields with commas and escaped quotes', () => {
+    const { columns, records } = readCsv(csvFile('quoted.csv', 'id,name\n1,"Everything, and ""more"""\n2,"""Quoted"""\n'));
+    expect(columns).toEqual(['id', 'name']);
+    expect(records.map(record => record.values)).toEqual([
+        { id: '1', name: 'Everything, and "more"' },
+        { id: '2', name: '"Quoted"' }
+    ]);
+});
+
+test('reads line breaks in quoted fields and reports the line each record starts on', () => {
+    const { records } = readCsv(csvFile('multiline.csv', 'id,description\n1,"first line\nsecond line\nthird line"\n2,single\n\n3,"a\r\nb"\r\n4,last'));
+    expect(records.map(record => [record.line, record.values.description])).toEqual([
+        [2, 'first line\nsecond line\nthird line'],
+        [5, 'single'],
+        [7, 'a\r\nb'],
+        [9, 'last']
+    ]);
+});
+
+test('strips the byte order mark of the header', () => {
+    const { columns, records } = readCsv(csvFile('bom.csv', '﻿id,name\r\n1,Ada\r\n'));
+    expect(columns).toEqual(['id', 'name']);
+    expect(records).toEqual([{ line: 2, values: { id: '1', name: 'Ada' } }]);
+});
+
+test('fills missing fields with empty values', () => {
+    const { records } = readCsv(csvFile('short.csv', 'id, name ,email\n1, Ada \n'));
+    expect(records[0].values).toEqual({ id: '1', name: 'Ada', email: '' });
+});
+
+test('fails on unterminated quoted fields with the line they start on', () => {
+    const path = csvFile('unterminated.csv', 'id,name\n1,Ada\n2,"Bob\n3,Cy\n');
+    expect(() => readCsv(path)).toThrow(`${path}:3: unterminated quoted field`);
+});
@@ -0,0 +1,80 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+
+// Rows written to each export file during this run, the whole file is rewritten on every export
+const exported: Record<string, string[]> = {};
+
+// Add a row to a CSV export file, the file is started over with a header the first time it is written in a run
+export function exportCsvRow<T extends string>(path: string, columns: T[], row: Partial<Record<T, unknown>>) {
+    const rows = exported[path] ??= [columns.join(',')];
+    rows.push(columns.map(column => csvField(row[column])).join(','));
+    writeFileSync(path, rows.join('\n') + '\n');
+}
+
+function csvField(value: unknown): string {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// A CSV record keyed by the header columns, with the file line it starts on
+export interface CsvRecord {
+    line: number;
+    values: Record<string, string>;
+}
+
+// Read a CSV file with a header row. Quoted fields may contain commas, escaped quotes ("") and line breaks.
+export function readCsv(path: string): { columns: string[], records: CsvRecord[] } {
+    const text = readFileSync(path, 'utf8').replace(/^\uFEFF/, '');
+    const rows: { line: number, fields: string[] }[] = [];
+
+    let fields: string[] = [];
+    let field = '';
+    let quoted = false;
+    let line = 1;
+    let start = 1;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                if (char === '\n') line++;
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            quoted = true;
+        } else if (char === ',') {
+            fields.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            fields.push(field);
+            rows.push({ line: start, fields });
+            fields = [];
+            field = '';
+            start = ++line;
+        } else {
+            field += char;
+        }
+    }
+    if (quoted) {
+        throw new Error(`${path}:${start}: unterminated quoted field`);
+    }
+    if (field !== '' || fields.length > 0) {
+        fields.push(field);
+        rows.push({ line: start, fields });
+    }
+
+    // Blank lines are ignored
+    const [header, ...data] = rows.filter(row => row.fields.some(value => value.trim() !== ''));
+    const columns = (header?.fields || []).map(column => column.trim());
+    return {
+        columns,
+        records: data.map(row => ({
+            line: row.line,
+            values: Object.fromEntries(columns.map((column, index) => [column, (row.fields[index] ?? '').trim()]))
+        }))
+    };
+}
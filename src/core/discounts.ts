@@ -0,0 +1,138 @@
+import { input } from '@inquirer/prompts';
+import { exportCsvRow } from './csv';
+import { skipRecord } from './engine';
+import { EntityRef, MigrationContext, MigrationItem } from './types';
+
+// What to do with fixed amount discounts, which Dodo Payments doesn't support
+export type FixedDiscountStrategy = 'skip' | 'convert-to-percentage' | 'export';
+
+// Options for providers that have fixed amount discounts
+export const fixedDiscountOptions = {
+    'fixed-discount-strategy': {
+        describe: 'What to do with fixed amount discounts: skip them, convert them to a percentage of a reference price or export them to a CSV file',
+        type: 'string',
+        choices: ['skip', 'convert-to-percentage', 'export'],
+        demandOption: false,
+        default: 'skip'
+    },
+    'fixed-discount-reference-price': {
+        describe: 'Product price (e.g. 49.00) fixed amounts are converted against with --fixed-discount-strategy=convert-to-percentage',
+        type: 'number',
+        demandOption: false
+    },
+    'fixed-discount-export': {
+        describe: 'CSV file fixed amount discounts are written to with --fixed-discount-strategy=export',
+        type: 'string',
+        demandOption: false,
+        default: 'fixed-amount-discounts.csv'
+    }
+};
+
+// A fixed amount discount as read from the source provider
+export interface FixedDiscount {
+    source_id: string;
+    code: string;
+    name: string;
+    // In the smallest currency unit (e.g. cents)
+    amount: number;
+    currency: string;
+    usage_limit: number | null;
+    expires_at: string | null;
+    brand_id: string;
+}
+
+const EXPORT_COLUMNS: (keyof FixedDiscount)[] = ['source_id', 'code', 'name', 'amount', 'currency', 'usage_limit', 'expires_at'];
+
+// Apply --fixed-discount-strategy to a fixed amount discount. Returns the discount to create, if any.
+export async function handleFixedDiscount(discount: FixedDiscount, ctx: MigrationContext): Promise<MigrationItem | undefined> {
+    const strategy: FixedDiscountStrategy = ctx.argv['fixed-discount-strategy'] || 'skip';
+    const label = `${discount.name} (${discount.code}) - ${formatAmount(discount.amount, discount.currency)} off`;
+
+    if (strategy === 'export') {
+        const path: string = ctx.argv['fixed-discount-export'] || 'fixed-amount-discounts.csv';
+        exportCsvRow(path, EXPORT_COLUMNS, { ...discount, amount: (discount.amount / 100).toFixed(2) });
+
+        skipRecord(ctx, { entity: 'discount', source_id: discount.source_id, label, reason: `fixed amount discount, exported to ${path}` });
+        return undefined;
+    }
+
+    if (strategy !== 'convert-to-percentage') {
+        skipRecord(ctx, { entity: 'discount', source_id: discount.source_id, label, reason: 'Dodo Payments only supports percentage discounts, not fixed amount discounts' });
+        return undefined;
+    }
+
+    const reference = await resolveReferencePrice(ctx.argv, ctx.interactive);
+    // Dodo Payments expects basis points (1500 for 15%), a discount can't exceed the full price
+    const basisPoints = Math.min(Math.round(discount.amount / (reference * 100) * 10000), 10000);
+    const details = [`Converted: ${formatAmount(discount.amount, discount.currency)} off a ${reference.toFixed(2)} reference price is ${(basisPoints / 100).toFixed(2)}% off`];
+    if (basisPoints === 10000) {
+        details.push('[WARN] The fixed amount is at least the reference price, the discount becomes 100% off');
+    }
+
+    return {
+        entity: 'discount',
+        source_id: discount.source_id,
+        label: `${label} → ${(basisPoints / 100).toFixed(2)}% discount`,
+        details,
+        data: {
+            code: discount.code,
+            name: discount.name,
+            type: 'percentage',
+            amount: basisPoints,
+            usage_limit: discount.usage_limit,
+            expires_at: discount.expires_at,
+            brand_id: discount.brand_id
+        }
+    };
+}
+
+// Check the fixed discount options before anything is fetched, a missing reference price would otherwise
+// only surface halfway through the discounts of a run
+export async function checkFixedDiscountOptions(argv: any, interactive: boolean) {
+    if (argv['fixed-discount-strategy'] === 'convert-to-percentage') {
+        await resolveReferencePrice(argv, interactive);
+    }
+}
+
+// Refs restricting a discount to the Dodo products migrated from the given source IDs, filled in right before creation.
+// An empty restricted_to makes a Dodo discount valid for every product, so a discount whose restriction matches
+// nothing that gets migrated must be skipped instead of calling this with an empty list.
+export function restrictionRefs(source_ids: string[]): Record<string, EntityRef> {
+    return Object.fromEntries(source_ids.map((source_id, index) => [`restricted_to.${index}`, { entity: 'product', source_id }]));
+}
+
+// Add the fields shared by percentage and converted fixed amount discounts (limits, duration, restrictions)
+// to the discount built by the provider or returned by handleFixedDiscount
+export function withDiscountFields(item: MigrationItem, data: Record<string, any>, details: string[], refs: Record<string, EntityRef> = {}): MigrationItem {
+    const restricted = Object.keys(refs).length > 0;
+    return {
+        ...item,
+        details: [...(item.details || []), ...details],
+        data: { ...item.data, ...data, ...(restricted ? { restricted_to: [] } : {}) },
+        ...(restricted ? { refs } : {})
+    };
+}
+
+// The reference price is asked for once and reused for every discount of the run
+async function resolveReferencePrice(argv: any, interactive: boolean): Promise<number> {
+    if (argv['fixed-discount-reference-price'] === undefined) {
+        if (!interactive) {
+            throw new Error('--fixed-discount-reference-price required with --fixed-discount-strategy=convert-to-percentage in non-interactive mode');
+        }
+        const answer = await input({
+            message: 'Enter the reference product price fixed amount discounts are converted against (e.g. 49.00):',
+            validate: (value) => Number(value) > 0 || 'Enter a price greater than 0'
+        });
+        argv['fixed-discount-reference-price'] = Number(answer);
+    }
+
+    const reference = Number(argv['fixed-discount-reference-price']);
+    if (!(reference > 0)) {
+        throw new Error('--fixed-discount-reference-price must be greater than 0');
+    }
+    return reference;
+}
+
+function formatAmount(amount: number, currency: string): string {
+    return `${currency.toUpperCase()} ${(amount / 100).toFixed(2)}`;
+}
@@ -0,0 +1,111 @@
+import { afterAll, beforeAll, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DodoServer, serveDodo, testContext } from '../../test/testing';
+import { runMigrationType } from './engine';
+import { Journal } from './journal';
+import { MigrationContext, MigrationItem, MigrationType } from './types';
+
+// Journals are written to runs/ in the working directory
+const cwd = process.cwd();
+const dir = mkdtempSync(join(tmpdir(), 'dodo-migrate-engine-'));
+
+beforeAll(() => process.chdir(dir));
+afterAll(() => {
+    process.chdir(cwd);
+    rmSync(dir, { recursive: true, force: true });
+});
+
+// A data type migrating the given items as they are
+const migrationType = (items: MigrationItem[]): MigrationType => ({
+    value: 'subscriptions',
+    name: 'Subscriptions',
+    checked: true,
+    fetch: async () => items,
+    transform: records => records
+});
+
+// A journaled run against the local Dodo API
+function runContext(dodo: DodoServer, journal: Journal, fields: Partial<MigrationContext> = {}): MigrationContext {
+    return { ...testContext({}), client: dodo.client, dryRun: false, journal, ...fields };
+}
+
+const subscription: MigrationItem = {
+    entity: 'subscription',
+    source_id: 'src_1',
+    label: 'Pro - ada@example.com',
+    data: { metadata: { source_subscription_id: 'src_1' } },
+    after_create: { next_billing_date: '2026-04-01T00:00:00Z' }
+};
+
+test('sets after_create of updated records in a journaled step of its own, retried on --resume', async () => {
+    // The record was migrated by an earlier run, setting the next billing date fails this time
+    const failing = await serveDodo(call => call.method === 'PATCH' && call.body.next_billing_date ? { status: 500, body: { message: 'unavailable' } } : undefined);
+    const journal = Journal.start('test', 'test_mode', 'brand_test', ['subscriptions']);
+    const ctx = runContext(failing, journal, { onExisting: 'update' });
+    ctx.mappings.set('subscription', 'src_1', 'sub_1');
+
+    const result = await runMigrationType('Test', migrationType([subscription]), ctx);
+    await failing.close();
+    journal.close();
+    expect(result).toMatchObject({ updated: 1, failed: 0 });
+    expect(failing.calls.map(call => [call.method, call.path, call.body])).toEqual([
+        ['PATCH', '/subscriptions/sub_1', { metadata: { source_subscription_id: 'src_1' } }],
+        ['PATCH', '/subscriptions/sub_1', { next_billing_date: '2026-04-01T00:00:00Z' }]
+    ]);
+    expect(journal.entries.slice(1).map(entry => [entry.type, 'step' in entry ? entry.step : undefined])).toEqual([
+        ['intent', undefined],
+        ['done', undefined],
+        ['intent', 'after_create'],
+        ['failed', 'after_create']
+    ]);
+    expect(ctx.unmigrated[0].reason).toStartWith('migrated as sub_1 without next_billing_date');
+
+    // The resumed run only sends the step that failed
+    const dodo = await serveDodo();
+    const resumed = Journal.open(journal.path);
+    const result2 = await runMigrationType('Test', migrationType([subscription]), { ...ctx, client: dodo.client, journal: resumed, unmigrated: [] });
+    await dodo.close();
+    resumed.close();
+    expect(result2).toMatchObject({ existing: 1, failed: 0 });
+    expect(dodo.calls.map(call => [call.method, call.path, call.body])).toEqual([
+        ['PATCH', '/subscriptions/sub_1', { next_billing_date: '2026-04-01T00:00:00Z' }]
+    ]);
+    expect(resumed.afterCreatePending('subscription', 'src_1')).toBe(false);
+});
+
+test('--resume finishes a crashed run without creating anything twice', async () => {
+    const item = (id: string): MigrationItem => ({ ...subscription, source_id: id, label: `Subscription ${id}`, data: { metadata: { source_subscription_id: id } } });
+    const [done, reached, lost, next] = ['src_done', 'src_reached', 'src_lost', 'src_next'].map(item);
+
+    // What the journal holds when the process dies: two create calls announced without an outcome
+    const crashed = Journal.start('crash', 'test_mode', 'brand_test', ['subscriptions']);
+    crashed.intent(done, 'create');
+    crashed.done(done, 'sub_done', 'created');
+    crashed.intent(done, 'update', 'after_create');
+    crashed.done(done, 'sub_done', 'updated', 'after_create');
+    crashed.intent(reached, 'create');
+    crashed.intent(lost, 'create');
+    crashed.close();
+
+    const dodo = await serveDodo();
+    const journal = Journal.open(crashed.path);
+    // Only the first in-flight call reached Dodo Payments before the crash
+    const ctx = runContext(dodo, journal, { reconcile: async item => item.source_id === 'src_reached' ? 'sub_reached' : undefined });
+    const result = await runMigrationType('Test', migrationType([done, reached, lost, next]), ctx);
+    await dodo.close();
+    journal.close();
+
+    expect(result).toMatchObject({ created: 3, existing: 1, failed: 0 });
+    expect(dodo.calls.map(call => [call.method, call.path])).toEqual([
+        ['PATCH', '/subscriptions/sub_reached'],
+        ['POST', '/subscriptions'],
+        ['PATCH', '/subscriptions/sub_2'],
+        ['POST', '/subscriptions'],
+        ['PATCH', '/subscriptions/sub_4']
+    ]);
+    expect(dodo.calls[1].body.metadata).toEqual({ source_subscription_id: 'src_lost' });
+    expect(['src_done', 'src_reached', 'src_lost', 'src_next'].map(id => journal.completed('subscription', id))).toEqual(['sub_done', 'sub_reached', 'sub_2', 'sub_4']);
+    expect(ctx.mappings.get('subscription', 'src_reached')).toBe('sub_reached');
+});
@@ -0,0 +1,321 @@
+import DodoPayments from 'dodopayments';
+import { confirmProceed } from './prompts';
+import { EntityRef, EntityType, MigrationContext, MigrationItem, MigrationResult, MigrationType, UnmigratedRecord } from './types';
+
+// Dodo Payments create call for each entity type, returning the ID of the created record
+const creators: Record<EntityType, (client: DodoPayments, data: any) => Promise<string>> = {
+    meter: async (client, data) => (await client.meters.create(data)).id,
+    product: async (client, data) => (await client.products.create(data)).product_id,
+    discount: async (client, data) => (await client.discounts.create(data)).discount_id,
+    customer: async (client, data) => (await client.customers.create(data)).customer_id,
+    subscription: async (client, data) => (await client.subscriptions.create(data)).subscription_id,
+};
+
+// Dodo Payments update call for each entity type, used with --on-existing=update.
+// Only the fields each update endpoint accepts are sent. Meters can't be updated, existing ones are kept as they are.
+const updaters: Partial<Record<EntityType, (client: DodoPayments, id: string, data: any) => Promise<unknown>>> = {
+    product: (client, id, data) => client.products.update(id, data),
+    discount: (client, id, data) => client.discounts.update(id, data),
+    customer: (client, id, data) => client.customers.update(id, { name: data.name, phone_number: data.phone_number }),
+    subscription: (client, id, data) => client.subscriptions.update(id, { metadata: data.metadata }),
+};
+
+// Dodo Payments update call used to set MigrationItem.after_create
+const patchers: Partial<Record<EntityType, (client: DodoPayments, id: string, data: any) => Promise<unknown>>> = {
+    subscription: (client, id, data) => client.subscriptions.update(id, data),
+};
+
+async function applyAfterCreate(item: MigrationItem, id: string, ctx: MigrationContext) {
+    const patch = patchers[item.entity];
+    if (!patch) {
+        throw new Error(`Setting fields after creation is not supported for ${item.entity}s`);
+    }
+    await patch(ctx.client, id, item.after_create);
+}
+
+// Set the after_create fields of a record this run created or updated. Journaled as a step of its own, so --resume retries it
+// when it failed or the run stopped in between, and reported at the end of the run if it can't be set.
+async function finishCreate(item: MigrationItem, id: string, ctx: MigrationContext) {
+    if (!item.after_create) return;
+
+    const fields = Object.keys(item.after_create).join(', ');
+    try {
+        ctx.journal?.intent(item, 'update', 'after_create');
+        await applyAfterCreate(item, id, ctx);
+        ctx.journal?.done(item, id, 'updated', 'after_create');
+    } catch (error: any) {
+        const message = error.message || String(error);
+        ctx.journal?.failed(item, message, 'after_create');
+        // The record exists at this point, it is reported as migrated with what's missing
+        console.log(`[WARN] Failed to set ${fields} on ${item.entity} ${id} - ${message}`);
+        ctx.unmigrated.push({
+            entity: item.entity,
+            source_id: item.source_id,
+            label: item.label,
+            reason: `migrated as ${id} without ${fields}, retry with --resume or set it in the Dodo Payments dashboard - ${message}`
+        });
+    }
+}
+
+// Copy the payload and fill every referenced field with the ID returned by lookup
+function fillRefs(item: MigrationItem, lookup: (ref: EntityRef) => string): any {
+    if (!item.refs) return item.data;
+
+    const data = structuredClone(item.data);
+    for (const [path, ref] of Object.entries(item.refs)) {
+        // Paths may point into nested objects (e.g. 'customer.customer_id')
+        const keys = path.split('.');
+        let target = data;
+        for (const key of keys.slice(0, -1)) {
+            target = target[key] ??= {};
+        }
+        target[keys[keys.length - 1]] = lookup(ref);
+    }
+    return data;
+}
+
+// Fill in the payload fields that reference other migrated records.
+// Throws if a referenced record was not migrated, so the item is reported as failed instead of created half-linked.
+function resolveRefs(item: MigrationItem, ctx: MigrationContext): any {
+    return fillRefs(item, ref => {
+        const id = ctx.mappings.get(ref.entity, ref.source_id);
+        if (!id) {
+            throw new Error(`No migrated ${ref.entity} found for source ID ${ref.source_id}`);
+        }
+        return id;
+    });
+}
+
+// The payload as it would be sent, with a placeholder for records that don't exist in Dodo Payments yet
+export function previewPayload(item: MigrationItem, ctx: MigrationContext): any {
+    return fillRefs(item, ref => ctx.mappings.get(ref.entity, ref.source_id) ?? `<dodo ${ref.entity} for ${ref.source_id}>`);
+}
+
+// Dodo ID of a record that was already migrated, from the mapping store or found in Dodo Payments itself
+export async function findExisting(item: MigrationItem, ctx: MigrationContext): Promise<string | undefined> {
+    const mapped = ctx.mappings.get(item.entity, item.source_id);
+    if (mapped) return mapped;
+
+    const found = await ctx.reconcile(item);
+    // Remember reconciled records so later runs don't have to look them up again
+    if (found && !ctx.dryRun) {
+        ctx.mappings.set(item.entity, item.source_id, found);
+    }
+    return found;
+}
+
+// Leave a record out of the migration, it is listed again in the report at the end of the run
+export function skipRecord(ctx: MigrationContext, record: UnmigratedRecord) {
+    console.log(`[LOG] Skipping ${record.entity} ${record.label} - ${record.reason}`);
+    ctx.unmigrated.push(record);
+}
+
+// Fetch and transform a single data type and show the preview
+export async function prepareMigrationType(providerName: string, type: MigrationType, ctx: MigrationContext): Promise<MigrationResult> {
+    const label = type.name.toLowerCase();
+    const result: MigrationResult = { name: type.name, fetched: 0, created: 0, updated: 0, existing: 0, failed: 0, skipped: false, items: [], planned: [] };
+
+    console.log(`\n[LOG] Starting ${label} migration...`);
+
+    let records: any[];
+    try {
+        records = await type.fetch(ctx);
+        result.fetched = records.length;
+        result.counts = type.count?.(records);
+        console.log(`[LOG] Found ${formatCounts(result)} in ${providerName}`);
+    } catch (error: any) {
+        console.log(`[ERROR] Failed to fetch ${label} from ${providerName}!\n`, error.message || error);
+        result.skipped = true;
+        result.error = `failed to fetch: ${error.message || error}`;
+        return result;
+    }
+
+    try {
+        result.items = records.length > 0 ? await type.transform(records, ctx) : [];
+    } catch (error: any) {
+        console.log(`[ERROR] Failed to prepare ${label} for Dodo Payments!\n`, error.message || error);
+        result.skipped = true;
+        result.error = `failed to prepare: ${error.message || error}`;
+        return result;
+    }
+
+    if (result.items.length === 0) {
+        console.log(`[LOG] No ${label} to migrate`);
+        result.skipped = true;
+        return result;
+    }
+
+    printPreview(result);
+    return result;
+}
+
+export function printPreview(result: MigrationResult) {
+    console.log(`\n[LOG] These are the ${result.name.toLowerCase()} to be migrated:`);
+    result.items.forEach((item, index) => {
+        console.log(`${index + 1}. ${item.label}`);
+        item.details?.forEach(detail => console.log(`   ${detail}`));
+    });
+}
+
+// Ask for confirmation and create the prepared items in Dodo Payments
+export async function createItems(result: MigrationResult, ctx: MigrationContext): Promise<MigrationResult> {
+    const label = result.name.toLowerCase();
+
+    // Referenced records can come from this run or any earlier one recorded in the mapping file
+    const unresolved = result.items.filter(item => Object.values(item.refs || {}).some(ref => !ctx.mappings.get(ref.entity, ref.source_id)));
+    if (unresolved.length > 0) {
+        const entities = [...new Set(unresolved.flatMap(item => Object.values(item.refs!).map(ref => `${ref.entity}s`)))].join(', ');
+        console.log(`[WARN] ${unresolved.length} ${label} reference ${entities} that have not been migrated yet and will fail. Migrate those first, in this run or an earlier one.`);
+    }
+
+    const proceed = await confirmProceed(`Proceed to create these ${result.items.length} ${label} in Dodo Payments?`, ctx.interactive);
+    if (!proceed) {
+        console.log(`[LOG] ${result.name} migration skipped by user`);
+        result.skipped = true;
+        return result;
+    }
+
+    for (const item of result.items) {
+        // Finished before a resumed run was interrupted, nothing left to do
+        const completed = ctx.journal?.completed(item.entity, item.source_id);
+        if (completed) {
+            if (!ctx.mappings.get(item.entity, item.source_id)) {
+                ctx.mappings.set(item.entity, item.source_id, completed);
+            }
+            console.log(`[LOG] Skipping ${item.entity}: ${item.label} - already done by this run (Dodo Payments ${item.entity} ID: ${completed})`);
+            if (item.after_create && ctx.journal!.afterCreatePending(item.entity, item.source_id)) {
+                console.log(`[LOG] Setting ${Object.keys(item.after_create).join(', ')} on ${item.entity} ${completed}, it was not set before the run stopped`);
+                await finishCreate(item, completed, ctx);
+            }
+            result.existing++;
+            continue;
+        }
+
+        console.log(`[LOG] Migrating ${item.entity}: ${item.label}`);
+        if (ctx.journal?.interrupted(item.entity, item.source_id)) {
+            // The previous attempt may or may not have reached Dodo Payments, findExisting looks it up before anything is created
+            console.log(`[LOG] ${item.entity} was in flight when the run stopped, checking Dodo Payments before creating it again`);
+        }
+
+        try {
+            const existing = await findExisting(item, ctx);
+            if (existing && ctx.journal?.attemptedCreate(item.entity, item.source_id)) {
+                // An earlier attempt of this run did reach Dodo Payments before it failed or got interrupted
+                ctx.journal.done(item, existing, 'created');
+                console.log(`[SUCCESS] Migrated ${item.entity}: ${item.label} (created by the interrupted attempt, Dodo Payments ${item.entity} ID: ${existing})`);
+                result.created++;
+                await finishCreate(item, existing, ctx);
+                continue;
+            }
+            if (existing) {
+                const update = updaters[item.entity];
+                if (ctx.onExisting === 'update' && update) {
+                    ctx.journal?.intent(item, 'update');
+                    await update(ctx.client, existing, resolveRefs(item, ctx));
+                    ctx.journal?.done(item, existing, 'updated');
+                    console.log(`[SUCCESS] Updated ${item.entity}: ${item.label} (Dodo Payments ${item.entity} ID: ${existing})`);
+                    result.updated++;
+                    await finishCreate(item, existing, ctx);
+                } else {
+                    ctx.journal?.done(item, existing, 'existing');
+                    const note = ctx.onExisting === 'update' ? `, Dodo Payments ${item.entity}s can't be updated` : '';
+                    console.log(`[LOG] Skipping ${item.entity}: ${item.label} - already migrated${note} (Dodo Payments ${item.entity} ID: ${existing})`);
+                    result.existing++;
+                }
+                continue;
+            }
+
+            const data = resolveRefs(item, ctx);
+            ctx.journal?.intent(item, 'create');
+            const id = await creators[item.entity](ctx.client, data);
+            ctx.journal?.done(item, id, 'created');
+            ctx.mappings.set(item.entity, item.source_id, id);
+            console.log(`[SUCCESS] Migrated ${item.entity}: ${item.label} (Dodo Payments ${item.entity} ID: ${id})`);
+            result.created++;
+            await finishCreate(item, id, ctx);
+        } catch (error: any) {
+            // Continue with the remaining items even if one fails
+            ctx.journal?.failed(item, error.message || String(error));
+            console.log(`[ERROR] Failed to migrate ${item.entity}: ${item.label} - ${error.message || error}`);
+            result.failed++;
+        }
+    }
+
+    ctx.mappings.flush();
+    console.log(`[LOG] ${result.name} migration completed! Success: ${result.created}, Updated: ${result.updated}, Already migrated: ${result.existing}, Errors: ${result.failed}`);
+    return result;
+}
+
+// Fetch, transform, preview, confirm and create a single data type
+export async function runMigrationType(providerName: string, type: MigrationType, ctx: MigrationContext): Promise<MigrationResult> {
+    const result = await prepareMigrationType(providerName, type, ctx);
+    if (result.skipped) return result;
+
+    // Dry runs stop here: record the exact payloads instead of calling Dodo Payments
+    if (ctx.dryRun) {
+        for (const item of result.items) {
+            let existing: string | undefined;
+            try {
+                existing = await findExisting(item, ctx);
+            } catch (error: any) {
+                // Continue with the remaining items even if one lookup fails
+                console.log(`[ERROR] Failed to check whether ${item.entity}: ${item.label} was already migrated - ${error.message || error}`);
+                result.failed++;
+                continue;
+            }
+            if (existing && (ctx.onExisting !== 'update' || !updaters[item.entity])) {
+                console.log(`[DRY RUN] ${item.entity}: ${item.label} is already migrated (Dodo Payments ${item.entity} ID: ${existing}), would be skipped`);
+                result.existing++;
+                continue;
+            }
+            result.planned.push({
+                entity: item.entity,
+                source_id: item.source_id,
+                label: item.label,
+                ...(existing ? { existing_id: existing } : {}),
+                payload: previewPayload(item, ctx),
+                ...(item.after_create ? { after_create: item.after_create } : {})
+            });
+        }
+        if (!ctx.argv['dry-run-output']) {
+            for (const call of result.planned) {
+                console.log(`\n[DRY RUN] ${call.existing_id ? `update ${call.existing_id}` : 'create'} ${call.entity}: ${call.label}`);
+                console.log(JSON.stringify(call.payload, null, 2));
+                if (call.after_create) {
+                    console.log(`[DRY RUN] then update ${call.entity}: ${JSON.stringify(call.after_create)}`);
+                }
+            }
+        }
+        console.log(`[DRY RUN] ${result.planned.length} ${type.name.toLowerCase()} would be ${ctx.onExisting === 'update' ? 'created or updated' : 'created'} in Dodo Payments`);
+        return result;
+    }
+
+    return await createItems(result, ctx);
+}
+
+// e.g. '120 products, 340 prices'
+function formatCounts(result: MigrationResult): string {
+    const counts = result.counts ?? { [result.name.toLowerCase()]: result.fetched };
+    return Object.entries(counts).map(([name, count]) => `${count} ${name}`).join(', ');
+}
+
+// Per data type totals printed at the end of a run
+export function printSummary(results: MigrationResult[], dryRun: boolean) {
+    console.log('\n[LOG] Migration summary:');
+    for (const result of results) {
+        const status = result.error ? `skipped, ${result.error}`
+            : result.skipped ? 'skipped'
+            : dryRun ? `${result.planned.length} would be written, ${result.existing} already migrated${result.failed > 0 ? `, ${result.failed} failed` : ''}`
+                : `${result.created} created, ${result.updated} updated, ${result.existing} already migrated, ${result.failed} failed`;
+        console.log(`- ${result.name}: ${formatCounts(result)} fetched, ${status}`);
+    }
+}
+
+export function printUnmigrated(unmigrated: UnmigratedRecord[]) {
+    if (unmigrated.length === 0) return;
+
+    console.log(`\n[WARN] ${unmigrated.length} records were not migrated:`);
+    for (const record of unmigrated) {
+        console.log(`- ${record.entity}: ${record.label} - ${record.reason}`);
+    }
+}
@@ -0,0 +1,48 @@
+import { afterAll, beforeAll, expect, test } from 'bun:test';
+import { createRestClient } from './http';
+import { FixtureServer, serveFixtures } from '../../test/testing';
+
+let server: FixtureServer;
+
+beforeAll(async () => {
+    server = await serveFixtures('', {
+        '/items': { status: 200, body: { items: [1, 2] } },
+        '/failed-with-200': { status: 200, body: { ok: false, message: 'quota reached' } },
+        '/missing': { status: 404, body: { ok: false, message: 'no such item' } },
+        '/broken': { status: 500 },
+        '/limited': { status: 429, headers: { 'retry-after': '12' } },
+        '/limited-without-delay': { status: 429 }
+    });
+});
+
+afterAll(() => server.close());
+
+const client = () => createRestClient({
+    name: 'Example',
+    baseUrl: server.url,
+    headers: () => ({ Authorization: 'Bearer key' }),
+    error: body => body.ok === false ? body.message : undefined
+});
+
+test('builds the URL from the base URL, path and query parameters', async () => {
+    expect(await client().get('/items', { page: '2', status: 'active' })).toEqual({ items: [1, 2] });
+    const request = server.requests.at(-1)!;
+    expect(request.path).toBe('/items?page=2&status=active');
+    expect(request.headers.authorization).toBe('Bearer key');
+    expect(request.headers.accept).toBe('application/json');
+});
+
+test('reads absolute URLs', async () => {
+    expect(await client().getUrl(`${server.url}/items`)).toEqual({ items: [1, 2] });
+});
+
+test('wraps errors reported in the body, also with a 2xx status', async () => {
+    await expect(client().get('/missing')).rejects.toThrow('Example API request /missing failed: no such item');
+    await expect(client().get('/failed-with-200')).rejects.toThrow('Example API request /failed-with-200 failed: quota reached');
+    await expect(client().get('/broken', { page: '1' })).rejects.toThrow('Example API request /broken?page=1 failed: 500');
+});
+
+test('reports rate limits with the retry delay when the API sends one', async () => {
+    await expect(client().get('/limited')).rejects.toThrow('Example API rate limit exceeded. Retry after 12 seconds.');
+    await expect(client().get('/limited-without-delay')).rejects.toThrow('Example API rate limit exceeded. Wait a minute and try again.');
+});
@@ -0,0 +1,41 @@
+// Providers without an SDK (Gumroad, Paddle, FastSpring, 2Checkout) are read through this thin JSON client for their REST APIs.
+// A provider supplies its auth headers and how it reports errors, paging stays with the provider.
+export interface RestClientOptions {
+    // Provider name used in error messages (e.g. 'Gumroad')
+    name: string;
+    baseUrl: string;
+    // Headers of every request, built per request so signatures can include the current time
+    headers: () => Record<string, string>;
+    // Error message the API put in the response body. Returning one fails the request even with a 2xx status,
+    // some APIs report errors that way.
+    error?: (body: any) => string | undefined;
+}
+
+export interface RestClient {
+    // GET a path below the base URL
+    get: (path: string, params?: Record<string, string>) => Promise<any>;
+    // GET an absolute URL, e.g. a next page link returned by the API
+    getUrl: (url: string) => Promise<any>;
+}
+
+export function createRestClient({ name, baseUrl, headers, error }: RestClientOptions): RestClient {
+    const getUrl = async (url: string) => {
+        const response = await fetch(url, { headers: { Accept: 'application/json', ...headers() } });
+        const body: any = await response.json().catch(() => ({}));
+        if (response.status === 429) {
+            const retryAfter = response.headers.get('retry-after');
+            throw new Error(`${name} API rate limit exceeded. ${retryAfter ? `Retry after ${retryAfter} seconds.` : 'Wait a minute and try again.'}`);
+        }
+        const message = error?.(body);
+        if (!response.ok || message) {
+            const path = url.startsWith(baseUrl) ? url.slice(baseUrl.length) : url;
+            throw new Error(`${name} API request ${path} failed: ${message || response.status}`);
+        }
+        return body;
+    };
+
+    return {
+        get: (path, params = {}) => getUrl(`${baseUrl}${path}${Object.keys(params).length > 0 ? `?${new URLSearchParams(params)}` : ''}`),
+        getUrl
+    };
+}
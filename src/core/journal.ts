@@ -0,0 +1,167 @@
+import { closeSync, existsSync, fsyncSync, mkdirSync, openSync, readFileSync, writeSync } from 'node:fs';
+import { join } from 'node:path';
+import { DodoMode, EntityType, MigrationItem } from './types';
+
+// Every run that writes to Dodo Payments is journaled here, one JSON Lines file per run
+export const RUNS_DIR = 'runs';
+
+export type JournalAction = 'created' | 'updated' | 'existing';
+
+// Setting MigrationItem.after_create is journaled as a step of its own, after the create or update call it follows
+export type JournalStep = 'after_create';
+
+// One line of the journal. `intent` is written before a Dodo call is made and `done`/`failed` after it returns,
+// so an `intent` without an outcome marks a record that was in flight when the run stopped.
+export type JournalEntry =
+    | { type: 'run', run_id: string, provider: string, mode: DodoMode, brand_id: string, types: string[], started_at: string }
+    | { type: 'intent', entity: EntityType, source_id: string, label: string, call: 'create' | 'update', step?: JournalStep, at: string }
+    | { type: 'done', entity: EntityType, source_id: string, label: string, dodo_id: string, action: JournalAction, step?: JournalStep, at: string }
+    | { type: 'failed', entity: EntityType, source_id: string, label: string, error: string, step?: JournalStep, at: string }
+    | { type: 'rolled_back', entity: EntityType, source_id: string, label: string, dodo_id: string, at: string };
+
+export type RunHeader = Extract<JournalEntry, { type: 'run' }>;
+export type DoneEntry = Extract<JournalEntry, { type: 'done' }>;
+
+// Write-ahead journal of a single run. Entries are flushed to disk before the call they describe is made,
+// so a crashed run can be resumed with --resume and rolled back with `dodo-migrate rollback <run-id>`.
+export class Journal {
+    readonly entries: JournalEntry[];
+    private fd: number;
+
+    private constructor(readonly path: string, entries: JournalEntry[]) {
+        this.entries = entries;
+        this.fd = openSync(path, 'a');
+    }
+
+    get run(): RunHeader {
+        return this.entries[0] as RunHeader;
+    }
+
+    // Start the journal of a new run in the runs/ directory
+    static start(provider: string, mode: DodoMode, brand_id: string, types: string[]): Journal {
+        const started_at = new Date().toISOString();
+        const run_id = `${provider}-${started_at.replace(/[:.]/g, '-')}`;
+
+        mkdirSync(RUNS_DIR, { recursive: true });
+        const journal = new Journal(journalPath(run_id), []);
+        journal.append({ type: 'run', run_id, provider, mode, brand_id, types, started_at });
+        return journal;
+    }
+
+    // Reopen the journal of an earlier run to continue appending to it
+    static open(path: string): Journal {
+        const journal = new Journal(path, readJournal(path));
+        // Terminate a line left half written by a crash so new entries start on a line of their own
+        if (!readFileSync(path, 'utf8').endsWith('\n')) {
+            writeSync(journal.fd, '\n');
+        }
+        return journal;
+    }
+
+    // Dodo ID of a record this run already finished
+    completed(entity: EntityType, source_id: string): string | undefined {
+        const last = this.last(entity, source_id);
+        return last?.type === 'done' ? last.dodo_id : undefined;
+    }
+
+    // Whether the run stopped after announcing a call for this record but before recording its outcome
+    interrupted(entity: EntityType, source_id: string): boolean {
+        const last = this.last(entity, source_id);
+        return last?.type === 'intent';
+    }
+
+    // Whether the record was created or updated by this run but setting its after_create fields never succeeded
+    afterCreatePending(entity: EntityType, source_id: string): boolean {
+        for (let i = this.entries.length - 1; i >= 0; i--) {
+            const entry = this.entries[i];
+            if (entry.type === 'run' || entry.entity !== entity || entry.source_id !== source_id) continue;
+            if ('step' in entry) return entry.type !== 'done';
+            return entry.type === 'done' && (entry.action === 'created' || entry.action === 'updated');
+        }
+        return false;
+    }
+
+    // Whether this run already sent a create call for the record, so a copy found in Dodo Payments is one it created
+    attemptedCreate(entity: EntityType, source_id: string): boolean {
+        return this.entries.some(entry => entry.type === 'intent' && entry.call === 'create' && !entry.step && entry.entity === entity && entry.source_id === source_id);
+    }
+
+    intent(item: MigrationItem, call: 'create' | 'update', step?: JournalStep) {
+        this.append({ type: 'intent', entity: item.entity, source_id: item.source_id, label: item.label, call, ...(step ? { step } : {}), at: new Date().toISOString() });
+    }
+
+    done(item: MigrationItem, dodo_id: string, action: JournalAction, step?: JournalStep) {
+        this.append({ type: 'done', entity: item.entity, source_id: item.source_id, label: item.label, dodo_id, action, ...(step ? { step } : {}), at: new Date().toISOString() });
+    }
+
+    failed(item: MigrationItem, error: string, step?: JournalStep) {
+        this.append({ type: 'failed', entity: item.entity, source_id: item.source_id, label: item.label, error, ...(step ? { step } : {}), at: new Date().toISOString() });
+    }
+
+    rolledBack(entry: DoneEntry) {
+        this.append({ type: 'rolled_back', entity: entry.entity, source_id: entry.source_id, label: entry.label, dodo_id: entry.dodo_id, at: new Date().toISOString() });
+    }
+
+    close() {
+        closeSync(this.fd);
+    }
+
+    // Last entry of the record's create or update call, after_create steps are tracked by afterCreatePending
+    private last(entity: EntityType, source_id: string): JournalEntry | undefined {
+        for (let i = this.entries.length - 1; i >= 0; i--) {
+            const entry = this.entries[i];
+            if ('step' in entry) continue;
+            if (entry.type !== 'run' && entry.entity === entity && entry.source_id === source_id) {
+                return entry;
+            }
+        }
+        return undefined;
+    }
+
+    private append(entry: JournalEntry) {
+        this.entries.push(entry);
+        writeSync(this.fd, JSON.stringify(entry) + '\n');
+        // Flush before the Dodo call is made, otherwise a crash could lose the entry that describes it
+        fsyncSync(this.fd);
+    }
+}
+
+export function journalPath(run_id: string): string {
+    return join(RUNS_DIR, `${run_id}.jsonl`);
+}
+
+export function readJournal(path: string): JournalEntry[] {
+    if (!existsSync(path)) {
+        throw new Error(`Journal file ${path} not found`);
+    }
+
+    const lines = readFileSync(path, 'utf8').split('\n').filter(line => line.trim());
+    const entries: JournalEntry[] = [];
+    for (const [index, line] of lines.entries()) {
+        try {
+            entries.push(JSON.parse(line));
+        } catch {
+            // A crash can leave the last line half written, anything before it must be intact
+            if (index === lines.length - 1) break;
+            throw new Error(`Journal file ${path} is corrupted at line ${index + 1}`);
+        }
+    }
+
+    if (entries[0]?.type !== 'run') {
+        throw new Error(`Journal file ${path} does not start with a run entry`);
+    }
+    return entries;
+}
+
+// A journal can only be resumed against the provider, mode and brand it was written for
+export function checkResumeTarget(run: RunHeader, provider: string, mode: DodoMode, brand_id: string) {
+    if (run.provider !== provider) {
+        throw new Error(`Run ${run.run_id} was a ${run.provider} migration, it can't be resumed as ${provider}`);
+    }
+    if (run.mode !== mode) {
+        throw new Error(`Run ${run.run_id} targets ${run.mode} but the resumed run targets ${mode}. Pass --mode=${run.mode} to resume it.`);
+    }
+    if (run.brand_id !== brand_id) {
+        throw new Error(`Run ${run.run_id} targets brand ${run.brand_id} but the resumed run targets brand ${brand_id}`);
+    }
+}
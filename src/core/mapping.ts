@@ -0,0 +1,81 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { DodoMode, EntityType } from './types';
+
+export const DEFAULT_MAPPING_FILE = 'dodo-migrate-mappings.json';
+
+// Changes are written out in batches, rewriting the whole file for every record would make large runs quadratic
+const SAVE_EVERY = 100;
+
+// On-disk format: source ID -> Dodo ID per entity type, scoped by mode and brand
+// {
+//   "version": 1,
+//   "scopes": {
+//     "test_mode:brand_123": {
+//       "product": { "stripe:price_abc": "pdt_xyz" }
+//     }
+//   }
+// }
+interface MappingFile {
+    version: number;
+    scopes: Record<string, Partial<Record<EntityType, Record<string, string>>>>;
+}
+
+// Persistent record of what has already been migrated, so re-runs skip or update instead of duplicating.
+// Changes are saved every SAVE_EVERY records and by flush(). Mappings a crash loses are recovered from the
+// run journal with --resume, or found again in Dodo Payments by the reconciler on the next run.
+export class MappingStore {
+    private file: MappingFile;
+    private scope: string;
+    private pending = 0;
+
+    constructor(private path: string, private provider: string, mode: DodoMode, brand_id: string) {
+        this.scope = `${mode}:${brand_id}`;
+        this.file = { version: 1, scopes: {} };
+
+        if (existsSync(path)) {
+            try {
+                this.file = JSON.parse(readFileSync(path, 'utf8'));
+            } catch (error: any) {
+                throw new Error(`Failed to read mapping file ${path}: ${error.message}`);
+            }
+        }
+        this.file.scopes[this.scope] ??= {};
+    }
+
+    // Source IDs are namespaced by provider, numeric IDs (e.g. Lemon Squeezy) could otherwise collide
+    private key(source_id: string): string {
+        return `${this.provider}:${source_id}`;
+    }
+
+    get(entity: EntityType, source_id: string): string | undefined {
+        return this.file.scopes[this.scope][entity]?.[this.key(source_id)];
+    }
+
+    set(entity: EntityType, source_id: string, dodo_id: string) {
+        const mappings = this.file.scopes[this.scope];
+        (mappings[entity] ??= {})[this.key(source_id)] = dodo_id;
+        this.changed();
+    }
+
+    delete(entity: EntityType, source_id: string) {
+        delete this.file.scopes[this.scope][entity]?.[this.key(source_id)];
+        this.changed();
+    }
+
+    // Write out every change that is not saved yet
+    flush() {
+        if (this.pending === 0) return;
+
+        // Written next to the mapping file and renamed over it, a crash mid-write can't leave invalid JSON behind
+        const temp = `${this.path}.tmp`;
+        writeFileSync(temp, JSON.stringify(this.file, null, 2) + '\n');
+        renameSync(temp, this.path);
+        this.pending = 0;
+    }
+
+    private changed() {
+        if (++this.pending >= SAVE_EVERY) {
+            this.flush();
+        }
+    }
+}
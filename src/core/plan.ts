@@ -0,0 +1,44 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { DodoMode, MigrationItem } from './types';
+
+// Bump whenever the plan format changes in a way older versions of the CLI can't apply
+export const PLAN_VERSION = 1;
+
+export interface PlanType {
+    name: string;
+    fetched: number;
+    counts?: Record<string, number>;
+    items: MigrationItem[];
+}
+
+// A reviewable migration plan: every Dodo Payments payload that `apply` will create, in order,
+// together with the source IDs that link dependent records (e.g. subscriptions to products)
+export interface MigrationPlan {
+    version: number;
+    provider: string;
+    mode: DodoMode;
+    brand_id: string;
+    created_at: string;
+    types: PlanType[];
+}
+
+export function writePlan(path: string, plan: MigrationPlan) {
+    writeFileSync(path, JSON.stringify(plan, null, 2) + '\n');
+}
+
+export function readPlan(path: string): MigrationPlan {
+    let plan: MigrationPlan;
+    try {
+        plan = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error: any) {
+        throw new Error(`Failed to read plan file ${path}: ${error.message}`);
+    }
+
+    if (plan.version !== PLAN_VERSION) {
+        throw new Error(`Unsupported plan version ${plan.version} in ${path} (expected ${PLAN_VERSION}). Re-create the plan with this version of dodo-migrate.`);
+    }
+    if (!plan.brand_id || !plan.mode || !Array.isArray(plan.types)) {
+        throw new Error(`Plan file ${path} is missing brand_id, mode or types`);
+    }
+    return plan;
+}
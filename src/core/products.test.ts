@@ -0,0 +1,37 @@
+import { expect, test } from 'bun:test';
+import { evergreenPeriodCount, productItem, SourcePrice } from './products';
+
+const price = (recurring?: SourcePrice['recurring']): SourcePrice => ({
+    source_id: 'price_1',
+    metadata_key: 'test_price_id',
+    name: 'Pro',
+    description: '',
+    currency: 'usd',
+    amount: 1000,
+    recurring,
+    metadata: {}
+});
+
+test('subscription terms fill the 20 year maximum of every interval', () => {
+    expect(evergreenPeriodCount('Year')).toBe(20);
+    expect(evergreenPeriodCount('Month')).toBe(240);
+    expect(evergreenPeriodCount('Week')).toBe(1040);
+    expect(evergreenPeriodCount('Day')).toBe(7300);
+});
+
+test('recurring products renew until cancelled, whatever they are billed every', () => {
+    const daily = productItem(price({ interval: 'Day', count: 1 }), 'brand_test');
+    expect(daily.label).toBe('Pro - USD 10.00 (Subscription, daily)');
+    expect(daily.data.price).toMatchObject({ billing_period: 'daily', payment_frequency_interval: 'Day', subscription_period_interval: 'Day', subscription_period_count: 7300 });
+
+    const biweekly = productItem(price({ interval: 'Week', count: 2, trial_days: 7 }), 'brand_test');
+    expect(biweekly.label).toBe('Pro - USD 10.00 (Subscription, every 2 weeks, 7 day trial)');
+    expect(biweekly.data.price).toMatchObject({ payment_frequency_count: 2, subscription_period_interval: 'Week', subscription_period_count: 1040, trial_period_days: 7 });
+});
+
+test('one-time products have no billing fields', () => {
+    const item = productItem(price(), 'brand_test');
+    expect(item.data.type).toBe('one_time');
+    expect(item.data.price).toEqual({ currency: 'USD', price: 1000, discount: 0, purchasing_power_parity: false, type: 'one_time_price' });
+    expect(item.data.metadata).toEqual({ test_price_id: 'price_1' });
+});
@@ -0,0 +1,111 @@
+import { MigrationItem } from './types';
+
+export type BillingInterval = 'Day' | 'Week' | 'Month' | 'Year';
+
+// A single price of a source product, the same shape whichever provider it was read from
+export interface SourcePrice {
+    // Becomes the source_id of the Dodo product, stored in metadata under metadata_key
+    source_id: string;
+    metadata_key: string;
+    name: string;
+    description: string;
+    // ISO code, any case
+    currency: string;
+    // In the smallest currency unit (e.g. cents)
+    amount: number;
+    // Not set for one-time prices
+    recurring?: {
+        interval: BillingInterval;
+        count: number;
+        trial_days?: number;
+    };
+    // Defaults to saas
+    tax_category?: string;
+    metadata: Record<string, any>;
+    details?: string[];
+}
+
+// Subscription term of recurring products. Dodo Payments ends a subscription after subscription_period_count intervals,
+// products get as many intervals as fit in its 20 year maximum so subscriptions keep renewing until they are cancelled.
+export function evergreenPeriodCount(interval: BillingInterval): number {
+    const maxByInterval: Record<BillingInterval, number> = { Year: 20, Month: 240, Week: 1040, Day: 7300 };
+    return maxByInterval[interval];
+}
+
+// The one-time or subscription product created in Dodo Payments for a single source price
+export function productItem(price: SourcePrice, brand_id: string): MigrationItem {
+    const currency = price.currency.toUpperCase();
+    const amount = (price.amount / 100).toFixed(2);
+    const base = {
+        name: price.name,
+        description: price.description,
+        tax_category: price.tax_category || 'saas'
+    };
+    const metadata = { [price.metadata_key]: price.source_id, ...price.metadata };
+
+    if (!price.recurring) {
+        return {
+            entity: 'product',
+            source_id: price.source_id,
+            metadata_key: price.metadata_key,
+            label: `${price.name} - ${currency} ${amount} (One Time)`,
+            ...(price.details ? { details: price.details } : {}),
+            data: {
+                ...base,
+                type: 'one_time',
+                price: {
+                    currency,
+                    price: price.amount,
+                    discount: 0,
+                    purchasing_power_parity: false,
+                    type: 'one_time_price'
+                },
+                brand_id,
+                metadata
+            }
+        };
+    }
+
+    const { interval, count, trial_days } = price.recurring;
+    const period = interval === 'Day' ? 'daily' : `${interval.toLowerCase()}ly`;
+    return {
+        entity: 'product',
+        source_id: price.source_id,
+        metadata_key: price.metadata_key,
+        label: `${price.name} - ${currency} ${amount} (Subscription, ${count > 1 ? `every ${count} ${interval.toLowerCase()}s` : period}${trial_days ? `, ${trial_days} day trial` : ''})`,
+        ...(price.details ? { details: price.details } : {}),
+        data: {
+            ...base,
+            type: 'subscription',
+            price: {
+                currency,
+                price: price.amount,
+                discount: 0,
+                purchasing_power_parity: false,
+                type: 'recurring_price',
+                billing_period: period,
+                payment_frequency_interval: interval,
+                payment_frequency_count: count,
+                subscription_period_interval: interval,
+                subscription_period_count: evergreenPeriodCount(interval),
+                ...(trial_days ? { trial_period_days: trial_days } : {})
+            },
+            brand_id,
+            metadata
+        }
+    };
+}
+
+// Trial periods in days, with 30 days per month and 365 per year. Month and year trials don't convert exactly,
+// callers flag them in the preview.
+export function trialPeriodDays(interval: string, count: number): number {
+    const daysMap: Record<string, number> = { day: 1, week: 7, month: 30, year: 365 };
+    return daysMap[interval] * count;
+}
+
+const HTML_ENTITIES: Record<string, string> = { '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'", '&nbsp;': ' ', '&amp;': '&' };
+
+// Product descriptions are plain text in Dodo Payments, tags are dropped and the common entities decoded
+export function stripHtml(html: string): string {
+    return html.replace(/<[^>]*>/g, '').replace(/&(lt|gt|quot|#39|nbsp|amp);/g, entity => HTML_ENTITIES[entity]);
+}
@@ -0,0 +1,30 @@
+import { password, select } from '@inquirer/prompts';
+
+// Return the value given on the command line, or ask for it when running interactively.
+// In non-interactive mode (CI/CD, automated scripts) a missing value is a fatal error.
+export async function requireSecret(value: string | undefined, option: string, message: string, interactive: boolean): Promise<string> {
+    if (value) return value;
+
+    if (!interactive) {
+        throw new Error(`--${option} required in non-interactive mode`);
+    }
+
+    return (await password({ message, mask: '*' })).trim();
+}
+
+// Ask for a Yes/No confirmation. Non-interactive runs proceed automatically.
+export async function confirmProceed(message: string, interactive: boolean): Promise<boolean> {
+    if (!interactive) {
+        console.log('[LOG] Non-interactive mode: proceeding automatically');
+        return true;
+    }
+
+    const answer = await select({
+        message,
+        choices: [
+            { name: 'Yes', value: 'yes' },
+            { name: 'No', value: 'no' }
+        ],
+    });
+    return answer === 'yes';
+}
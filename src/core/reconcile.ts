@@ -0,0 +1,85 @@
+import DodoPayments from 'dodopayments';
+import { EntityType, MigrationItem } from './types';
+
+// Finds records that already exist in Dodo Payments but are missing from the mapping store,
+// e.g. records created before the mapping store existed or by a run that used another mapping file.
+export type Reconciler = (item: MigrationItem) => Promise<string | undefined>;
+
+// Index every Dodo record of an entity type by the values it can be matched on
+const indexers: Record<EntityType, (client: DodoPayments, brand_id: string) => Promise<Map<string, string>>> = {
+    // Meters have no metadata, they are matched on their event name and name
+    meter: async (client) => {
+        const index = new Map<string, string>();
+        for await (const meter of client.meters.list()) {
+            index.set(`${meter.event_name}/${meter.name}`, meter.id);
+        }
+        return index;
+    },
+    // Products and subscriptions are matched on the source ID the providers store in metadata (e.g. stripe_price_id)
+    product: async (client, brand_id) => {
+        const index = new Map<string, string>();
+        for await (const product of client.products.list({ brand_id })) {
+            for (const [key, value] of Object.entries(product.metadata || {})) {
+                index.set(`${key}=${value}`, product.product_id);
+            }
+        }
+        return index;
+    },
+    subscription: async (client, brand_id) => {
+        const index = new Map<string, string>();
+        for await (const subscription of client.subscriptions.list({ brand_id })) {
+            // Cancelled subscriptions (e.g. by `dodo-migrate rollback`) don't count as migrated
+            if (subscription.status === 'cancelled') continue;
+            for (const [key, value] of Object.entries(subscription.metadata || {})) {
+                index.set(`${key}=${value}`, subscription.subscription_id);
+            }
+        }
+        return index;
+    },
+    // Dodo customers don't expose metadata, email is unique per business
+    customer: async (client) => {
+        const index = new Map<string, string>();
+        for await (const customer of client.customers.list()) {
+            index.set(customer.email.toLowerCase(), customer.customer_id);
+        }
+        return index;
+    },
+    // Discount codes are unique per business
+    discount: async (client) => {
+        const index = new Map<string, string>();
+        for await (const discount of client.discounts.list()) {
+            index.set(discount.code, discount.discount_id);
+        }
+        return index;
+    },
+};
+
+// The value an item is looked up by in the index of its entity type
+function matchKey(item: MigrationItem): string | undefined {
+    switch (item.entity) {
+        case 'meter':
+            return `${item.data.event_name}/${item.data.name}`;
+        case 'product':
+        case 'subscription': {
+            const value = item.metadata_key && item.data.metadata?.[item.metadata_key];
+            return value ? `${item.metadata_key}=${value}` : undefined;
+        }
+        case 'customer':
+            return item.data.email ? String(item.data.email).toLowerCase() : undefined;
+        case 'discount':
+            return item.data.code || undefined;
+    }
+}
+
+export function createReconciler(client: DodoPayments, brand_id: string): Reconciler {
+    // Each index is built once per run, on first use
+    const indexes: Partial<Record<EntityType, Promise<Map<string, string>>>> = {};
+
+    return async (item) => {
+        const key = matchKey(item);
+        if (!key) return undefined;
+
+        indexes[item.entity] ??= indexers[item.entity](client, brand_id);
+        return (await indexes[item.entity])!.get(key);
+    };
+}
@@ -0,0 +1,45 @@
+import { afterAll, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Journal, JournalEntry } from './journal';
+import { rollbackEntries } from './rollback';
+import { EntityType } from './types';
+
+const dir = mkdtempSync(join(tmpdir(), 'dodo-migrate-rollback-'));
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const at = '2026-01-01T00:00:00.000Z';
+const done = (entity: EntityType, source_id: string, action: 'created' | 'updated' | 'existing', step?: 'after_create'): JournalEntry =>
+    ({ type: 'done', entity, source_id, label: source_id, dodo_id: `dodo_${source_id}`, action, ...(step ? { step } : {}), at });
+
+test('rolls back subscriptions first and meters last, the latest records of each type first', () => {
+    const path = join(dir, 'run.jsonl');
+    const entries: JournalEntry[] = [
+        { type: 'run', run_id: 'test-run', provider: 'test', mode: 'test_mode', brand_id: 'brand_test', types: [], started_at: at },
+        done('meter', 'requests', 'created'),
+        done('product', 'basic', 'created'),
+        done('product', 'pro', 'created'),
+        done('discount', 'WELCOME', 'created'),
+        done('customer', 'ada', 'created'),
+        done('subscription', 'sub_existing', 'existing'),
+        done('subscription', 'sub_ada', 'created'),
+        done('subscription', 'sub_ada', 'updated', 'after_create'),
+        done('product', 'team', 'created'),
+        // Already rolled back by an earlier rollback that stopped halfway
+        { type: 'rolled_back', entity: 'product', source_id: 'pro', label: 'pro', dodo_id: 'dodo_pro', at }
+    ];
+    writeFileSync(path, entries.map(entry => JSON.stringify(entry)).join('\n') + '\n');
+
+    const journal = Journal.open(path);
+    expect(rollbackEntries(journal).map(entry => `${entry.entity}:${entry.source_id}`)).toEqual([
+        'subscription:sub_ada',
+        'customer:ada',
+        'discount:WELCOME',
+        'product:team',
+        'product:basic',
+        'meter:requests'
+    ]);
+    journal.close();
+});
@@ -0,0 +1,156 @@
+import DodoPayments from 'dodopayments';
+import { existsSync } from 'node:fs';
+import { DoneEntry, Journal, JournalEntry, journalPath } from './journal';
+import { DEFAULT_MAPPING_FILE, MappingStore } from './mapping';
+import { confirmProceed, requireSecret } from './prompts';
+import { EntityType } from './types';
+
+// Reverse dependency order: subscriptions point at customers and products, discounts can be restricted to products,
+// usage-based products bill through meters
+const ROLLBACK_ORDER: EntityType[] = ['subscription', 'customer', 'discount', 'product', 'meter'];
+
+// How each entity type is undone. Dodo Payments has no API to delete customers, those are only reported.
+const undoers: Partial<Record<EntityType, { verb: string, undo: (client: DodoPayments, id: string) => Promise<unknown> }>> = {
+    subscription: { verb: 'Cancelled', undo: (client, id) => client.subscriptions.update(id, { status: 'cancelled' }) },
+    discount: { verb: 'Deleted', undo: (client, id) => client.discounts.delete(id) },
+    product: { verb: 'Archived', undo: (client, id) => client.products.archive(id) },
+    meter: { verb: 'Archived', undo: (client, id) => client.meters.archive(id) },
+};
+
+// `dodo-migrate rollback <run-id>`: undo everything a migration run created in Dodo Payments
+export default {
+    command: 'rollback <run-id>',
+    describe: 'Cancel, delete or archive everything a migration run created in Dodo Payments',
+    builder: (yargs: any) => {
+        return yargs
+            .positional('run-id', {
+                describe: 'ID of the run (printed when it started) or the path of its journal file',
+                type: 'string'
+            })
+            .option('dodo-api-key', {
+                describe: 'Dodo Payments API Key',
+                type: 'string',
+                demandOption: false
+            })
+            .option('mode', {
+                describe: 'Dodo Payments environment, must match the mode of the run',
+                type: 'string',
+                choices: ['test_mode', 'live_mode'],
+                demandOption: false
+            })
+            .option('mapping-file', {
+                describe: 'Mapping file of the run, rolled back records are removed from it so they get migrated again next time',
+                type: 'string',
+                demandOption: false,
+                default: DEFAULT_MAPPING_FILE
+            });
+    },
+    handler: async (argv: any) => {
+        try {
+            await rollbackRun(argv);
+        } catch (error: any) {
+            console.log(`[ERROR] ${error.message || error}`);
+            process.exit(1);
+        }
+
+        // Exit explicitly so open SDK connections don't keep CI/CD pipelines waiting
+        process.exit(0);
+    }
+};
+
+// Records the run created that are still in place, in the order they are rolled back: by type in reverse dependency
+// order, the most recently created first within each type
+export function rollbackEntries(journal: Journal): DoneEntry[] {
+    // The last journal entry of each record still in place is its creation
+    const latest = new Map<string, JournalEntry>();
+    for (const entry of journal.entries) {
+        // after_create steps only update a record, its creation is what gets rolled back
+        if ((entry.type === 'done' && !entry.step) || entry.type === 'rolled_back') {
+            latest.set(`${entry.entity}:${entry.source_id}`, entry);
+        }
+    }
+    return [...latest.values()]
+        .filter((entry): entry is DoneEntry => entry.type === 'done' && entry.action === 'created')
+        .reverse()
+        .sort((a, b) => ROLLBACK_ORDER.indexOf(a.entity) - ROLLBACK_ORDER.indexOf(b.entity));
+}
+
+async function rollbackRun(argv: any) {
+    const run_id: string = argv['run-id'];
+    const journal = Journal.open(existsSync(run_id) ? run_id : journalPath(run_id));
+    const run = journal.run;
+
+    const created = rollbackEntries(journal);
+
+    console.log(`[LOG] Rolling back ${run.provider} run ${run.run_id} started at ${run.started_at}`);
+    console.log(`[LOG] Target: brand ${run.brand_id} in ${run.mode}`);
+
+    if (created.length === 0) {
+        console.log('[LOG] Nothing to roll back, this run created nothing that is still in place');
+        journal.close();
+        return;
+    }
+
+    // Detect if we're in non-interactive mode (CI/CD, automated scripts)
+    const interactive = !!process.stdin.isTTY;
+
+    const DODO_API_KEY = await requireSecret(argv['dodo-api-key'], 'dodo-api-key', 'Enter your Dodo Payments API Key:', interactive);
+    const MODE = argv['mode'] || run.mode;
+    if (MODE !== run.mode) {
+        throw new Error(`Run ${run.run_id} targets ${run.mode} but rollback is running against ${MODE}. Refusing to roll back.`);
+    }
+
+    console.log('\n[LOG] These records will be rolled back:');
+    created.forEach((entry, index) => {
+        const note = undoers[entry.entity] ? '' : ', kept: Dodo Payments can\'t delete it';
+        console.log(`${index + 1}. ${entry.entity}: ${entry.label} (Dodo Payments ${entry.entity} ID: ${entry.dodo_id}${note})`);
+    });
+
+    const proceed = await confirmProceed(`Proceed to roll back these ${created.length} records in Dodo Payments ${run.mode}?`, interactive);
+    if (!proceed) {
+        console.log('[LOG] Rollback cancelled by user');
+        journal.close();
+        return;
+    }
+
+    const client = new DodoPayments({
+        bearerToken: DODO_API_KEY,
+        environment: MODE,
+    });
+    const mappings = new MappingStore(argv['mapping-file'] || DEFAULT_MAPPING_FILE, run.provider, MODE, run.brand_id);
+
+    let rolledBack = 0;
+    let failed = 0;
+    const kept: DoneEntry[] = [];
+    for (const entry of created) {
+        const undoer = undoers[entry.entity];
+        if (!undoer) {
+            kept.push(entry);
+            continue;
+        }
+
+        try {
+            await undoer.undo(client, entry.dodo_id);
+            journal.rolledBack(entry);
+            mappings.delete(entry.entity, entry.source_id);
+            console.log(`[SUCCESS] ${undoer.verb} ${entry.entity}: ${entry.label} (Dodo Payments ${entry.entity} ID: ${entry.dodo_id})`);
+            rolledBack++;
+        } catch (error: any) {
+            // Continue with the remaining records even if one fails
+            console.log(`[ERROR] Failed to roll back ${entry.entity}: ${entry.label} - ${error.message || error}`);
+            failed++;
+        }
+    }
+    mappings.flush();
+    journal.close();
+
+    if (kept.length > 0) {
+        console.log(`\n[WARN] Dodo Payments has no API to delete customers, these ${kept.length} customers were kept:`);
+        kept.forEach(entry => console.log(`- ${entry.label} (Dodo Payments customer ID: ${entry.dodo_id})`));
+    }
+
+    console.log(`\n[LOG] Rollback completed! Rolled back: ${rolledBack}, Kept: ${kept.length}, Errors: ${failed}`);
+    if (failed > 0) {
+        console.log(`[WARN] Run \`dodo-migrate rollback ${run.run_id}\` again to retry the failed records`);
+    }
+}
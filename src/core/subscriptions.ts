@@ -0,0 +1,37 @@
+import { findExisting } from './engine';
+import { MigrationContext } from './types';
+
+// A billing address as read from the source provider
+export interface SourceAddress {
+    street?: string | null;
+    city?: string | null;
+    state?: string | null;
+    zipcode?: string | null;
+    country?: string | null;
+}
+
+// Dodo Payments requires a billing address on every subscription, missing parts are filled with placeholders.
+// Providers warn in the preview when the source has no address at all.
+export function billingAddress(address: SourceAddress = {}) {
+    return {
+        city: address.city || 'Unknown',
+        country: address.country || 'US',
+        state: address.state || 'Unknown',
+        street: address.street || 'Unknown',
+        zipcode: address.zipcode || '00000'
+    };
+}
+
+// Subscriptions keep the rest of a running trial, rounded up to whole days. Everything else gets 0,
+// otherwise paying subscribers would start the trial of the Dodo product again.
+export function trialDaysLeft(trialEnd: string | number | Date | null | undefined): number {
+    if (!trialEnd) return 0;
+    return Math.max(Math.ceil((new Date(trialEnd).getTime() - Date.now()) / 86400000), 0);
+}
+
+// The customer of a subscription payload: the Dodo customer migrated from the source customer or found by email,
+// otherwise Dodo Payments creates one from the email
+export async function subscriptionCustomer(ctx: MigrationContext, source_id: string, email: string, name?: string | null): Promise<any> {
+    const customer_id = await findExisting({ entity: 'customer', source_id, label: email, data: { email } }, ctx);
+    return customer_id ? { customer_id } : { email, name: name || email };
+}
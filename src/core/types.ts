@@ -0,0 +1,132 @@
+import DodoPayments from 'dodopayments';
+import type { Journal } from './journal';
+import type { MappingStore } from './mapping';
+import type { Reconciler } from './reconcile';
+
+// Kinds of records that can be created in Dodo Payments
+export type EntityType = 'meter' | 'product' | 'discount' | 'customer' | 'subscription';
+
+export type DodoMode = 'test_mode' | 'live_mode';
+
+// Points at a Dodo record migrated earlier in this or a previous run (e.g. the product a subscription belongs to)
+export interface EntityRef {
+    entity: EntityType;
+    source_id: string;
+}
+
+// A single record that is ready to be created in Dodo Payments
+export interface MigrationItem {
+    entity: EntityType;
+    // ID of the record in the source provider, used to link dependent records together
+    source_id: string;
+    // One-line description shown in the preview and in progress logs
+    label: string;
+    // Extra preview lines shown below the label
+    details?: string[];
+    // The exact payload passed to the Dodo Payments create call
+    data: any;
+    // Metadata field holding source_id in Dodo Payments (e.g. 'stripe_price_id'), used to find records
+    // migrated without a mapping file. Customers are matched by email and discounts by code instead.
+    metadata_key?: string;
+    // Payload fields (dot separated paths) that must be filled with the Dodo ID of another migrated record right before creation
+    refs?: Record<string, EntityRef>;
+    // Fields the create endpoint doesn't accept, sent with an update call right after creation (e.g. a subscription's next_billing_date)
+    after_create?: any;
+}
+
+// A source record that was left out of the migration, listed in the report at the end of the run
+export interface UnmigratedRecord {
+    // License keys can't be created through the Dodo Payments API, so they only ever show up here
+    entity: EntityType | 'license_key';
+    source_id: string;
+    label: string;
+    reason: string;
+}
+
+// Everything a provider needs while fetching and transforming its data
+export interface MigrationContext<TSource = any> {
+    source: TSource;
+    client: DodoPayments;
+    brand_id: string;
+    mode: DodoMode;
+    argv: any;
+    interactive: boolean;
+    // Fetch and transform only, never call the Dodo Payments create endpoints
+    dryRun: boolean;
+    // What to do with records that were already migrated by an earlier run
+    onExisting: 'skip' | 'update';
+    // Source ID -> Dodo ID of everything migrated so far, persisted between runs
+    mappings: MappingStore;
+    // Looks up already migrated records that are missing from the mapping store
+    reconcile: Reconciler;
+    // Write-ahead journal of the run, not set for dry runs and plans
+    journal?: Journal;
+    // Records the transform steps left out so far
+    unmigrated: UnmigratedRecord[];
+}
+
+// One selectable data type of a provider (products, coupons, customers, etc.)
+export interface MigrationType<TSource = any> {
+    // Value used in --migrate-types
+    value: string;
+    // Display name used in the checkbox prompt and logs
+    name: string;
+    // Whether the type is selected by default, or a function of the command line options (e.g. the files given)
+    checked: boolean | ((argv: any) => boolean);
+    // Read the raw records from the source provider
+    fetch: (ctx: MigrationContext<TSource>) => Promise<any[]>;
+    // Number of fetched source objects per object type (e.g. products and their prices), for the logs and the summary.
+    // Defaults to the number of records returned by fetch.
+    count?: (records: any[]) => Record<string, number>;
+    // Convert the raw records into Dodo Payments payloads, logging anything that gets skipped
+    transform: (records: any[], ctx: MigrationContext<TSource>) => Promise<MigrationItem[]> | MigrationItem[];
+}
+
+// The contract every provider command implements. The shared engine takes care of
+// credential prompts, brand selection, previews, confirmation and the Dodo create calls.
+export interface SourceProvider<TSource = any> {
+    // Command name (e.g. 'stripe')
+    command: string;
+    // Human readable provider name (e.g. 'Stripe')
+    name: string;
+    // Description of the --provider-api-key option and the prompt used to ask for it.
+    // Providers reading local files leave them out and are connected without an API key.
+    apiKeyDescription?: string;
+    apiKeyPrompt?: string;
+    // Extra provider specific yargs options
+    options?: Record<string, any>;
+    // Create and verify the provider SDK client. Throwing aborts the run.
+    connect: (apiKey: string, argv: any, interactive: boolean) => Promise<TSource>;
+    // Data types in the order they must be migrated
+    types: MigrationType<TSource>[];
+}
+
+// A Dodo Payments create call that was prepared but not executed (dry runs)
+export interface PlannedCall {
+    entity: EntityType;
+    source_id: string;
+    label: string;
+    // Set when the record already exists and would be updated
+    existing_id?: string;
+    payload: any;
+    after_create?: any;
+}
+
+// Outcome of a single data type migration
+export interface MigrationResult {
+    name: string;
+    fetched: number;
+    // Fetched source objects per object type, when the type reports more than the record count
+    counts?: Record<string, number>;
+    created: number;
+    updated: number;
+    existing: number;
+    failed: number;
+    skipped: boolean;
+    // Why the type was skipped when fetching or transforming it failed
+    error?: string;
+    // Items produced by the transform step
+    items: MigrationItem[];
+    // Payloads recorded instead of created during dry runs
+    planned: PlannedCall[];
+}
@@ -2,9 +2,17 @@
 import { hideBin } from 'yargs/helpers';
 import yargs from 'yargs';
 
-import MigrateLemonSqueezy from './providers/lemonsqueezy';
-import MigrateStripe from './providers/stripe';
-import MigratePolar from './providers/polar';
+import MigrateLemonSqueezy, { LemonSqueezyProvider } from './providers/lemonsqueezy';
+import MigrateStripe, { StripeProvider } from './providers/stripe';
+import MigratePolar, { PolarProvider } from './providers/polar';
+import MigrateGumroad, { GumroadProvider } from './providers/gumroad';
+import MigratePaddle, { PaddleProvider } from './providers/paddle';
+import MigrateFastSpring, { FastSpringProvider } from './providers/fastspring';
+import MigrateTwoCheckout, { TwoCheckoutProvider } from './providers/2checkout';
+import MigrateFile, { FileProvider } from './providers/file';
+import { createPlanCommand } from './core/command';
+import ApplyPlan from './core/apply';
+import RollbackRun from './core/rollback';
 
 // Silently check for the latest version of the package
 // Added a try catch block to ensure that any errors during the fetch process (example, NPM is down) do not crash the application
@@ -33,4 +41,14 @@ yargs(hideBin(process.argv))
     .command(MigrateLemonSqueezy)
     .command(MigrateStripe)
     .command(MigratePolar)
+    .command(MigrateGumroad)
+    .command(MigratePaddle)
+    .command(MigrateFastSpring)
+    .command(MigrateTwoCheckout)
+    .command(MigrateFile)
+    // Two-step migrations: plan first, apply after review
+    .command(createPlanCommand([LemonSqueezyProvider, StripeProvider, PolarProvider, GumroadProvider, PaddleProvider, FastSpringProvider, TwoCheckoutProvider, FileProvider]))
+    .command(ApplyPlan)
+    // Undo everything a run created, e.g. after rehearsing in test_mode
+    .command(RollbackRun)
     .argv;
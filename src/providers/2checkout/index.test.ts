@@ -0,0 +1,193 @@
+import { afterAll, beforeAll, expect, setSystemTime, test } from 'bun:test';
+import { createHmac } from 'node:crypto';
+import { join } from 'node:path';
+import { FixtureServer, serveFixtures, testContext } from '../../../test/testing';
+import { TwoCheckoutProvider, TwoCheckoutSource } from './index';
+
+const type = (value: string) => TwoCheckoutProvider.types.find(type => type.value === value)!;
+
+let server: FixtureServer;
+
+beforeAll(async () => {
+    // Trials and expiration dates in the fixtures are relative to this day
+    setSystemTime(new Date('2025-06-01T00:00:00.000Z'));
+    server = await serveFixtures(join(import.meta.dir, 'fixtures'), {
+        '/products/?Limit=1': 'products-page1.json',
+        '/products/?Limit=200&Page=1': 'products-page1.json',
+        '/products/?Limit=200&Page=2': 'products-page2.json',
+        '/promotions/?Limit=200&Page=1': 'promotions.json',
+        '/customers/?Limit=200&Page=1': 'customers.json',
+        '/subscriptions/?Limit=200&Page=1': 'subscriptions.json'
+    });
+});
+
+afterAll(async () => {
+    setSystemTime();
+    await server.close();
+});
+
+async function connect(): Promise<TwoCheckoutSource> {
+    return TwoCheckoutProvider.connect('MERCHANT:secret', { '2checkout-api-url': server.url }, false);
+}
+
+test('signs requests with the merchant code and secret key', async () => {
+    await connect();
+    const header = String(server.requests.find(request => request.path === '/products/?Limit=1')!.headers['x-avangate-authentication']);
+    const [, code, date, hash] = header.match(/^code="(.+)" date="(.+)" hash="(.+)" algo="sha256"$/)!;
+    expect(code).toBe('MERCHANT');
+    expect(hash).toBe(createHmac('sha256', 'secret').update(`${code.length}${code}${date.length}${date}`).digest('hex'));
+});
+
+test('fails with the error message of the API', async () => {
+    const failing = await serveFixtures('', {
+        '/products/?Limit=1': { status: 401, body: { error_code: 'AUTHENTICATION_ERROR', message: 'Authentication needed for this resource' } }
+    });
+    try {
+        await expect(TwoCheckoutProvider.connect('MERCHANT:wrong', { '2checkout-api-url': failing.url }, false))
+            .rejects.toThrow('2Checkout API request /products/?Limit=1 failed: Authentication needed for this resource');
+    } finally {
+        await failing.close();
+    }
+});
+
+test('pages through list calls until the total count is reached', async () => {
+    const ctx = testContext(await connect());
+    const products = await type('products').fetch(ctx);
+    expect(products.map(product => product.ProductCode)).toEqual(['PRO-M', 'PRO-Y', 'BOOK', 'COACHING', 'OLD', 'METERED', 'FREEBIE']);
+    expect(server.requests.some(request => request.path === '/products/?Limit=200&Page=2')).toBe(true);
+    expect(server.requests.some(request => request.path === '/products/?Limit=200&Page=3')).toBe(false);
+});
+
+test('normalizes products to the default pricing configuration and billing cycle', async () => {
+    const ctx = testContext(await connect());
+    const items = await type('products').transform(await type('products').fetch(ctx), ctx);
+    expect(items.map(item => item.source_id)).toEqual(['PRO-M', 'PRO-Y', 'BOOK', 'COACHING']);
+
+    const [monthly, yearly, book, coaching] = items;
+    expect(monthly.data).toMatchObject({ name: 'Pro Monthly', description: 'Pro features, billed monthly', type: 'subscription' });
+    expect(monthly.data.price).toMatchObject({
+        currency: 'USD',
+        price: 2900,
+        payment_frequency_interval: 'Month',
+        payment_frequency_count: 1,
+        subscription_period_count: 240
+    });
+    expect(monthly.data.metadata).toEqual({ '2checkout_product_code': 'PRO-M', '2checkout_product_id': '4639321', migrated_from: '2checkout' });
+    expect(monthly.details).toEqual([
+        '[WARN] Prices in other currencies are not migrated, Dodo Payments products have a single price',
+        '[WARN] Renews at 25 USD in 2Checkout, the Dodo Payments subscription renews at the first payment\'s price'
+    ]);
+
+    // 12 months read as a year
+    expect(yearly.data.price).toMatchObject({ price: 29000, payment_frequency_interval: 'Year', payment_frequency_count: 1, subscription_period_count: 20 });
+    expect(yearly.details).toEqual(['[WARN] Limited to a 3 Y contract in 2Checkout, the Dodo Payments subscription renews until cancelled']);
+
+    // The single unit price of the default configuration, not the volume price
+    expect(book.data.price).toEqual({ currency: 'USD', price: 1500, discount: 0, purchasing_power_parity: false, type: 'one_time_price' });
+
+    // 14 days read as two weeks
+    expect(coaching.data.price).toMatchObject({ currency: 'EUR', price: 8000, payment_frequency_interval: 'Week', payment_frequency_count: 2, subscription_period_count: 1040 });
+});
+
+test('transforms promotions with coupon codes', async () => {
+    const ctx = testContext(await connect());
+    const items = await type('promotions').transform(await type('promotions').fetch(ctx), ctx);
+    expect(items.map(item => item.source_id)).toEqual(['SPRING', 'BULK:BULK-AAA', 'BULK:BULK-BBB']);
+
+    const [spring, bulk] = items;
+    expect(spring.data).toEqual({
+        code: 'SPRING20',
+        name: 'Spring sale',
+        type: 'percentage',
+        amount: 2000,
+        brand_id: 'brand_test',
+        usage_limit: 100,
+        expires_at: '2099-12-31T23:59:59.000Z',
+        subscription_cycles: 3,
+        restricted_to: []
+    });
+    expect(spring.refs).toEqual({
+        'restricted_to.0': { entity: 'product', source_id: 'PRO-M' },
+        'restricted_to.1': { entity: 'product', source_id: 'PRO-Y' }
+    });
+
+    // Multiple-code promotions hand out single-use codes
+    expect(bulk.data).toMatchObject({ code: 'BULK-AAA', amount: 5000, usage_limit: 1, expires_at: null, subscription_cycles: 1 });
+    expect(bulk.refs).toBeUndefined();
+    expect(bulk.details).toContain('[WARN] Limited to 2 orders across all codes in 2Checkout, every Dodo Payments code can be used once');
+
+    expect(ctx.unmigrated.map(record => [record.source_id, record.reason])).toEqual([
+        ['TENOFF', 'Dodo Payments only supports percentage discounts, not fixed amount discounts'],
+        ['PAUSED', 'the promotion is disabled'],
+        ['NEWYEAR', 'the promotion has expired'],
+        ['AUTO5', 'instant discounts without a coupon code can\'t be migrated']
+    ]);
+});
+
+test('converts fixed promotions in their default currency with --fixed-discount-strategy=convert-to-percentage', async () => {
+    const ctx = testContext(await connect(), { 'fixed-discount-strategy': 'convert-to-percentage', 'fixed-discount-reference-price': 40 });
+    const items = await type('promotions').transform(await type('promotions').fetch(ctx), ctx);
+
+    const tenOff = items.find(item => item.source_id === 'TENOFF')!;
+    expect(tenOff.data).toMatchObject({ code: 'TENOFF', type: 'percentage', amount: 2500, usage_limit: null, expires_at: '2099-06-30T12:00:00.000Z', restricted_to: [] });
+    expect(tenOff.refs).toEqual({ 'restricted_to.0': { entity: 'product', source_id: 'BOOK' } });
+});
+
+test('maps enabled customers with an email address to the fields Dodo accepts', async () => {
+    const ctx = testContext(await connect());
+    const items = await type('customers').transform(await type('customers').fetch(ctx), ctx);
+    expect(items.map(item => item.source_id)).toEqual(['1001', '1002']);
+
+    const [ada, bob] = items;
+    expect(ada.data).toEqual({ email: 'ada@example.com', name: 'Ada Lovelace', phone_number: '+44 20 7946 0000' });
+    // Dodo Payments customers have no address, company or metadata
+    expect(ada.details).toEqual([
+        '[WARN] Address 12 Analytical Row, Floor 3, London, Greater London, EC1A 1BB, GB is not migrated',
+        '[WARN] Company Difference Engines Ltd is not migrated',
+        '[WARN] Fiscal code GB123456789 is not migrated',
+        '[WARN] External customer reference crm-ada is not migrated'
+    ]);
+    expect(bob.data).toEqual({ email: 'bob@example.com', name: 'Bob' });
+});
+
+test('maps active and trialing subscriptions to their product and next renewal', async () => {
+    const ctx = testContext(await connect());
+    const subscriptions = await type('subscriptions').fetch(ctx);
+    expect(subscriptions.map(subscription => subscription.SubscriptionReference)).toEqual(['SUBADA01', 'SUBTRIAL', 'SUBLIFE']);
+
+    const items = await type('subscriptions').transform(subscriptions, ctx);
+    // Lifetime subscriptions never renew
+    expect(items.map(item => item.source_id)).toEqual(['SUBADA01', 'SUBTRIAL']);
+
+    const [ada, trial] = items;
+    expect(ada.refs).toEqual({ product_id: { entity: 'product', source_id: 'PRO-M' } });
+    expect(ada.data).toMatchObject({
+        billing: { street: '12 Analytical Row, Floor 3', city: 'London', state: 'Greater London', zipcode: 'EC1A 1BB', country: 'GB' },
+        customer: { email: 'ada@example.com', name: 'Ada Lovelace' },
+        quantity: 2,
+        trial_period_days: 0,
+        metadata: {
+            '2checkout_subscription_reference': 'SUBADA01',
+            '2checkout_customer_reference': '1001',
+            '2checkout_product_code': 'PRO-M',
+            original_status: 'ACTIVE',
+            migrated_from: '2checkout'
+        }
+    });
+    expect(ada.after_create).toEqual({ next_billing_date: '2025-06-15T10:00:00.000Z' });
+
+    expect(trial.data.trial_period_days).toBe(7);
+    expect(trial.data.billing.zipcode).toBe('00000');
+    expect(trial.details).toEqual([
+        '[WARN] The end user has no billing address in 2Checkout, a placeholder address will be used',
+        'Auto-renewal is off in 2Checkout, ends at the next billing date'
+    ]);
+    expect(trial.after_create).toEqual({ next_billing_date: '2025-06-08T00:00:00.000Z', cancel_at_next_billing_date: true });
+});
+
+test('subscriptions reuse the Dodo customer migrated from the 2Checkout customer', async () => {
+    const ctx = testContext(await connect());
+    ctx.mappings.set('customer', '1001', 'cus_ada');
+    const items = await type('subscriptions').transform(await type('subscriptions').fetch(ctx), ctx);
+    expect(items[0].data.customer).toEqual({ customer_id: 'cus_ada' });
+});
@@ -0,0 +1,382 @@
+import { createHmac } from 'node:crypto';
+import { createCommand } from '../../core/command';
+import { fixedDiscountOptions, handleFixedDiscount, restrictionRefs, withDiscountFields } from '../../core/discounts';
+import { skipRecord } from '../../core/engine';
+import { createRestClient } from '../../core/http';
+import { BillingInterval, productItem } from '../../core/products';
+import { billingAddress, subscriptionCustomer, trialDaysLeft } from '../../core/subscriptions';
+import { EntityRef, MigrationContext, MigrationItem, SourceProvider } from '../../core/types';
+
+const TWOCHECKOUT_API_URL = 'https://api.2checkout.com/rest/6.0';
+
+// 2Checkout has no SDK, the source is the shared REST client
+export interface TwoCheckoutSource {
+    get: (path: string, params?: Record<string, string>) => Promise<any>;
+}
+
+// Requests are signed with the merchant code and secret key. The base URL can point at a server replaying recorded responses.
+export function createTwoCheckoutClient(merchantCode: string, secretKey: string, baseUrl: string = TWOCHECKOUT_API_URL): TwoCheckoutSource {
+    const { get } = createRestClient({
+        name: '2Checkout',
+        baseUrl,
+        headers: () => {
+            const date = new Date().toISOString().slice(0, 19).replace('T', ' ');
+            const hash = createHmac('sha256', secretKey).update(`${merchantCode.length}${merchantCode}${date.length}${date}`).digest('hex');
+            return { 'X-Avangate-Authentication': `code="${merchantCode}" date="${date}" hash="${hash}" algo="sha256"` };
+        },
+        error: body => body.error_code ? body.message || body.error_code : undefined
+    });
+    return { get };
+}
+
+export const TwoCheckoutProvider: SourceProvider<TwoCheckoutSource> = {
+    command: '2checkout',
+    name: '2Checkout',
+    apiKeyDescription: '2Checkout merchant code and secret key (MERCHANT_CODE:SECRET_KEY)',
+    apiKeyPrompt: 'Enter your 2Checkout merchant code and secret key (MERCHANT_CODE:SECRET_KEY):',
+    options: {
+        ...fixedDiscountOptions,
+        '2checkout-api-url': {
+            describe: '2Checkout API base URL, e.g. a local server replaying recorded responses',
+            type: 'string',
+            demandOption: false
+        }
+    },
+    connect: async (apiKey, argv) => {
+        const separator = apiKey.indexOf(':');
+        if (separator === -1) {
+            throw new Error('2Checkout credentials must be given as MERCHANT_CODE:SECRET_KEY');
+        }
+        const client = createTwoCheckoutClient(apiKey.slice(0, separator), apiKey.slice(separator + 1), argv['2checkout-api-url'] || TWOCHECKOUT_API_URL);
+        await client.get('/products/', { Limit: '1' });
+        return client;
+    },
+    types: [
+        {
+            value: 'products',
+            name: 'Products',
+            checked: true,
+            fetch: ({ source }) => listAll(source, '/products/'),
+            transform: transformProducts
+        },
+        {
+            value: 'promotions',
+            name: 'Promotions',
+            checked: true,
+            fetch: ({ source }) => listAll(source, '/promotions/'),
+            transform: transformPromotions
+        },
+        {
+            value: 'customers',
+            name: 'Customers',
+            checked: false,
+            fetch: ({ source }) => listAll(source, '/customers/'),
+            transform: transformCustomers
+        },
+        {
+            value: 'subscriptions',
+            name: 'Subscriptions',
+            checked: false,
+            fetch: fetchSubscriptions,
+            transform: transformSubscriptions
+        }
+    ]
+};
+
+export default createCommand(TwoCheckoutProvider);
+
+// Walk every page of a list call, 2Checkout returns at most 200 items per page
+async function listAll(source: TwoCheckoutSource, path: string, params: Record<string, string> = {}): Promise<any[]> {
+    const items: any[] = [];
+    for (let page = 1; ; page++) {
+        const body = await source.get(path, { ...params, Limit: '200', Page: String(page) });
+        items.push(...(body.Items || []));
+        const count = body.Pagination?.Count ?? items.length;
+        if ((body.Items || []).length === 0 || items.length >= count) break;
+    }
+    return items;
+}
+
+// 2Checkout dates are UTC without a timezone ("2026-11-20 13:45:00")
+function toISODate(date: string): string {
+    return new Date(`${date.replace(' ', 'T')}Z`).toISOString();
+}
+
+// Billing cycles are counted in days or months, whole weeks and years are converted so the Dodo product reads naturally
+function billingInterval(cycle: number, units: string): { interval: BillingInterval, count: number } | undefined {
+    if (units === 'D') {
+        return cycle % 7 === 0 ? { interval: 'Week', count: cycle / 7 } : { interval: 'Day', count: cycle };
+    }
+    if (units === 'M') {
+        return cycle % 12 === 0 ? { interval: 'Year', count: cycle / 12 } : { interval: 'Month', count: cycle };
+    }
+    return undefined;
+}
+
+function transformProducts(products: any[], { brand_id }: MigrationContext<TwoCheckoutSource>): MigrationItem[] {
+    const productsToMigrate: MigrationItem[] = [];
+
+    for (const product of products) {
+        if (!product.Enabled) {
+            console.log(`[LOG] Skipping product ${product.ProductName} - disabled`);
+            continue;
+        }
+
+        // The default pricing configuration, its regular price in the default currency for a single unit
+        const pricing = product.PricingConfigurations?.find((configuration: any) => configuration.Default) || product.PricingConfigurations?.[0];
+        const regular: any[] = pricing?.Prices?.Regular || [];
+        const price = regular.find(entry => entry.Currency === pricing.DefaultCurrency && (entry.MinQuantity ?? 1) <= 1) || regular[0];
+        if (!price) {
+            console.log(`[LOG] Skipping product ${product.ProductName} - no price found`);
+            continue;
+        }
+
+        const subscription = product.SubscriptionInformation;
+        const recurring = subscription && !subscription.IsOneTimeFee
+            ? billingInterval(subscription.BillingCycle, subscription.BillingCycleUnits)
+            : undefined;
+        if (subscription && !subscription.IsOneTimeFee && !recurring) {
+            console.log(`[ERROR] Unsupported billing cycle "${subscription.BillingCycle} ${subscription.BillingCycleUnits}" for product ${product.ProductCode}; skipping to avoid creating a wrong plan`);
+            continue;
+        }
+
+        const details: string[] = [];
+        if (regular.some(entry => entry.Currency !== price.Currency)) {
+            details.push('[WARN] Prices in other currencies are not migrated, Dodo Payments products have a single price');
+        }
+        const renewal = (pricing.Prices?.Renewal || []).find((entry: any) => entry.Currency === price.Currency);
+        if (recurring && renewal && renewal.Amount !== price.Amount) {
+            details.push(`[WARN] Renews at ${renewal.Amount} ${renewal.Currency} in 2Checkout, the Dodo Payments subscription renews at the first payment's price`);
+        }
+        if (recurring && subscription.ContractPeriod && !subscription.ContractPeriod.IsUnlimited) {
+            details.push(`[WARN] Limited to a ${subscription.ContractPeriod.Period} ${subscription.ContractPeriod.PeriodUnits} contract in 2Checkout, the Dodo Payments subscription renews until cancelled`);
+        }
+
+        productsToMigrate.push(productItem({
+            source_id: product.ProductCode,
+            metadata_key: '2checkout_product_code',
+            name: product.ProductName,
+            description: product.ShortDescription || '',
+            currency: price.Currency,
+            // 2Checkout prices are in major units (10.99), Dodo expects the smallest currency unit
+            amount: Math.round(price.Amount * 100),
+            recurring,
+            metadata: {
+                '2checkout_product_id': product.AvangateId,
+                migrated_from: '2checkout'
+            },
+            details
+        }, brand_id));
+    }
+
+    return productsToMigrate;
+}
+
+async function transformPromotions(promotions: any[], ctx: MigrationContext<TwoCheckoutSource>): Promise<MigrationItem[]> {
+    const { brand_id } = ctx;
+    const discountsToMigrate: MigrationItem[] = [];
+
+    for (const promotion of promotions) {
+        const name: string = promotion.Name || promotion.Code;
+        const label = `${name} (${promotion.Code})`;
+        if (!promotion.Enabled) {
+            skipRecord(ctx, { entity: 'discount', source_id: promotion.Code, label, reason: 'the promotion is disabled' });
+            continue;
+        }
+        const expires_at = promotion.EndDate ? toISODate(promotion.EndDate.length === 10 ? `${promotion.EndDate} 23:59:59` : promotion.EndDate) : null;
+        if (expires_at && new Date(expires_at) < new Date()) {
+            skipRecord(ctx, { entity: 'discount', source_id: promotion.Code, label, reason: 'the promotion has expired' });
+            continue;
+        }
+        const codes: string[] = promotion.Coupon?.Codes || [];
+        if (promotion.InstantDiscount || codes.length === 0) {
+            skipRecord(ctx, { entity: 'discount', source_id: promotion.Code, label, reason: 'instant discounts without a coupon code can\'t be migrated' });
+            continue;
+        }
+
+        const details: string[] = [];
+        // Multiple-code promotions hand out single-use codes
+        const singleUse = promotion.Coupon.Type === 'MULTIPLE';
+        const data: Record<string, any> = {
+            usage_limit: singleUse ? 1 : promotion.MaximumOrdersNumber > 0 ? promotion.MaximumOrdersNumber : null,
+            expires_at
+        };
+        if (promotion.ApplyRecurring === false) {
+            data.subscription_cycles = 1;
+            details.push('Applies to the first subscription payment only');
+        } else if (promotion.RecurringChargesNumber > 0) {
+            data.subscription_cycles = promotion.RecurringChargesNumber;
+            details.push(`Applies to the first ${promotion.RecurringChargesNumber} subscription payments`);
+        }
+        if (singleUse && promotion.MaximumOrdersNumber > 0) {
+            details.push(`[WARN] Limited to ${promotion.MaximumOrdersNumber} orders across all codes in 2Checkout, every Dodo Payments code can be used once`);
+        }
+
+        // Promotions limited to products are restricted to the Dodo products migrated from them
+        let refs: Record<string, EntityRef> = {};
+        const productCodes: string[] = (promotion.Products || []).map((product: any) => product.Code);
+        if (productCodes.length > 0) {
+            refs = restrictionRefs(productCodes);
+            details.push(`Restricted to ${productCodes.length} products (2Checkout product codes: ${productCodes.join(', ')})`);
+        }
+
+        const discount = promotion.Discount || {};
+        for (const code of codes) {
+            const source_id = codes.length > 1 ? `${promotion.Code}:${code}` : promotion.Code;
+            let item: MigrationItem | undefined;
+            if (discount.Type === 'PERCENT') {
+                // Note: 2Checkout stores percentages as numbers (15 for 15%), Dodo expects basis points (1500)
+                item = {
+                    entity: 'discount',
+                    source_id,
+                    label: `${name} (${code}) - ${discount.Value}% discount`,
+                    data: {
+                        code,
+                        name,
+                        type: 'percentage',
+                        amount: Math.round(discount.Value * 100),
+                        brand_id
+                    }
+                };
+            } else {
+                // Fixed amount promotions are handled according to --fixed-discount-strategy
+                const value = (discount.Values || []).find((entry: any) => entry.Currency === discount.DefaultCurrency) || discount.Values?.[0];
+                if (!value) {
+                    skipRecord(ctx, { entity: 'discount', source_id, label: `${name} (${code})`, reason: 'no discount value found' });
+                    continue;
+                }
+                item = await handleFixedDiscount({
+                    source_id,
+                    code,
+                    name,
+                    amount: Math.round(value.Amount * 100),
+                    currency: value.Currency,
+                    usage_limit: data.usage_limit,
+                    expires_at,
+                    brand_id
+                }, ctx);
+            }
+            if (!item) continue;
+
+            discountsToMigrate.push(withDiscountFields(item, data, details, refs));
+        }
+    }
+
+    return discountsToMigrate;
+}
+
+function transformCustomers(customers: any[]): MigrationItem[] {
+    const customersToMigrate: MigrationItem[] = [];
+
+    for (const customer of customers) {
+        if (!customer.Email) {
+            console.log(`[LOG] Skipping customer ${customer.CustomerReference} - no email address`);
+            continue;
+        }
+        if (customer.Enabled === false) {
+            console.log(`[LOG] Skipping disabled customer: ${customer.CustomerReference}`);
+            continue;
+        }
+        const name = [customer.FirstName, customer.LastName].filter(Boolean).join(' ');
+
+        // Dodo Payments customers only have an email, name and phone number, the address, company and references can't be kept
+        const location = [customer.Address1, customer.Address2, customer.City, customer.State, customer.Zip, (customer.CountryCode || '').toUpperCase()].filter(Boolean).join(', ');
+        const details = [
+            ...(location ? [`[WARN] Address ${location} is not migrated`] : []),
+            ...(customer.Company ? [`[WARN] Company ${customer.Company} is not migrated`] : []),
+            ...(customer.FiscalCode ? [`[WARN] Fiscal code ${customer.FiscalCode} is not migrated`] : []),
+            ...(customer.ExternalCustomerReference ? [`[WARN] External customer reference ${customer.ExternalCustomerReference} is not migrated`] : [])
+        ];
+
+        customersToMigrate.push({
+            entity: 'customer',
+            source_id: String(customer.CustomerReference),
+            label: `${name || 'Unnamed'} (${customer.Email})`,
+            ...(details.length > 0 ? { details } : {}),
+            data: {
+                email: customer.Email,
+                name: name || customer.Email,
+                ...(customer.Phone ? { phone_number: customer.Phone } : {})
+            }
+        });
+    }
+
+    return customersToMigrate;
+}
+
+// Subscription statuses that are still billing, or will be once the trial or the retries end
+const MIGRATED_SUBSCRIPTION_STATUSES = ['ACTIVE', 'TRIAL', 'PASTDUE'];
+
+async function fetchSubscriptions({ source }: MigrationContext<TwoCheckoutSource>): Promise<any[]> {
+    const subscriptions = await listAll(source, '/subscriptions/');
+    const migrated = subscriptions.filter(subscription => subscription.SubscriptionEnabled !== false && MIGRATED_SUBSCRIPTION_STATUSES.includes(subscription.Status));
+    console.log(`[LOG] ${migrated.length} of ${subscriptions.length} subscriptions are active, trialing or past due`);
+    return migrated;
+}
+
+async function transformSubscriptions(subscriptions: any[], ctx: MigrationContext<TwoCheckoutSource>): Promise<MigrationItem[]> {
+    const subscriptionsToMigrate: MigrationItem[] = [];
+
+    for (const subscription of subscriptions) {
+        const endUser = subscription.EndUser || {};
+        if (!endUser.Email) {
+            console.log(`[LOG] Skipping subscription ${subscription.SubscriptionReference} - the end user has no email address`);
+            continue;
+        }
+        if (!subscription.ExpirationDate) {
+            console.log(`[LOG] Skipping subscription ${subscription.SubscriptionReference} - lifetime subscriptions are never billed again`);
+            continue;
+        }
+
+        const details = endUser.CountryCode ? [] : ['[WARN] The end user has no billing address in 2Checkout, a placeholder address will be used'];
+        // Subscriptions renew when they expire, trials convert on their expiration date
+        const next_billing_date = toISODate(subscription.ExpirationDate);
+        const trialDays = subscription.Status === 'TRIAL' ? trialDaysLeft(next_billing_date) : 0;
+        const cancelling = subscription.RecurringEnabled === false;
+        if (cancelling) {
+            details.push('Auto-renewal is off in 2Checkout, ends at the next billing date');
+        }
+        const name = [endUser.FirstName, endUser.LastName].filter(Boolean).join(' ');
+
+        const customer = await subscriptionCustomer(ctx, String(subscription.CustomerReference ?? endUser.Email), endUser.Email, name);
+        const quantity = subscription.Product?.ProductQuantity || 1;
+
+        subscriptionsToMigrate.push({
+            entity: 'subscription',
+            source_id: subscription.SubscriptionReference,
+            metadata_key: '2checkout_subscription_reference',
+            label: `${subscription.SubscriptionReference} - ${endUser.Email} - ${subscription.Product?.ProductName} x${quantity} (${subscription.Status}, ${trialDays > 0 ? `${trialDays} trial days left` : `renews ${next_billing_date.slice(0, 10)}`})`,
+            details,
+            data: {
+                billing: billingAddress({
+                    street: [endUser.Address1, endUser.Address2].filter(Boolean).join(', '),
+                    city: endUser.City,
+                    state: endUser.State,
+                    zipcode: endUser.Zip,
+                    country: endUser.CountryCode?.toUpperCase()
+                }),
+                customer,
+                quantity,
+                trial_period_days: trialDays,
+                metadata: {
+                    '2checkout_subscription_reference': subscription.SubscriptionReference,
+                    ...(subscription.CustomerReference ? { '2checkout_customer_reference': String(subscription.CustomerReference) } : {}),
+                    '2checkout_product_code': subscription.Product?.ProductCode,
+                    original_status: subscription.Status,
+                    migrated_from: '2checkout'
+                }
+            },
+            // Link to the Dodo product created from the subscribed 2Checkout product
+            refs: {
+                product_id: { entity: 'product', source_id: subscription.Product?.ProductCode }
+            },
+            // Keep the billing cycle: the first Dodo charge happens when the subscription would have renewed in 2Checkout
+            after_create: {
+                next_billing_date,
+                ...(cancelling ? { cancel_at_next_billing_date: true } : {})
+            }
+        });
+    }
+
+    return subscriptionsToMigrate;
+}
@@ -0,0 +1,200 @@
+import { afterAll, beforeAll, expect, setSystemTime, test } from 'bun:test';
+import { join } from 'node:path';
+import { FixtureServer, serveFixtures, testContext } from '../../../test/testing';
+import { FastSpringProvider, FastSpringSource } from './index';
+
+const type = (value: string) => FastSpringProvider.types.find(type => type.value === value)!;
+const fixtures = join(import.meta.dir, 'fixtures');
+
+let server: FixtureServer;
+
+beforeAll(async () => {
+    // Trials and next charge dates in the fixtures are relative to this day
+    setSystemTime(new Date('2025-06-01T00:00:00.000Z'));
+    server = await serveFixtures(fixtures, {
+        '/products': 'product-list.json',
+        '/products/team-monthly,annual-pro,ebook,consulting,free-sample,quarterly': 'products.json',
+        '/coupons': 'coupon-list.json',
+        '/coupons/SPRING': 'coupon-spring.json',
+        '/coupons/SPRING/codes': 'coupon-spring-codes.json',
+        '/coupons/FLAT10': 'coupon-flat10.json',
+        '/coupons/FLAT10/codes': 'coupon-flat10-codes.json',
+        '/coupons/OLD': 'coupon-old.json',
+        '/coupons/OLD/codes': 'coupon-old-codes.json',
+        '/coupons/EMPTY': 'coupon-empty.json',
+        '/coupons/EMPTY/codes': 'coupon-empty-codes.json',
+        '/accounts?page=1': 'account-list-page1.json',
+        '/accounts?page=2': 'account-list-page2.json',
+        '/accounts/acc_ada,acc_bob,acc_cy': 'accounts.json',
+        '/subscriptions?status=active&page=1': 'subscription-list.json',
+        '/subscriptions/sub_ada,sub_bob,sub_gone,sub_nonext': 'subscriptions.json',
+        '/accounts/acc_ada,acc_bob': 'subscription-accounts.json'
+    });
+});
+
+afterAll(async () => {
+    setSystemTime();
+    await server.close();
+});
+
+async function connect(): Promise<FastSpringSource> {
+    return FastSpringProvider.connect('api_user:api_password', { 'fastspring-api-url': server.url }, false);
+}
+
+test('connects to --fastspring-api-url with basic auth', async () => {
+    await connect();
+    const request = server.requests.find(request => request.path === '/products')!;
+    expect(request.headers.authorization).toBe(`Basic ${Buffer.from('api_user:api_password').toString('base64')}`);
+});
+
+test('fails on error results', async () => {
+    const failing = await serveFixtures(fixtures, { '/products': 'unauthorized.json' });
+    try {
+        await expect(FastSpringProvider.connect('api_user:wrong', { 'fastspring-api-url': failing.url }, false))
+            .rejects.toThrow('FastSpring API request /products failed: {"authorization":"Invalid credentials"}');
+    } finally {
+        await failing.close();
+    }
+});
+
+test('fetches listed records in batches of 50 IDs', async () => {
+    const paths = Array.from({ length: 60 }, (_, index) => `product-${index + 1}`);
+    const product = (path: string) => ({ product: path, display: { en: path }, pricing: { price: { USD: 1 } } });
+    const batched = await serveFixtures('', {
+        '/products': { status: 200, body: { products: paths } },
+        [`/products/${paths.slice(0, 50).join(',')}`]: { status: 200, body: { products: paths.slice(0, 50).map(product) } },
+        [`/products/${paths.slice(50).join(',')}`]: { status: 200, body: { products: paths.slice(50).map(product) } }
+    });
+    try {
+        const source = await FastSpringProvider.connect('api_user:api_password', { 'fastspring-api-url': batched.url }, false);
+        const products = await type('products').fetch(testContext(source));
+        expect(products.map(product => product.product)).toEqual(paths);
+        expect(batched.requests.length).toBe(4);
+    } finally {
+        await batched.close();
+    }
+});
+
+test('normalizes products to a single price and a supported interval', async () => {
+    const ctx = testContext(await connect());
+    const items = await type('products').transform(await type('products').fetch(ctx), ctx);
+    expect(items.map(item => item.source_id)).toEqual(['team-monthly', 'annual-pro', 'ebook', 'quarterly']);
+
+    const [monthly, annual, ebook, quarterly] = items;
+    // USD is preferred, prices in major units become cents
+    expect(monthly.data).toMatchObject({ name: 'Team Monthly', description: 'Monthly plan for small teams', type: 'subscription' });
+    expect(monthly.data.price).toMatchObject({
+        currency: 'USD',
+        price: 1999,
+        type: 'recurring_price',
+        payment_frequency_interval: 'Month',
+        payment_frequency_count: 1,
+        subscription_period_count: 240,
+        trial_period_days: 14
+    });
+    expect(monthly.data.metadata).toEqual({ fastspring_product_path: 'team-monthly', migrated_from: 'fastspring' });
+    expect(monthly.details).toContain('[WARN] Prices in EUR are not migrated, Dodo Payments products have a single price');
+
+    expect(annual.data.price).toMatchObject({ currency: 'EUR', price: 19900, payment_frequency_interval: 'Year', subscription_period_count: 20 });
+    expect(annual.details).toContain('[WARN] Ends after 3 charges in FastSpring, the Dodo Payments subscription renews until cancelled');
+
+    expect(ebook.data.price).toEqual({ currency: 'USD', price: 950, discount: 0, purchasing_power_parity: false, type: 'one_time_price' });
+
+    expect(quarterly.data.description).toBe('');
+    expect(quarterly.data.price).toMatchObject({ price: 4500, payment_frequency_interval: 'Month', payment_frequency_count: 3, trial_period_days: 7 });
+    expect(quarterly.details).toContain('[WARN] Paid trials are not supported, the trial becomes a free trial');
+});
+
+test('creates one discount per coupon code', async () => {
+    const ctx = testContext(await connect());
+    const records = await type('coupons').fetch(ctx);
+    expect(type('coupons').count!(records)).toEqual({ coupons: 4, codes: 4 });
+
+    const items = await type('coupons').transform(records, ctx);
+    expect(items.map(item => item.source_id)).toEqual(['SPRING:SPRING25', 'SPRING:SPRINGVIP']);
+
+    const [spring] = items;
+    expect(spring.data).toMatchObject({
+        code: 'SPRING25',
+        name: 'Spring sale',
+        type: 'percentage',
+        amount: 2500,
+        usage_limit: 100,
+        subscription_cycles: 3,
+        restricted_to: []
+    });
+    expect(new Date(spring.data.expires_at).getUTCFullYear()).toBe(2099);
+    expect(spring.refs).toEqual({
+        'restricted_to.0': { entity: 'product', source_id: 'team-monthly' },
+        'restricted_to.1': { entity: 'product', source_id: 'annual-pro' }
+    });
+    expect(items[1].data.code).toBe('SPRINGVIP');
+
+    expect(ctx.unmigrated.map(record => [record.source_id, record.reason])).toEqual([
+        ['FLAT10:TENOFF', 'Dodo Payments only supports percentage discounts, not fixed amount discounts'],
+        ['OLD', 'the coupon has expired'],
+        ['EMPTY', 'the coupon has no codes']
+    ]);
+});
+
+test('converts flat coupons with --fixed-discount-strategy=convert-to-percentage', async () => {
+    const ctx = testContext(await connect(), { 'fixed-discount-strategy': 'convert-to-percentage', 'fixed-discount-reference-price': 50 });
+    const items = await type('coupons').transform(await type('coupons').fetch(ctx), ctx);
+
+    const flat = items.find(item => item.source_id === 'FLAT10:TENOFF')!;
+    expect(flat.data).toMatchObject({ code: 'TENOFF', type: 'percentage', amount: 2000, usage_limit: null, expires_at: null, restricted_to: [] });
+    expect(flat.refs).toEqual({ 'restricted_to.0': { entity: 'product', source_id: 'ebook' } });
+});
+
+test('pages through accounts and sends the contact fields Dodo accepts', async () => {
+    const ctx = testContext(await connect());
+    const accounts = await type('customers').fetch(ctx);
+    expect(server.requests.some(request => request.path === '/accounts?page=2')).toBe(true);
+    expect(accounts.map(account => account.id)).toEqual(['acc_ada', 'acc_bob', 'acc_cy']);
+
+    const [ada, bob] = await type('customers').transform(accounts, ctx);
+    expect(ada.data).toEqual({ email: 'ada@example.com', name: 'Ada Lovelace', phone_number: '+44 20 7946 0000' });
+    // Dodo Payments customers have no address or company
+    expect(ada.details).toEqual([
+        '[WARN] Address 12 Analytical Row, Floor 3, London, Greater London, EC1A 1BB, GB is not migrated',
+        '[WARN] Company Difference Engines Ltd is not migrated'
+    ]);
+    expect(bob.data).toEqual({ email: 'bob@example.com', name: 'Bob' });
+    expect(bob.details).toBeUndefined();
+});
+
+test('maps active, trialing and cancelled subscriptions and skips those without a next charge', async () => {
+    const ctx = testContext(await connect());
+    const records = await type('subscriptions').fetch(ctx);
+    expect(records.map(record => record.subscription.id)).toEqual(['sub_ada', 'sub_bob', 'sub_nonext']);
+
+    const items = await type('subscriptions').transform(records, ctx);
+    expect(items.map(item => item.source_id)).toEqual(['sub_ada', 'sub_bob']);
+    expect(ctx.unmigrated.map(record => [record.source_id, record.reason])).toEqual([['sub_nonext', 'FastSpring reports no next charge date']]);
+
+    const [ada, bob] = items;
+    expect(ada.refs).toEqual({ product_id: { entity: 'product', source_id: 'team-monthly' } });
+    expect(ada.data).toMatchObject({
+        billing: { street: '12 Analytical Row, Floor 3', city: 'London', state: 'Greater London', zipcode: 'EC1A 1BB', country: 'GB' },
+        customer: { email: 'ada@example.com', name: 'Ada Lovelace' },
+        quantity: 3,
+        trial_period_days: 0,
+        metadata: {
+            fastspring_subscription_id: 'sub_ada',
+            fastspring_account_id: 'acc_ada',
+            fastspring_product_path: 'team-monthly',
+            original_status: 'active',
+            migrated_from: 'fastspring'
+        }
+    });
+    expect(ada.after_create).toEqual({ next_billing_date: '2025-06-15T00:00:00.000Z' });
+
+    // The trial ends with the next charge, the cancellation takes effect then
+    expect(bob.data.trial_period_days).toBe(5);
+    expect(bob.data.billing).toEqual({ city: 'Unknown', country: 'US', state: 'Unknown', street: 'Unknown', zipcode: '00000' });
+    expect(bob.details).toEqual([
+        '[WARN] The account has no billing address in FastSpring, a placeholder address will be used',
+        'Cancelled in FastSpring, ends at the next billing date'
+    ]);
+    expect(bob.after_create).toEqual({ next_billing_date: '2025-06-05T12:00:00.000Z', cancel_at_next_billing_date: true });
+});
@@ -0,0 +1,402 @@
+import { createCommand } from '../../core/command';
+import { fixedDiscountOptions, handleFixedDiscount, restrictionRefs, withDiscountFields } from '../../core/discounts';
+import { skipRecord } from '../../core/engine';
+import { createRestClient } from '../../core/http';
+import { BillingInterval, productItem } from '../../core/products';
+import { billingAddress, subscriptionCustomer, trialDaysLeft } from '../../core/subscriptions';
+import { EntityRef, MigrationContext, MigrationItem, SourceProvider } from '../../core/types';
+
+const FASTSPRING_API_URL = 'https://api.fastspring.com';
+
+// FastSpring has no SDK, the source is the shared REST client
+export interface FastSpringSource {
+    get: (path: string, params?: Record<string, string>) => Promise<any>;
+}
+
+// The base URL can point at a server replaying recorded FastSpring responses
+export function createFastSpringClient(credentials: string, baseUrl: string = FASTSPRING_API_URL): FastSpringSource {
+    const authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    const { get } = createRestClient({
+        name: 'FastSpring',
+        baseUrl,
+        headers: () => ({ Authorization: authorization }),
+        error: body => body.result === 'error' ? JSON.stringify(body.error) : undefined
+    });
+    return { get };
+}
+
+export const FastSpringProvider: SourceProvider<FastSpringSource> = {
+    command: 'fastspring',
+    name: 'FastSpring',
+    apiKeyDescription: 'FastSpring API credentials (username:password)',
+    apiKeyPrompt: 'Enter your FastSpring API credentials (username:password):',
+    options: {
+        ...fixedDiscountOptions,
+        'fastspring-api-url': {
+            describe: 'FastSpring API base URL, e.g. a local server replaying recorded responses',
+            type: 'string',
+            demandOption: false
+        }
+    },
+    connect: async (apiKey, argv) => {
+        if (!apiKey.includes(':')) {
+            throw new Error('FastSpring API credentials must be given as username:password');
+        }
+        const client = createFastSpringClient(apiKey, argv['fastspring-api-url'] || FASTSPRING_API_URL);
+        await client.get('/products');
+        return client;
+    },
+    types: [
+        {
+            value: 'products',
+            name: 'Products',
+            checked: true,
+            fetch: fetchProducts,
+            transform: transformProducts
+        },
+        {
+            value: 'coupons',
+            name: 'Coupons',
+            checked: true,
+            fetch: fetchCoupons,
+            count: (records) => ({
+                coupons: records.length,
+                codes: records.reduce((total, record) => total + record.codes.length, 0)
+            }),
+            transform: transformCoupons
+        },
+        {
+            value: 'customers',
+            name: 'Customers',
+            checked: false,
+            fetch: fetchCustomers,
+            transform: transformCustomers
+        },
+        {
+            value: 'subscriptions',
+            name: 'Subscriptions',
+            checked: false,
+            fetch: fetchSubscriptions,
+            transform: transformSubscriptions
+        }
+    ]
+};
+
+export default createCommand(FastSpringProvider);
+
+// FastSpring returns IDs from list calls, the records themselves are fetched in batches of comma separated IDs
+async function getBatched(source: FastSpringSource, path: string, key: string, ids: string[]): Promise<any[]> {
+    const records: any[] = [];
+    for (let i = 0; i < ids.length; i += 50) {
+        const body = await source.get(`${path}/${ids.slice(i, i + 50).map(encodeURIComponent).join(',')}`);
+        records.push(...(body[key] || []));
+    }
+    return records;
+}
+
+// Walk every page of a paginated list call
+async function listPages(source: FastSpringSource, path: string, key: string, params: Record<string, string> = {}): Promise<any[]> {
+    const records: any[] = [];
+    let page: number | undefined = 1;
+    while (page) {
+        const body = await source.get(path, { ...params, page: String(page) });
+        records.push(...(body[key] || []));
+        page = body.nextPage || undefined;
+    }
+    return records;
+}
+
+async function fetchProducts({ source }: MigrationContext<FastSpringSource>): Promise<any[]> {
+    const { products } = await source.get('/products');
+    return getBatched(source, '/products', 'products', products || []);
+}
+
+// FastSpring intervals and the Dodo Payments billing interval they map to, adhoc subscriptions are billed manually
+const INTERVALS: Record<string, BillingInterval> = {
+    day: 'Day',
+    week: 'Week',
+    month: 'Month',
+    year: 'Year'
+};
+
+// Dodo products have a single price, USD is preferred when a product is priced in several currencies
+function mainPrice(prices: Record<string, number>): { currency: string, amount: number } | undefined {
+    const currency = prices.USD !== undefined ? 'USD' : Object.keys(prices)[0];
+    // FastSpring prices are in major units (10.99), Dodo expects the smallest currency unit
+    return currency ? { currency, amount: Math.round(prices[currency] * 100) } : undefined;
+}
+
+function transformProducts(products: any[], { brand_id }: MigrationContext<FastSpringSource>): MigrationItem[] {
+    const productsToMigrate: MigrationItem[] = [];
+
+    for (const product of products) {
+        const name = product.display?.en || product.product;
+        const pricing = product.pricing || {};
+        const price = mainPrice(pricing.price || {});
+        if (!price) {
+            console.log(`[LOG] Skipping product ${name} - no price found`);
+            continue;
+        }
+        if (pricing.interval && !INTERVALS[pricing.interval]) {
+            console.log(`[ERROR] Unsupported billing interval "${pricing.interval}" for product ${product.product}; skipping to avoid creating a wrong plan`);
+            continue;
+        }
+
+        const details: string[] = [];
+        const otherCurrencies = Object.keys(pricing.price).filter(currency => currency !== price.currency);
+        if (otherCurrencies.length > 0) {
+            details.push(`[WARN] Prices in ${otherCurrencies.join(', ')} are not migrated, Dodo Payments products have a single price`);
+        }
+        if (pricing.intervalCount) {
+            details.push(`[WARN] Ends after ${pricing.intervalCount} charges in FastSpring, the Dodo Payments subscription renews until cancelled`);
+        }
+        if (pricing.trialPrice) {
+            details.push('[WARN] Paid trials are not supported, the trial becomes a free trial');
+        }
+
+        productsToMigrate.push(productItem({
+            source_id: product.product,
+            metadata_key: 'fastspring_product_path',
+            name,
+            description: product.description?.summary?.en || '',
+            currency: price.currency,
+            amount: price.amount,
+            recurring: pricing.interval ? {
+                interval: INTERVALS[pricing.interval],
+                count: pricing.intervalLength || 1,
+                trial_days: pricing.trial || undefined
+            } : undefined,
+            metadata: { migrated_from: 'fastspring' },
+            details
+        }, brand_id));
+    }
+
+    return productsToMigrate;
+}
+
+interface CouponRecord {
+    coupon: any;
+    // Codes customers type at checkout to redeem the coupon
+    codes: string[];
+}
+
+async function fetchCoupons({ source }: MigrationContext<FastSpringSource>): Promise<CouponRecord[]> {
+    const { coupons } = await source.get('/coupons');
+
+    const records: CouponRecord[] = [];
+    for (const id of coupons || []) {
+        const coupon = await source.get(`/coupons/${encodeURIComponent(id)}`);
+        const { codes } = await source.get(`/coupons/${encodeURIComponent(id)}/codes`);
+        records.push({ coupon, codes: codes || [] });
+    }
+    return records;
+}
+
+async function transformCoupons(records: CouponRecord[], ctx: MigrationContext<FastSpringSource>): Promise<MigrationItem[]> {
+    const { brand_id } = ctx;
+    const couponsToMigrate: MigrationItem[] = [];
+
+    for (const { coupon, codes } of records) {
+        const name: string = coupon.reason?.en || coupon.coupon;
+        const discount = coupon.discount || {};
+        const expires_at = coupon.available?.end ? new Date(coupon.available.end).toISOString() : null;
+        if (expires_at && new Date(expires_at) < new Date()) {
+            skipRecord(ctx, { entity: 'discount', source_id: coupon.coupon, label: name, reason: 'the coupon has expired' });
+            continue;
+        }
+        if (codes.length === 0) {
+            skipRecord(ctx, { entity: 'discount', source_id: coupon.coupon, label: name, reason: 'the coupon has no codes' });
+            continue;
+        }
+
+        const details: string[] = [];
+        const data: Record<string, any> = { expires_at };
+        if (discount.discountPeriodCount) {
+            data.subscription_cycles = discount.discountPeriodCount;
+            details.push(`Applies to the first ${discount.discountPeriodCount} subscription payments`);
+        }
+
+        // Coupons limited to products are restricted to the Dodo products migrated from them
+        let refs: Record<string, EntityRef> = {};
+        if (coupon.products?.length > 0) {
+            refs = restrictionRefs(coupon.products);
+            details.push(`Restricted to ${coupon.products.length} products (FastSpring product paths: ${coupon.products.join(', ')})`);
+        }
+
+        // FastSpring limits the number of uses per code
+        const usage_limit = coupon.limit ? Number(coupon.limit) : null;
+        for (const code of codes) {
+            let item: MigrationItem | undefined;
+            if (discount.type === 'percent') {
+                // Note: FastSpring stores percentages as numbers (15 for 15%), Dodo expects basis points (1500)
+                item = {
+                    entity: 'discount',
+                    source_id: `${coupon.coupon}:${code}`,
+                    label: `${name} (${code}) - ${discount.percent}% discount`,
+                    data: {
+                        code,
+                        name,
+                        type: 'percentage',
+                        amount: Math.round(discount.percent * 100),
+                        usage_limit,
+                        brand_id
+                    }
+                };
+            } else {
+                // Flat coupons are handled according to --fixed-discount-strategy
+                const amount = mainPrice(discount.amount || {});
+                if (!amount) {
+                    skipRecord(ctx, { entity: 'discount', source_id: `${coupon.coupon}:${code}`, label: `${name} (${code})`, reason: 'no discount value found' });
+                    continue;
+                }
+                item = await handleFixedDiscount({
+                    source_id: `${coupon.coupon}:${code}`,
+                    code,
+                    name,
+                    amount: amount.amount,
+                    currency: amount.currency,
+                    usage_limit,
+                    expires_at,
+                    brand_id
+                }, ctx);
+            }
+            if (!item) continue;
+
+            couponsToMigrate.push(withDiscountFields(item, data, details, refs));
+        }
+    }
+
+    return couponsToMigrate;
+}
+
+// Account lists hold IDs, the accounts are fetched in batches
+async function fetchCustomers({ source }: MigrationContext<FastSpringSource>): Promise<any[]> {
+    const ids = await listPages(source, '/accounts', 'accounts');
+    return getBatched(source, '/accounts', 'accounts', ids);
+}
+
+function transformCustomers(accounts: any[]): MigrationItem[] {
+    const customersToMigrate: MigrationItem[] = [];
+
+    for (const account of accounts) {
+        const contact = account.contact || {};
+        if (!contact.email) {
+            console.log(`[LOG] Skipping customer ${account.id} - no email address`);
+            continue;
+        }
+        const name = [contact.first, contact.last].filter(Boolean).join(' ');
+        const address = account.address || {};
+
+        // Dodo Payments customers only have an email, name and phone number, the address and company can't be kept
+        const location = [address.addressLine1, address.addressLine2, address.city, address.region, address.postalCode, address.country || account.country].filter(Boolean).join(', ');
+        const details = [
+            ...(location ? [`[WARN] Address ${location} is not migrated`] : []),
+            ...(contact.company ? [`[WARN] Company ${contact.company} is not migrated`] : [])
+        ];
+
+        customersToMigrate.push({
+            entity: 'customer',
+            source_id: account.id,
+            label: `${name || 'Unnamed'} (${contact.email})`,
+            ...(details.length > 0 ? { details } : {}),
+            data: {
+                email: contact.email,
+                name: name || contact.email,
+                ...(contact.phone ? { phone_number: contact.phone } : {})
+            }
+        });
+    }
+
+    return customersToMigrate;
+}
+
+interface SubscriptionRecord {
+    subscription: any;
+    account: any;
+}
+
+// Subscription states that are still billing, or will be once the trial or the retries end
+const MIGRATED_SUBSCRIPTION_STATES = ['active', 'trial', 'overdue'];
+
+async function fetchSubscriptions({ source }: MigrationContext<FastSpringSource>): Promise<SubscriptionRecord[]> {
+    const ids = await listPages(source, '/subscriptions', 'subscriptions', { status: 'active' });
+    const subscriptions = await getBatched(source, '/subscriptions', 'subscriptions', ids);
+
+    const migrated = subscriptions.filter(subscription => MIGRATED_SUBSCRIPTION_STATES.includes(subscription.state));
+    console.log(`[LOG] ${migrated.length} of ${subscriptions.length} subscriptions are active, trialing or overdue`);
+
+    // Customers often have several subscriptions, look each account up once
+    const accounts = new Map<string, any>();
+    for (const account of await getBatched(source, '/accounts', 'accounts', [...new Set(migrated.map(subscription => subscription.account))])) {
+        accounts.set(account.id, account);
+    }
+    return migrated.map(subscription => ({ subscription, account: accounts.get(subscription.account) }));
+}
+
+async function transformSubscriptions(records: SubscriptionRecord[], ctx: MigrationContext<FastSpringSource>): Promise<MigrationItem[]> {
+    const subscriptionsToMigrate: MigrationItem[] = [];
+
+    for (const { subscription, account } of records) {
+        const contact = account?.contact || {};
+        if (!contact.email) {
+            console.log(`[LOG] Skipping subscription ${subscription.id} - the account has no email address`);
+            continue;
+        }
+        const label = `${subscription.id} - ${contact.email} - ${subscription.product} x${subscription.quantity || 1}`;
+        // FastSpring reports the next charge as a timestamp in milliseconds, the billing cycle can't be kept without it
+        if (!subscription.next || isNaN(new Date(subscription.next).getTime())) {
+            skipRecord(ctx, { entity: 'subscription', source_id: subscription.id, label, reason: 'FastSpring reports no next charge date' });
+            continue;
+        }
+
+        const address = account.address || {};
+        const country = address.country || account.country;
+        const details = country ? [] : ['[WARN] The account has no billing address in FastSpring, a placeholder address will be used'];
+        const next_charge = new Date(subscription.next).toISOString();
+        const trialDays = subscription.state === 'trial' ? trialDaysLeft(subscription.next) : 0;
+        const cancelling = !!subscription.canceledDate || subscription.autoRenew === false;
+        if (cancelling) {
+            details.push('Cancelled in FastSpring, ends at the next billing date');
+        }
+
+        const customer = await subscriptionCustomer(ctx, account.id, contact.email, [contact.first, contact.last].filter(Boolean).join(' '));
+
+        subscriptionsToMigrate.push({
+            entity: 'subscription',
+            source_id: subscription.id,
+            metadata_key: 'fastspring_subscription_id',
+            label: `${label} (${subscription.state}, ${trialDays > 0 ? `${trialDays} trial days left` : `renews ${next_charge.slice(0, 10)}`})`,
+            details,
+            data: {
+                billing: billingAddress({
+                    street: [address.addressLine1, address.addressLine2].filter(Boolean).join(', '),
+                    city: address.city,
+                    state: address.region,
+                    zipcode: address.postalCode,
+                    country
+                }),
+                customer,
+                quantity: subscription.quantity || 1,
+                trial_period_days: trialDays,
+                metadata: {
+                    fastspring_subscription_id: subscription.id,
+                    fastspring_account_id: account.id,
+                    fastspring_product_path: subscription.product,
+                    original_status: subscription.state,
+                    migrated_from: 'fastspring'
+                }
+            },
+            // Link to the Dodo product created from the subscribed FastSpring product
+            refs: {
+                product_id: { entity: 'product', source_id: subscription.product }
+            },
+            // Keep the billing cycle: the first Dodo charge happens when FastSpring would have charged next
+            after_create: {
+                next_billing_date: next_charge,
+                ...(cancelling ? { cancel_at_next_billing_date: true } : {})
+            }
+        });
+    }
+
+    return subscriptionsToMigrate;
+}
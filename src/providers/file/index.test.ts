@@ -0,0 +1,166 @@
+import { expect, test } from 'bun:test';
+import { join } from 'node:path';
+import { testContext } from '../../../test/testing';
+import { FileProvider, FileSource } from './index';
+
+const type = (value: string) => FileProvider.types.find(type => type.value === value)!;
+const fixture = (name: string) => join(import.meta.dir, 'fixtures', name);
+
+async function connect(argv: Record<string, string>): Promise<FileSource> {
+    return FileProvider.connect('', argv, false);
+}
+
+// The error lines of a failed connect, after the "N errors found" line
+async function connectErrors(argv: Record<string, string>): Promise<string[]> {
+    try {
+        await connect(argv);
+    } catch (error: any) {
+        return error.message.split('\n').slice(1);
+    }
+    throw new Error('connect did not fail');
+}
+
+test('requires at least one file', async () => {
+    await expect(connect({})).rejects.toThrow('Provide at least one of --products, --discounts or --customers');
+});
+
+test('selects the types whose files are given', () => {
+    const selected = (argv: Record<string, string>) => FileProvider.types
+        .filter(type => typeof type.checked === 'function' ? type.checked(argv) : type.checked)
+        .map(type => type.value);
+    expect(selected({ products: 'products.csv' })).toEqual(['products']);
+    expect(selected({ products: 'products.csv', customers: 'customers.csv' })).toEqual(['products', 'customers']);
+    expect(selected({ discounts: 'discounts.jsonl' })).toEqual(['discounts']);
+});
+
+test('reads CSV products with a byte order mark, quoted fields and line breaks', async () => {
+    const ctx = testContext(await connect({ products: fixture('products.csv') }));
+    const records = await type('products').fetch(ctx);
+    // Records start on the line after the multiline description, blank lines are skipped
+    expect(records.map(record => record.location)).toEqual([
+        `${fixture('products.csv')}:2`,
+        `${fixture('products.csv')}:3`,
+        `${fixture('products.csv')}:6`
+    ]);
+
+    const items = await type('products').transform(records, ctx);
+    expect(items.map(item => item.source_id)).toEqual(['pro-monthly', 'pro-yearly', 'ebook']);
+
+    const [monthly, yearly, ebook] = items;
+    expect(monthly.data).toMatchObject({ name: 'Pro', description: 'Everything, and "more"', tax_category: 'saas' });
+    expect(monthly.data.price).toMatchObject({ currency: 'USD', price: 2900, payment_frequency_interval: 'Month', payment_frequency_count: 1, trial_period_days: 14 });
+    expect(monthly.data.metadata).toEqual({ file_product_id: 'pro-monthly', migrated_from: 'file' });
+    expect(monthly.details).toContain(`From ${fixture('products.csv')}:2`);
+
+    expect(yearly.data.description).toBe('Everything in Pro,\nbilled once a year');
+    expect(yearly.data.price).toMatchObject({ price: 29000, payment_frequency_interval: 'Year', payment_frequency_count: 1, subscription_period_count: 20 });
+
+    expect(ebook.data.tax_category).toBe('e_book');
+    expect(ebook.data.price).toEqual({ currency: 'EUR', price: 1500, discount: 0, purchasing_power_parity: false, type: 'one_time_price' });
+});
+
+test('reads JSON Lines discounts restricted to products of the products file', async () => {
+    const ctx = testContext(await connect({ products: fixture('products.csv'), discounts: fixture('discounts.jsonl') }));
+    const records = await type('discounts').fetch(ctx);
+    expect(records.map(record => record.location)).toEqual([
+        `${fixture('discounts.jsonl')}:1`,
+        `${fixture('discounts.jsonl')}:2`,
+        `${fixture('discounts.jsonl')}:4`
+    ]);
+
+    const items = await type('discounts').transform(records, ctx);
+    expect(items.map(item => item.source_id)).toEqual(['WELCOME', 'ALL']);
+
+    const [welcome, all] = items;
+    // 12.5% in basis points
+    expect(welcome.data).toEqual({
+        code: 'WELCOME',
+        name: 'WELCOME',
+        type: 'percentage',
+        amount: 1250,
+        brand_id: 'brand_test',
+        usage_limit: null,
+        expires_at: null,
+        subscription_cycles: 3,
+        restricted_to: []
+    });
+    expect(welcome.refs).toEqual({
+        'restricted_to.0': { entity: 'product', source_id: 'pro-monthly' },
+        'restricted_to.1': { entity: 'product', source_id: 'pro-yearly' }
+    });
+    expect(all.data.amount).toBe(10000);
+    expect(all.refs).toBeUndefined();
+
+    expect(ctx.unmigrated.map(record => [record.source_id, record.reason])).toEqual([
+        ['FIVEOFF', 'Dodo Payments only supports percentage discounts, not fixed amount discounts']
+    ]);
+});
+
+test('converts fixed amount discounts in their currency with --fixed-discount-strategy=convert-to-percentage', async () => {
+    const ctx = testContext(await connect({ discounts: fixture('discounts.jsonl') }), { 'fixed-discount-strategy': 'convert-to-percentage', 'fixed-discount-reference-price': 20 });
+    const items = await type('discounts').transform(await type('discounts').fetch(ctx), ctx);
+
+    const fiveOff = items.find(item => item.source_id === 'FIVEOFF')!;
+    expect(fiveOff.data).toMatchObject({ code: 'FIVEOFF', name: 'Five off', type: 'percentage', amount: 2500, usage_limit: 100, expires_at: '2099-12-31T23:59:59.000Z' });
+});
+
+test('sends customers with the fields Dodo accepts, using the email as the ID of customers without one', async () => {
+    const ctx = testContext(await connect({ customers: fixture('customers.csv') }));
+    const [ada, bob] = await type('customers').transform(await type('customers').fetch(ctx), ctx);
+    expect(ada.source_id).toBe('ada@example.com');
+    expect(ada.data).toEqual({ email: 'ada@example.com', name: 'Ada Lovelace', phone_number: '+44 20 7946 0000' });
+    expect(bob.source_id).toBe('bob-1');
+    expect(bob.data).toEqual({ email: 'bob@example.com', name: 'bob@example.com' });
+});
+
+test('rejects address columns, Dodo Payments customers have no address', async () => {
+    const customers = fixture('customers-with-address.csv');
+    expect(await connectErrors({ customers })).toEqual([`${customers}:1: unknown columns city, country (expected id, email, name, phone)`]);
+});
+
+test('reports every invalid value with the line of its record', async () => {
+    const products = fixture('invalid-products.csv');
+    expect(await connectErrors({ products })).toEqual([
+        `${products}:5: price must be a whole number of minor units (1999 for 19.99), at least 0, got "19.99"`,
+        `${products}:5: currency must be a 3-letter ISO currency code, got "EU"`,
+        `${products}:5: tax_category must be one of digital_products, saas, e_book, edtech, got "books"`,
+        `${products}:5: interval_count and trial_days require an interval`,
+        // The multiline description of line 2 doesn't shift the line numbers
+        `${products}:4: duplicate product id "pro-monthly", first used at ${products}:2`
+    ]);
+});
+
+test('checks the percentage, amount and currency of discounts', async () => {
+    const discounts = fixture('invalid-discounts.jsonl');
+    const errors = await connectErrors({ discounts });
+    expect(errors.slice(0, 10)).toEqual([
+        `${discounts}:1: exactly one of percentage and amount is required`,
+        `${discounts}:2: exactly one of percentage and amount is required`,
+        `${discounts}:3: currency is required with amount`,
+        `${discounts}:4: percentage must be a number between 0.01 and 100, got "0"`,
+        `${discounts}:5: percentage must be a number between 0.01 and 100, got "150"`,
+        `${discounts}:6: amount must be a whole number of minor units (500 for 5.00), at least 1, got "5.5"`,
+        `${discounts}:7: currency must be a 3-letter ISO currency code, got "$"`,
+        `${discounts}:10: unknown column discount (expected code, name, percentage, amount, currency, usage_limit, expires_at, subscription_cycles, products)`,
+        expect.stringMatching(new RegExp(`^${discounts.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}:11: invalid JSON \\(.+\\)$`)),
+        `${discounts}:12: expected a JSON object`
+    ]);
+    expect(errors.slice(10)).toEqual([`${discounts}:9: duplicate discount code "WELCOME", first used at ${discounts}:8`]);
+});
+
+test('checks the product restrictions of discounts against the products file', async () => {
+    const discounts = fixture('invalid-discounts.jsonl');
+    const errors = await connectErrors({ products: fixture('products.csv'), discounts });
+    expect(errors.at(-1)).toBe(`${discounts}:8: product "gone" is not in the products file`);
+    expect(errors.filter(error => error.includes('is not in the products file')).length).toBe(1);
+
+    // Without a products file the products may have been migrated in an earlier run
+    expect((await connectErrors({ discounts })).some(error => error.includes('is not in the products file'))).toBe(false);
+});
+
+test('rejects unsupported and missing files', async () => {
+    expect(await connectErrors({ products: 'products.xlsx', customers: fixture('missing.csv') })).toEqual([
+        'products.xlsx: unsupported file type, use .csv or .jsonl',
+        `${fixture('missing.csv')}: file not found`
+    ]);
+});
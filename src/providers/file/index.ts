@@ -0,0 +1,472 @@
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { createCommand } from '../../core/command';
+import { readCsv } from '../../core/csv';
+import { fixedDiscountOptions, handleFixedDiscount, restrictionRefs, withDiscountFields } from '../../core/discounts';
+import { BillingInterval, productItem } from '../../core/products';
+import { EntityRef, MigrationContext, MigrationItem, SourceProvider } from '../../core/types';
+
+// A validated row, with the file and line it was read from for messages
+interface FileRecord<T> {
+    location: string;
+    row: T;
+}
+
+interface ProductRow {
+    id: string;
+    name: string;
+    description: string;
+    price: number;
+    currency: string;
+    interval?: BillingInterval;
+    interval_count: number;
+    trial_days?: number;
+    tax_category: string;
+}
+
+interface DiscountRow {
+    code: string;
+    name: string;
+    percentage?: number;
+    amount?: number;
+    currency?: string;
+    usage_limit: number | null;
+    expires_at: string | null;
+    subscription_cycles?: number;
+    products: string[];
+}
+
+interface CustomerRow {
+    id: string;
+    email: string;
+    name: string;
+    phone: string;
+}
+
+// Every given file is read and validated up front, so a bad row stops the run before anything is created
+export interface FileSource {
+    products: FileRecord<ProductRow>[];
+    discounts: FileRecord<DiscountRow>[];
+    customers: FileRecord<CustomerRow>[];
+}
+
+export const FileProvider: SourceProvider<FileSource> = {
+    command: 'file',
+    name: 'CSV / JSON Lines',
+    options: {
+        ...fixedDiscountOptions,
+        'products': {
+            describe: 'Products file (.csv or .jsonl)',
+            type: 'string',
+            demandOption: false
+        },
+        'discounts': {
+            describe: 'Discounts file (.csv or .jsonl)',
+            type: 'string',
+            demandOption: false
+        },
+        'customers': {
+            describe: 'Customers file (.csv or .jsonl)',
+            type: 'string',
+            demandOption: false
+        }
+    },
+    connect: async (_apiKey, argv) => {
+        if (!argv['products'] && !argv['discounts'] && !argv['customers']) {
+            throw new Error('Provide at least one of --products, --discounts or --customers');
+        }
+
+        const errors: string[] = [];
+        const source: FileSource = {
+            products: argv['products'] ? readFile(argv['products'], PRODUCT_COLUMNS, parseProduct, errors) : [],
+            discounts: argv['discounts'] ? readFile(argv['discounts'], DISCOUNT_COLUMNS, parseDiscount, errors) : [],
+            customers: argv['customers'] ? readFile(argv['customers'], CUSTOMER_COLUMNS, parseCustomer, errors) : []
+        };
+        checkDuplicates(source.products, row => row.id, 'product id', errors);
+        checkDuplicates(source.discounts, row => row.code, 'discount code', errors);
+        checkDuplicates(source.customers, row => row.id, 'customer id', errors);
+        // Without a products file the restrictions may refer to products migrated in an earlier run
+        if (argv['products']) {
+            checkRestrictions(source.discounts, source.products, errors);
+        }
+
+        if (errors.length > 0) {
+            throw new Error(`${errors.length} ${errors.length === 1 ? 'error' : 'errors'} found in the input files, nothing was migrated:\n${errors.join('\n')}`);
+        }
+        return source;
+    },
+    types: [
+        {
+            value: 'products',
+            name: 'Products',
+            checked: argv => !!argv['products'],
+            fetch: async ({ source }) => source.products,
+            transform: transformProducts
+        },
+        {
+            value: 'discounts',
+            name: 'Discounts',
+            checked: argv => !!argv['discounts'],
+            fetch: async ({ source }) => source.discounts,
+            transform: transformDiscounts
+        },
+        {
+            value: 'customers',
+            name: 'Customers',
+            checked: argv => !!argv['customers'],
+            fetch: async ({ source }) => source.customers,
+            transform: transformCustomers
+        }
+    ]
+};
+
+export default createCommand(FileProvider);
+
+const PRODUCT_COLUMNS = ['id', 'name', 'description', 'price', 'currency', 'interval', 'interval_count', 'trial_days', 'tax_category'];
+const DISCOUNT_COLUMNS = ['code', 'name', 'percentage', 'amount', 'currency', 'usage_limit', 'expires_at', 'subscription_cycles', 'products'];
+// Dodo Payments customers only have an email, name and phone number
+const CUSTOMER_COLUMNS = ['id', 'email', 'name', 'phone'];
+
+const INTERVALS: Record<string, BillingInterval> = {
+    day: 'Day',
+    week: 'Week',
+    month: 'Month',
+    year: 'Year'
+};
+
+const TAX_CATEGORIES = ['digital_products', 'saas', 'e_book', 'edtech'];
+
+// Read a .csv or .jsonl file and validate each row, adding "file:line: message" errors for every invalid value
+function readFile<T>(path: string, columns: string[], parse: (fields: FieldReader) => T, errors: string[]): FileRecord<T>[] {
+    let rows: Row[];
+    try {
+        rows = readRows(path);
+    } catch (error: any) {
+        errors.push(error.code === 'ENOENT' ? `${path}: file not found` : error.message || String(error));
+        return [];
+    }
+
+    // Unknown columns are usually typos, CSV headers are checked once on line 1
+    const unknownColumns = (keys: string[]) => {
+        const unknown = keys.filter(column => !columns.includes(column));
+        return unknown.length > 0 ? [`unknown ${unknown.length === 1 ? 'column' : 'columns'} ${unknown.join(', ')} (expected ${columns.join(', ')})`] : [];
+    };
+    const csv = extname(path).toLowerCase() === '.csv';
+    if (csv && rows.length > 0) {
+        errors.push(...unknownColumns(Object.keys(rows[0].values)).map(error => `${path}:1: ${error}`));
+    }
+
+    const records: FileRecord<T>[] = [];
+    for (const { line, values, error } of rows) {
+        const location = `${path}:${line}`;
+        if (error) {
+            errors.push(`${location}: ${error}`);
+            continue;
+        }
+        const rowErrors: string[] = csv ? [] : unknownColumns(Object.keys(values));
+
+        const row = parse(new FieldReader(values, rowErrors));
+        errors.push(...rowErrors.map(error => `${location}: ${error}`));
+        if (rowErrors.length === 0) {
+            records.push({ location, row });
+        }
+    }
+    return records;
+}
+
+// A row of an input file, JSON Lines rows that can't be parsed carry the error instead
+interface Row {
+    line: number;
+    values: Record<string, unknown>;
+    error?: string;
+}
+
+// Rows of a CSV file (header on line 1) or of a JSON Lines file (one object per line)
+function readRows(path: string): Row[] {
+    const extension = extname(path).toLowerCase();
+    if (extension === '.csv') {
+        return readCsv(path).records;
+    }
+    if (extension !== '.jsonl' && extension !== '.ndjson') {
+        throw new Error(`${path}: unsupported file type, use .csv or .jsonl`);
+    }
+
+    const rows: Row[] = [];
+    readFileSync(path, 'utf8').split(/\r?\n/).forEach((text, index) => {
+        if (text.trim() === '') return;
+        let values: unknown;
+        try {
+            values = JSON.parse(text);
+        } catch (error: any) {
+            rows.push({ line: index + 1, values: {}, error: `invalid JSON (${error.message})` });
+            return;
+        }
+        if (!values || typeof values !== 'object' || Array.isArray(values)) {
+            rows.push({ line: index + 1, values: {}, error: 'expected a JSON object' });
+            return;
+        }
+        rows.push({ line: index + 1, values: values as Record<string, unknown> });
+    });
+    return rows;
+}
+
+// Typed access to the columns of a row. CSV values are strings, JSON Lines values may already be numbers or arrays.
+// Invalid values are reported to errors and read as undefined.
+class FieldReader {
+    constructor(private values: Record<string, unknown>, private errors: string[]) { }
+
+    private raw(column: string, required: boolean): string | undefined {
+        const value = this.values[column];
+        const text = value === null || value === undefined ? '' : String(value).trim();
+        if (text === '') {
+            if (required) this.errors.push(`${column} is required`);
+            return undefined;
+        }
+        return text;
+    }
+
+    string(column: string, required = false): string | undefined {
+        return this.raw(column, required);
+    }
+
+    integer(column: string, { required = false, min = 0, unit = '' } = {}): number | undefined {
+        const text = this.raw(column, required);
+        if (text === undefined) return undefined;
+        if (!/^-?\d+$/.test(text) || Number(text) < min) {
+            this.errors.push(`${column} must be a whole number${unit ? ` of ${unit}` : ''}, at least ${min}, got "${text}"`);
+            return undefined;
+        }
+        return Number(text);
+    }
+
+    number(column: string, { required = false, min = 0, max = Infinity } = {}): number | undefined {
+        const text = this.raw(column, required);
+        if (text === undefined) return undefined;
+        const value = Number(text);
+        if (!Number.isFinite(value) || value < min || value > max) {
+            this.errors.push(`${column} must be a number between ${min} and ${max}, got "${text}"`);
+            return undefined;
+        }
+        return value;
+    }
+
+    choice(column: string, choices: string[], required = false): string | undefined {
+        const text = this.raw(column, required)?.toLowerCase();
+        if (text === undefined) return undefined;
+        if (!choices.includes(text)) {
+            this.errors.push(`${column} must be one of ${choices.join(', ')}, got "${text}"`);
+            return undefined;
+        }
+        return text;
+    }
+
+    currency(column: string, required = false): string | undefined {
+        const text = this.raw(column, required);
+        if (text === undefined) return undefined;
+        if (!/^[A-Za-z]{3}$/.test(text)) {
+            this.errors.push(`${column} must be a 3-letter ISO currency code, got "${text}"`);
+            return undefined;
+        }
+        return text.toUpperCase();
+    }
+
+    email(column: string, required = false): string | undefined {
+        const text = this.raw(column, required);
+        if (text === undefined) return undefined;
+        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(text)) {
+            this.errors.push(`${column} must be an email address, got "${text}"`);
+            return undefined;
+        }
+        return text;
+    }
+
+    date(column: string): string | undefined {
+        const text = this.raw(column, false);
+        if (text === undefined) return undefined;
+        const date = new Date(text);
+        if (isNaN(date.getTime())) {
+            this.errors.push(`${column} must be an ISO 8601 date (e.g. 2026-12-31T23:59:59Z), got "${text}"`);
+            return undefined;
+        }
+        return date.toISOString();
+    }
+
+    // A JSON array, or values separated by | in CSV files
+    list(column: string): string[] {
+        const value = this.values[column];
+        if (Array.isArray(value)) return value.map(item => String(item).trim()).filter(Boolean);
+        return (this.raw(column, false) || '').split('|').map(item => item.trim()).filter(Boolean);
+    }
+
+    error(message: string) {
+        this.errors.push(message);
+    }
+}
+
+function parseProduct(fields: FieldReader): ProductRow {
+    const interval = fields.choice('interval', Object.keys(INTERVALS));
+    const row: ProductRow = {
+        id: fields.string('id', true)!,
+        name: fields.string('name', true)!,
+        description: fields.string('description') || '',
+        price: fields.integer('price', { required: true, unit: 'minor units (1999 for 19.99)' })!,
+        currency: fields.currency('currency', true)!,
+        interval: interval ? INTERVALS[interval] : undefined,
+        interval_count: fields.integer('interval_count', { min: 1 }) ?? 1,
+        trial_days: fields.integer('trial_days'),
+        tax_category: fields.choice('tax_category', TAX_CATEGORIES) || 'saas'
+    };
+    // Billing columns only make sense for subscriptions
+    if (!fields.string('interval') && (fields.string('interval_count') || fields.string('trial_days'))) {
+        fields.error('interval_count and trial_days require an interval');
+    }
+    return row;
+}
+
+function parseDiscount(fields: FieldReader): DiscountRow {
+    const row: DiscountRow = {
+        code: fields.string('code', true)!,
+        name: fields.string('name') || '',
+        percentage: fields.number('percentage', { min: 0.01, max: 100 }),
+        amount: fields.integer('amount', { min: 1, unit: 'minor units (500 for 5.00)' }),
+        currency: fields.currency('currency'),
+        usage_limit: fields.integer('usage_limit', { min: 1 }) ?? null,
+        expires_at: fields.date('expires_at') ?? null,
+        subscription_cycles: fields.integer('subscription_cycles', { min: 1 }),
+        products: fields.list('products')
+    };
+    // A discount is either a percentage or a fixed amount in a currency
+    const hasPercentage = !!fields.string('percentage');
+    const hasAmount = !!fields.string('amount');
+    if (hasPercentage === hasAmount) {
+        fields.error('exactly one of percentage and amount is required');
+    } else if (hasAmount && !fields.string('currency')) {
+        fields.error('currency is required with amount');
+    }
+    return row;
+}
+
+function parseCustomer(fields: FieldReader): CustomerRow {
+    const email = fields.email('email', true)!;
+    return {
+        id: fields.string('id') || email,
+        email,
+        name: fields.string('name') || '',
+        phone: fields.string('phone') || ''
+    };
+}
+
+// IDs link records between runs and files, so they must be unique within a file
+function checkDuplicates<T>(records: FileRecord<T>[], key: (row: T) => string, label: string, errors: string[]) {
+    const seen = new Map<string, string>();
+    for (const { location, row } of records) {
+        const value = key(row);
+        if (seen.has(value)) {
+            errors.push(`${location}: duplicate ${label} "${value}", first used at ${seen.get(value)}`);
+        } else {
+            seen.set(value, location);
+        }
+    }
+}
+
+// Discounts can only be restricted to products of the products file
+function checkRestrictions(discounts: FileRecord<DiscountRow>[], products: FileRecord<ProductRow>[], errors: string[]) {
+    const ids = new Set(products.map(({ row }) => row.id));
+    for (const { location, row } of discounts) {
+        for (const id of row.products.filter(id => !ids.has(id))) {
+            errors.push(`${location}: product "${id}" is not in the products file`);
+        }
+    }
+}
+
+function transformProducts(records: FileRecord<ProductRow>[], { brand_id }: MigrationContext<FileSource>): MigrationItem[] {
+    return records.map(({ location, row }) => productItem({
+        source_id: row.id,
+        metadata_key: 'file_product_id',
+        name: row.name,
+        description: row.description,
+        currency: row.currency,
+        amount: row.price,
+        recurring: row.interval ? {
+            interval: row.interval,
+            count: row.interval_count,
+            trial_days: row.trial_days
+        } : undefined,
+        tax_category: row.tax_category,
+        metadata: { migrated_from: 'file' },
+        details: [`From ${location}`]
+    }, brand_id));
+}
+
+async function transformDiscounts(records: FileRecord<DiscountRow>[], ctx: MigrationContext<FileSource>): Promise<MigrationItem[]> {
+    const { brand_id } = ctx;
+    const discountsToMigrate: MigrationItem[] = [];
+
+    for (const { location, row } of records) {
+        const name = row.name || row.code;
+        const details = [`From ${location}`];
+        const data: Record<string, any> = {
+            usage_limit: row.usage_limit,
+            expires_at: row.expires_at
+        };
+        if (row.subscription_cycles) {
+            data.subscription_cycles = row.subscription_cycles;
+            details.push(`Applies to the first ${row.subscription_cycles} subscription payments`);
+        }
+
+        // Discounts listing products are restricted to the Dodo products migrated from those product ids
+        let refs: Record<string, EntityRef> = {};
+        if (row.products.length > 0) {
+            refs = restrictionRefs(row.products);
+            details.push(`Restricted to ${row.products.length} products (product ids: ${row.products.join(', ')})`);
+        }
+
+        let item: MigrationItem | undefined;
+        if (row.percentage !== undefined) {
+            // Dodo expects basis points (1500 for 15%)
+            item = {
+                entity: 'discount',
+                source_id: row.code,
+                label: `${name} (${row.code}) - ${row.percentage}% discount`,
+                data: {
+                    code: row.code,
+                    name,
+                    type: 'percentage',
+                    amount: Math.round(row.percentage * 100),
+                    brand_id
+                }
+            };
+        } else {
+            // Fixed amount discounts are handled according to --fixed-discount-strategy
+            item = await handleFixedDiscount({
+                source_id: row.code,
+                code: row.code,
+                name,
+                amount: row.amount!,
+                currency: row.currency!,
+                usage_limit: row.usage_limit,
+                expires_at: row.expires_at,
+                brand_id
+            }, ctx);
+        }
+        if (!item) continue;
+
+        discountsToMigrate.push(withDiscountFields(item, data, details, refs));
+    }
+
+    return discountsToMigrate;
+}
+
+function transformCustomers(records: FileRecord<CustomerRow>[]): MigrationItem[] {
+    return records.map(({ location, row }) => ({
+        entity: 'customer',
+        source_id: row.id,
+        label: `${row.name || 'Unnamed'} (${row.email})`,
+        details: [`From ${location}`],
+        data: {
+            email: row.email,
+            name: row.name || row.email,
+            ...(row.phone ? { phone_number: row.phone } : {})
+        }
+    }));
+}
@@ -0,0 +1,209 @@
+import { afterAll, beforeAll, expect, setSystemTime, test } from 'bun:test';
+import { join } from 'node:path';
+import { FixtureServer, serveFixtures, testContext } from '../../../test/testing';
+import { GumroadProvider, GumroadSource } from './index';
+
+const type = (value: string) => GumroadProvider.types.find(type => type.value === value)!;
+
+let server: FixtureServer;
+
+beforeAll(async () => {
+    server = await serveFixtures(join(import.meta.dir, 'fixtures'), {
+        '/user': 'user.json',
+        '/products': 'products.json',
+        '/products/ebook1/offer_codes': 'offer-codes-ebook1.json',
+        '/products/course1/offer_codes': 'offer-codes-course1.json',
+        '/products/draft1/offer_codes': 'offer-codes-draft1.json',
+        '/products/club1/offer_codes': 'offer-codes-club1.json',
+        '/products/news1/offer_codes': 'offer-codes-news1.json',
+        '/products/club1/subscribers?paginated=true': 'subscribers-club1-page1.json',
+        '/products/club1/subscribers?paginated=true&page_key=page2': 'subscribers-club1-page2.json',
+        '/products/news1/subscribers?paginated=true': 'subscribers-news1.json',
+        '/sales/sale_ada_2': 'sale-ada-2.json',
+        '/sales/sale_cy_1': 'sale-cy-1.json'
+    });
+});
+
+afterAll(() => server.close());
+
+async function connect(): Promise<GumroadSource> {
+    return GumroadProvider.connect('gumroad_token', { 'gumroad-api-url': server.url }, false);
+}
+
+test('connects to --gumroad-api-url with the access token', async () => {
+    await connect();
+    const request = server.requests.find(request => request.path === '/user')!;
+    expect(request.headers.authorization).toBe('Bearer gumroad_token');
+});
+
+test('fails on success: false responses', async () => {
+    const failing = await serveFixtures(join(import.meta.dir, 'fixtures'), { '/user': 'error.json' });
+    try {
+        await expect(GumroadProvider.connect('revoked', { 'gumroad-api-url': failing.url }, false))
+            .rejects.toThrow('Gumroad API request /user failed: The access token you provided is invalid.');
+    } finally {
+        await failing.close();
+    }
+});
+
+test('fails with the retry delay on rate limits', async () => {
+    const limited = await serveFixtures('', { '/user': { status: 429, headers: { 'retry-after': '30' } } });
+    try {
+        await expect(GumroadProvider.connect('gumroad_token', { 'gumroad-api-url': limited.url }, false))
+            .rejects.toThrow('Gumroad API rate limit exceeded. Retry after 30 seconds.');
+    } finally {
+        await limited.close();
+    }
+});
+
+test('transforms published products, one Dodo product per tier and recurrence', async () => {
+    const ctx = testContext(await connect());
+    const products = await type('products').fetch(ctx);
+    expect(type('products').count!(products)).toEqual({ products: 5, prices: 7 });
+
+    const items = await type('products').transform(products, ctx);
+    expect(items.map(item => item.source_id)).toEqual([
+        'ebook1',
+        'course1',
+        'club1:Basic:monthly',
+        'club1:Basic:yearly',
+        'club1:Premium:monthly',
+        'news1'
+    ]);
+
+    const [ebook, course, basicMonthly, basicYearly, premium, newsletter] = items;
+    expect(ebook.data.description).toBe('A practical guide to pricing & packaging');
+    expect(ebook.data.price).toEqual({ currency: 'USD', price: 1900, discount: 0, purchasing_power_parity: false, type: 'one_time_price' });
+    expect(ebook.details).toContain('[WARN] Price differences of the product\'s variant options are not migrated, only the base price');
+
+    expect(course.data.price).toMatchObject({ type: 'one_time_price', price: 500, pay_what_you_want: true, suggested_price: null });
+
+    expect(basicMonthly.data.name).toBe('Makers Club – Basic (monthly)');
+    // Subscriptions renew until cancelled, for the longest term Dodo Payments accepts
+    expect(basicMonthly.data.price).toMatchObject({
+        type: 'recurring_price',
+        price: 1000,
+        payment_frequency_interval: 'Month',
+        payment_frequency_count: 1,
+        subscription_period_interval: 'Month',
+        subscription_period_count: 240
+    });
+    expect(basicYearly.data.price).toMatchObject({ type: 'recurring_price', price: 10000, payment_frequency_interval: 'Year', payment_frequency_count: 1, subscription_period_count: 20 });
+    expect(basicYearly.data.metadata).toEqual({ gumroad_price_id: 'club1:Basic:yearly', gumroad_product_id: 'club1', migrated_from: 'gumroad' });
+
+    // Pay what you want tiers are billed at their minimum
+    expect(premium.data.price).toMatchObject({ type: 'recurring_price', price: 2500 });
+    expect(premium.data.price.pay_what_you_want).toBeUndefined();
+    expect(premium.details!.some(detail => detail.startsWith('[WARN] Pay what you want is not preserved'))).toBe(true);
+
+    expect(newsletter.data.price).toMatchObject({ type: 'recurring_price', price: 1500, payment_frequency_interval: 'Month', payment_frequency_count: 3 });
+});
+
+test('transforms offer codes listed under several products once', async () => {
+    const ctx = testContext(await connect());
+    const records = await type('offer-codes').fetch(ctx);
+    expect(records.map(record => record.offer_code.id)).toEqual(['oc_spring', 'oc_all10', 'oc_fiveoff', 'oc_draft', 'oc_usedup']);
+
+    const items = await type('offer-codes').transform(records, ctx);
+    expect(items.map(item => item.source_id)).toEqual(['oc_spring', 'oc_all10']);
+
+    const [spring, all10] = items;
+    // Restricted to every price of the products the code is listed under, only the remaining uses carry over
+    expect(spring.data).toMatchObject({ code: 'SPRING', type: 'percentage', amount: 2000, usage_limit: 60, restricted_to: [] });
+    expect(spring.refs).toEqual({
+        'restricted_to.0': { entity: 'product', source_id: 'ebook1' },
+        'restricted_to.1': { entity: 'product', source_id: 'course1' }
+    });
+    expect(all10.data).toMatchObject({ code: 'ALL10', amount: 1000, usage_limit: null });
+    expect(all10.data.restricted_to).toBeUndefined();
+    expect(all10.refs).toBeUndefined();
+
+    expect(ctx.unmigrated.map(record => [record.source_id, record.reason])).toEqual([
+        ['oc_fiveoff', 'Dodo Payments only supports percentage discounts, not fixed amount discounts'],
+        ['oc_draft', 'the offer code only applies to unpublished products'],
+        ['oc_usedup', 'the offer code is used up']
+    ]);
+});
+
+test('converts fixed amount offer codes with --fixed-discount-strategy=convert-to-percentage', async () => {
+    const ctx = testContext(await connect(), { 'fixed-discount-strategy': 'convert-to-percentage', 'fixed-discount-reference-price': 25 });
+    const items = await type('offer-codes').transform(await type('offer-codes').fetch(ctx), ctx);
+
+    const fiveOff = items.find(item => item.source_id === 'oc_fiveoff')!;
+    expect(fiveOff.data).toMatchObject({ code: 'FIVEOFF', type: 'percentage', amount: 2000, restricted_to: [] });
+    expect(fiveOff.refs).toEqual({ 'restricted_to.0': { entity: 'product', source_id: 'course1' } });
+});
+
+test('fetches every page of subscribers and reads the tier from the latest sale', async () => {
+    const ctx = testContext(await connect());
+    const records = await type('subscriptions').fetch(ctx);
+
+    // Both pages are requested, cancelled subscribers are left out
+    expect(server.requests.some(request => request.path === '/products/club1/subscribers?paginated=true&page_key=page2')).toBe(true);
+    expect(records.map(record => [record.subscriber.id, record.tier])).toEqual([
+        ['sub_premium', 'Premium'],
+        ['sub_basic', 'Basic'],
+        ['sub_noemail', undefined],
+        ['sub_news', undefined]
+    ]);
+    // The latest purchase is looked up, not the first one
+    expect(server.requests.some(request => request.path === '/sales/sale_ada_1')).toBe(false);
+});
+
+test('transforms subscribers into subscriptions of the migrated tier and recurrence', async () => {
+    const ctx = testContext(await connect());
+    const items = await type('subscriptions').transform(await type('subscriptions').fetch(ctx), ctx);
+    expect(items.map(item => item.source_id)).toEqual(['sub_premium', 'sub_basic', 'sub_news']);
+    expect(ctx.unmigrated.map(record => [record.source_id, record.reason])).toEqual([['sub_noemail', 'the subscriber has no email address']]);
+
+    const [premium, basic, newsletter] = items;
+    expect(premium.refs).toEqual({ product_id: { entity: 'product', source_id: 'club1:Premium:monthly' } });
+    expect(premium.data).toMatchObject({
+        customer: { email: 'ada@example.com', name: 'ada@example.com' },
+        billing: { city: 'Unknown', country: 'US', state: 'Unknown', street: 'Unknown', zipcode: '00000' },
+        quantity: 1,
+        // The trial ended long ago, it isn't started again
+        trial_period_days: 0,
+        metadata: { gumroad_subscriber_id: 'sub_premium', gumroad_product_id: 'club1', gumroad_tier: 'Premium', original_status: 'alive', migrated_from: 'gumroad' }
+    });
+
+    // The next charge keeps the day of the month the subscription started on
+    const nextCharge = new Date(premium.after_create.next_billing_date);
+    expect(nextCharge.getTime()).toBeGreaterThan(Date.now());
+    expect(nextCharge.getUTCDate()).toBe(15);
+    expect(nextCharge.getTime() - Date.now()).toBeLessThanOrEqual(31 * 86400000);
+    expect(premium.after_create.cancel_at_next_billing_date).toBeUndefined();
+
+    expect(basic.refs!.product_id.source_id).toBe('club1:Basic:yearly');
+    expect(basic.after_create.cancel_at_next_billing_date).toBe(true);
+    expect(basic.after_create.next_billing_date.slice(5, 10)).toBe('03-01');
+
+    expect(newsletter.refs!.product_id.source_id).toBe('news1');
+    expect(newsletter.data.metadata.gumroad_tier).toBeUndefined();
+});
+
+test('charges subscriptions started at the end of a month on the last day of shorter months', async () => {
+    const ctx = testContext(await connect());
+    const records = await type('subscriptions').fetch(ctx);
+    // The newsletter subscription started on Feb 29 and renews every 3 months
+    setSystemTime(new Date('2025-02-01T00:00:00Z'));
+    try {
+        const items = await type('subscriptions').transform(records, ctx);
+        expect(items.find(item => item.source_id === 'sub_news')!.after_create.next_billing_date).toBe('2025-02-28T09:30:00.000Z');
+
+        // Shorter months don't shift later charges
+        setSystemTime(new Date('2025-03-01T00:00:00Z'));
+        const [later] = (await type('subscriptions').transform(records, ctx)).filter(item => item.source_id === 'sub_news');
+        expect(later.after_create.next_billing_date).toBe('2025-05-29T09:30:00.000Z');
+    } finally {
+        setSystemTime();
+    }
+});
+
+test('reuses the Dodo customer migrated for the subscriber', async () => {
+    const ctx = testContext(await connect());
+    ctx.mappings.set('customer', 'user_ada', 'cus_ada');
+    const items = await type('subscriptions').transform(await type('subscriptions').fetch(ctx), ctx);
+    expect(items[0].data.customer).toEqual({ customer_id: 'cus_ada' });
+    expect(items[1].data.customer).toEqual({ email: 'cy@example.com', name: 'cy@example.com' });
+});
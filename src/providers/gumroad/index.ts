@@ -0,0 +1,448 @@
+import { createCommand } from '../../core/command';
+import { fixedDiscountOptions, handleFixedDiscount, restrictionRefs, withDiscountFields } from '../../core/discounts';
+import { skipRecord } from '../../core/engine';
+import { createRestClient } from '../../core/http';
+import { evergreenPeriodCount, stripHtml } from '../../core/products';
+import { billingAddress, subscriptionCustomer, trialDaysLeft } from '../../core/subscriptions';
+import { EntityRef, MigrationContext, MigrationItem, SourceProvider } from '../../core/types';
+
+const GUMROAD_API_URL = 'https://api.gumroad.com/v2';
+
+// Gumroad has no SDK, the source is the shared REST client with a per-run product cache
+export interface GumroadSource {
+    get: (path: string, params?: Record<string, string>) => Promise<any>;
+    products?: Promise<any[]>;
+}
+
+// The base URL can point at a server replaying recorded Gumroad responses
+export function createGumroadClient(accessToken: string, baseUrl: string = GUMROAD_API_URL): GumroadSource {
+    const { get } = createRestClient({
+        name: 'Gumroad',
+        baseUrl,
+        headers: () => ({ Authorization: `Bearer ${accessToken}` }),
+        // Gumroad reports errors with success: false, sometimes with a 200 status
+        error: body => body.success === false ? body.message || 'unknown error' : undefined
+    });
+    return { get };
+}
+
+export const GumroadProvider: SourceProvider<GumroadSource> = {
+    command: 'gumroad',
+    name: 'Gumroad',
+    apiKeyDescription: 'Gumroad Access Token',
+    apiKeyPrompt: 'Enter your Gumroad Access Token:',
+    options: {
+        ...fixedDiscountOptions,
+        'gumroad-api-url': {
+            describe: 'Gumroad API base URL, e.g. a local server replaying recorded responses',
+            type: 'string',
+            demandOption: false
+        }
+    },
+    connect: async (apiKey, argv) => {
+        const client = createGumroadClient(apiKey, argv['gumroad-api-url'] || GUMROAD_API_URL);
+        await client.get('/user');
+        return client;
+    },
+    types: [
+        {
+            value: 'products',
+            name: 'Products',
+            checked: true,
+            fetch: ({ source }) => fetchProducts(source),
+            count: (products) => ({
+                products: products.length,
+                prices: products.reduce((total, product) => total + productPrices(product).length, 0)
+            }),
+            transform: transformProducts
+        },
+        {
+            value: 'offer-codes',
+            name: 'Offer codes',
+            checked: true,
+            fetch: fetchOfferCodes,
+            transform: transformOfferCodes
+        },
+        {
+            value: 'subscriptions',
+            name: 'Subscriptions',
+            checked: false,
+            fetch: fetchSubscribers,
+            transform: transformSubscribers
+        }
+    ]
+};
+
+export default createCommand(GumroadProvider);
+
+// Gumroad recurrences and the Dodo Payments billing interval they map to
+const RECURRENCES: Record<string, { interval: 'Month' | 'Year', count: number }> = {
+    monthly: { interval: 'Month', count: 1 },
+    quarterly: { interval: 'Month', count: 3 },
+    biannually: { interval: 'Month', count: 6 },
+    yearly: { interval: 'Year', count: 1 },
+    every_two_years: { interval: 'Year', count: 2 },
+};
+
+// Products are needed by every data type, they are fetched once per run
+function fetchProducts(source: GumroadSource): Promise<any[]> {
+    source.products ??= source.get('/products').then(body => body.products || []);
+    return source.products;
+}
+
+// A single price of a Gumroad product, every price becomes its own Dodo product
+interface GumroadPrice {
+    // Gumroad product ID, followed by the tier and recurrence for memberships (e.g. "abc123:Premium:monthly")
+    source_id: string;
+    name: string;
+    price_cents: number;
+    // Not set for one-time products
+    recurrence?: string;
+    tier?: string;
+    pay_what_you_want: boolean;
+    suggested_price_cents?: number;
+}
+
+function priceSourceId(product_id: string, tier?: string, recurrence?: string): string {
+    return tier ? `${product_id}:${tier}:${recurrence}` : product_id;
+}
+
+// Prices of a product: one per tier and recurrence for tiered memberships, a single one otherwise
+function productPrices(product: any): GumroadPrice[] {
+    if (product.is_tiered_membership) {
+        const tiers: any[] = product.variants?.[0]?.options || [];
+        const recurrences: string[] = product.recurrences || [];
+        return tiers.flatMap(tier => recurrences
+            .filter(recurrence => tier.recurrence_prices?.[recurrence])
+            .map(recurrence => ({
+                source_id: priceSourceId(product.id, tier.name, recurrence),
+                name: `${product.name} – ${tier.name}${recurrences.length > 1 ? ` (${recurrence})` : ''}`,
+                price_cents: tier.recurrence_prices[recurrence].price_cents,
+                recurrence,
+                tier: tier.name,
+                pay_what_you_want: !!tier.is_pay_what_you_want,
+                suggested_price_cents: tier.recurrence_prices[recurrence].suggested_price_cents ?? undefined
+            })));
+    }
+
+    return [{
+        source_id: priceSourceId(product.id),
+        name: product.name,
+        price_cents: product.price || 0,
+        // Legacy (non-tiered) memberships have a single subscription duration
+        recurrence: product.subscription_duration || undefined,
+        pay_what_you_want: !!product.customizable_price
+    }];
+}
+
+function transformProducts(products: any[], { brand_id }: MigrationContext<GumroadSource>): MigrationItem[] {
+    const productsToMigrate: MigrationItem[] = [];
+
+    for (const product of products) {
+        if (!product.published) {
+            console.log(`[LOG] Skipping product ${product.name} - not published`);
+            continue;
+        }
+
+        const currency = (product.currency || 'usd').toUpperCase();
+        const details: string[] = [`Gumroad ID: ${product.id}`];
+        // Version options of regular products only change the price, Dodo products have a single price
+        if (!product.is_tiered_membership && (product.variants || []).some((variant: any) => variant.options?.some((option: any) => option.price_difference))) {
+            details.push('[WARN] Price differences of the product\'s variant options are not migrated, only the base price');
+        }
+
+        for (const price of productPrices(product)) {
+            const amount = `${currency} ${(price.price_cents / 100).toFixed(2)}`;
+            const metadata = {
+                gumroad_price_id: price.source_id,
+                gumroad_product_id: product.id,
+                migrated_from: 'gumroad'
+            };
+            const base = {
+                name: price.name,
+                description: stripHtml(product.description || ''),
+                tax_category: 'saas',
+                brand_id,
+                metadata
+            };
+
+            if (price.recurrence) {
+                const recurrence = RECURRENCES[price.recurrence];
+                if (!recurrence) {
+                    console.log(`[WARN] Unsupported recurrence "${price.recurrence}" for ${price.name}, skipping`);
+                    continue;
+                }
+
+                const priceDetails = [...details];
+                if (price.pay_what_you_want) {
+                    // Dodo only supports pay what you want for one-time prices
+                    priceDetails.push(`[WARN] Pay what you want is not preserved, Dodo Payments only supports it for one-time prices. Subscribers pay the minimum of ${amount}`);
+                }
+
+                productsToMigrate.push({
+                    entity: 'product',
+                    source_id: price.source_id,
+                    metadata_key: 'gumroad_price_id',
+                    label: `${price.name} - ${amount} (Subscription, ${price.recurrence})`,
+                    details: priceDetails,
+                    data: {
+                        ...base,
+                        price: {
+                            currency,
+                            price: price.price_cents,
+                            discount: 0,
+                            purchasing_power_parity: false,
+                            type: 'recurring_price',
+                            billing_period: recurrence.interval === 'Month' ? 'monthly' : 'yearly',
+                            payment_frequency_interval: recurrence.interval,
+                            payment_frequency_count: recurrence.count,
+                            subscription_period_interval: recurrence.interval,
+                            subscription_period_count: evergreenPeriodCount(recurrence.interval)
+                        }
+                    }
+                });
+            } else {
+                // Gumroad's price of a pay what you want product is the minimum, like Dodo's
+                const payWhatYouWant = price.pay_what_you_want ? { pay_what_you_want: true, suggested_price: price.suggested_price_cents ?? null } : {};
+                productsToMigrate.push({
+                    entity: 'product',
+                    source_id: price.source_id,
+                    metadata_key: 'gumroad_price_id',
+                    label: `${price.name} - ${price.pay_what_you_want ? `Pay what you want, minimum ${amount}` : amount} (One Time)`,
+                    details,
+                    data: {
+                        ...base,
+                        price: {
+                            currency,
+                            price: price.price_cents,
+                            discount: 0,
+                            purchasing_power_parity: false,
+                            type: 'one_time_price',
+                            ...payWhatYouWant
+                        }
+                    }
+                });
+            }
+        }
+    }
+
+    return productsToMigrate;
+}
+
+interface OfferCodeRecord {
+    offer_code: any;
+    // Products the offer code is listed under, Gumroad lists universal codes under every product
+    products: any[];
+}
+
+// Offer codes are listed per product, the same code shows up under every product it applies to
+async function fetchOfferCodes({ source }: MigrationContext<GumroadSource>): Promise<OfferCodeRecord[]> {
+    const records = new Map<string, OfferCodeRecord>();
+    for (const product of await fetchProducts(source)) {
+        const body = await source.get(`/products/${product.id}/offer_codes`);
+        for (const offer_code of body.offer_codes || []) {
+            const record = records.get(offer_code.id) ?? { offer_code, products: [] };
+            record.products.push(product);
+            records.set(offer_code.id, record);
+        }
+    }
+    return [...records.values()];
+}
+
+async function transformOfferCodes(records: OfferCodeRecord[], ctx: MigrationContext<GumroadSource>): Promise<MigrationItem[]> {
+    const { brand_id } = ctx;
+    const discountsToMigrate: MigrationItem[] = [];
+
+    for (const { offer_code, products } of records) {
+        const code: string = offer_code.name;
+        const label = code;
+        // Only the uses left carry over, Dodo Payments counts redemptions from zero
+        const usage_limit = offer_code.max_purchase_count ? offer_code.max_purchase_count - (offer_code.times_used || 0) : null;
+        if (usage_limit !== null && usage_limit <= 0) {
+            skipRecord(ctx, { entity: 'discount', source_id: offer_code.id, label, reason: 'the offer code is used up' });
+            continue;
+        }
+
+        // Codes that aren't universal are restricted to the Dodo products created from the prices of their Gumroad products
+        let refs: Record<string, EntityRef> = {};
+        const details: string[] = [];
+        const data: Record<string, any> = {};
+        if (!offer_code.universal) {
+            const priceIds = products.filter(product => product.published).flatMap(product => productPrices(product).map(price => price.source_id));
+            if (priceIds.length === 0) {
+                skipRecord(ctx, { entity: 'discount', source_id: offer_code.id, label, reason: 'the offer code only applies to unpublished products' });
+                continue;
+            }
+            refs = restrictionRefs(priceIds);
+            details.push(`Restricted to ${products.map(product => product.name).join(', ')} (${priceIds.length} Dodo products)`);
+        }
+
+        let item: MigrationItem | undefined;
+        if (offer_code.percent_off) {
+            item = {
+                entity: 'discount',
+                source_id: offer_code.id,
+                label: `${label} - ${offer_code.percent_off}% discount`,
+                data: {
+                    code,
+                    name: code,
+                    type: 'percentage',
+                    // Gumroad stores whole percentages (15 for 15%), Dodo expects basis points (1500)
+                    amount: offer_code.percent_off * 100,
+                    usage_limit,
+                    brand_id
+                }
+            };
+        } else {
+            // Fixed amount offer codes are handled according to --fixed-discount-strategy
+            item = await handleFixedDiscount({
+                source_id: offer_code.id,
+                code,
+                name: code,
+                amount: offer_code.amount_cents,
+                currency: products[0]?.currency || 'usd',
+                usage_limit,
+                expires_at: null,
+                brand_id
+            }, ctx);
+        }
+        if (!item) continue;
+
+        discountsToMigrate.push(withDiscountFields(item, data, details, refs));
+    }
+
+    return discountsToMigrate;
+}
+
+interface SubscriberRecord {
+    subscriber: any;
+    product: any;
+    // Membership tier of the latest purchase, only set for tiered memberships
+    tier?: string;
+}
+
+// Subscribers that are still billed, pending cancellations run until the end of the paid period
+const ACTIVE_SUBSCRIBER_STATUSES = ['alive', 'pending_cancellation'];
+
+// Active subscribers of every membership product, with the tier they are on
+async function fetchSubscribers({ source }: MigrationContext<GumroadSource>): Promise<SubscriberRecord[]> {
+    const memberships = (await fetchProducts(source)).filter(product => product.is_tiered_membership || product.subscription_duration);
+
+    const records: SubscriberRecord[] = [];
+    for (const product of memberships) {
+        const subscribers: any[] = [];
+        let page_key: string | undefined;
+        do {
+            const body = await source.get(`/products/${product.id}/subscribers`, { paginated: 'true', ...(page_key ? { page_key } : {}) });
+            subscribers.push(...(body.subscribers || []));
+            page_key = body.next_page_key || undefined;
+        } while (page_key);
+
+        const active = subscribers.filter(subscriber => ACTIVE_SUBSCRIBER_STATUSES.includes(subscriber.status));
+        console.log(`[LOG] ${active.length} of ${subscribers.length} subscribers of ${product.name} are active`);
+
+        for (const subscriber of active) {
+            let tier: string | undefined;
+            // Subscribers don't report their tier, it is taken from the latest purchase
+            const purchase_id = subscriber.purchase_ids?.[subscriber.purchase_ids.length - 1];
+            if (product.is_tiered_membership && purchase_id) {
+                const { sale } = await source.get(`/sales/${purchase_id}`);
+                tier = saleTier(sale, product.variants?.[0]?.title || 'Tier');
+            }
+            records.push({ subscriber, product, tier });
+        }
+    }
+    return records;
+}
+
+// Sales list their variant options as "(Tier: Premium)", newer responses also as an object
+function saleTier(sale: any, title: string): string | undefined {
+    if (sale?.variants?.[title]) return sale.variants[title];
+    return String(sale?.variants_and_quantity || '').match(new RegExp(`${title}: ([^)]+)`))?.[1]?.trim();
+}
+
+// Gumroad doesn't report the next charge date, it is derived from the start of the subscription and its recurrence
+function nextChargeDate(startedAt: string, recurrence: { interval: 'Month' | 'Year', count: number }): string {
+    const start = new Date(startedAt);
+    const months = recurrence.interval === 'Month' ? recurrence.count : recurrence.count * 12;
+    const now = new Date();
+    let date = start;
+    for (let periods = 1; date <= now; periods++) {
+        date = addMonths(start, periods * months);
+    }
+    return date.toISOString();
+}
+
+// Charges on the 29th-31st fall on the last day of shorter months (Jan 31, Feb 28, Mar 31), like Gumroad bills them
+function addMonths(start: Date, months: number): Date {
+    const date = new Date(start);
+    date.setUTCDate(1);
+    date.setUTCMonth(date.getUTCMonth() + months);
+    const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+    date.setUTCDate(Math.min(start.getUTCDate(), lastDay));
+    return date;
+}
+
+async function transformSubscribers(records: SubscriberRecord[], ctx: MigrationContext<GumroadSource>): Promise<MigrationItem[]> {
+    const subscriptionsToMigrate: MigrationItem[] = [];
+
+    for (const { subscriber, product, tier } of records) {
+        const label = `${product.name}${tier ? ` – ${tier}` : ''} - ${subscriber.user_email}`;
+        const recurrence = RECURRENCES[subscriber.recurrence || product.subscription_duration];
+        if (!subscriber.user_email) {
+            skipRecord(ctx, { entity: 'subscription', source_id: subscriber.id, label, reason: 'the subscriber has no email address' });
+            continue;
+        }
+        if (!recurrence) {
+            skipRecord(ctx, { entity: 'subscription', source_id: subscriber.id, label, reason: `unsupported recurrence "${subscriber.recurrence}"` });
+            continue;
+        }
+        if (product.is_tiered_membership && !tier) {
+            skipRecord(ctx, { entity: 'subscription', source_id: subscriber.id, label, reason: 'the membership tier could not be determined from the latest purchase' });
+            continue;
+        }
+
+        const customer = await subscriptionCustomer(ctx, subscriber.user_id || subscriber.user_email, subscriber.user_email);
+
+        // Subscribers on a free trial are charged when it ends, everyone else on the derived next charge date
+        const trialDays = trialDaysLeft(subscriber.free_trial_ends_at);
+        const nextCharge = trialDays > 0 ? new Date(subscriber.free_trial_ends_at).toISOString() : nextChargeDate(subscriber.created_at, recurrence);
+        const cancelling = subscriber.status === 'pending_cancellation';
+
+        subscriptionsToMigrate.push({
+            entity: 'subscription',
+            source_id: subscriber.id,
+            metadata_key: 'gumroad_subscriber_id',
+            label: `${label} (${subscriber.status}, ${trialDays > 0 ? `${trialDays} trial days left` : `renews ${nextCharge.slice(0, 10)}`})`,
+            details: [
+                '[WARN] Gumroad has no billing addresses, a placeholder address will be used',
+                ...(trialDays > 0 ? [] : [`Next charge date derived from the start date ${String(subscriber.created_at).slice(0, 10)} and the ${subscriber.recurrence} recurrence`]),
+                ...(cancelling ? ['Cancelled in Gumroad, ends at the next billing date'] : [])
+            ],
+            data: {
+                billing: billingAddress(),
+                customer,
+                quantity: 1,
+                trial_period_days: trialDays,
+                metadata: {
+                    gumroad_subscriber_id: subscriber.id,
+                    gumroad_product_id: product.id,
+                    ...(tier ? { gumroad_tier: tier } : {}),
+                    original_status: subscriber.status,
+                    migrated_from: 'gumroad'
+                }
+            },
+            // Link to the Dodo product created from the subscribed Gumroad tier and recurrence
+            refs: {
+                product_id: { entity: 'product', source_id: priceSourceId(product.id, tier, subscriber.recurrence) }
+            },
+            // Keep the billing cycle, pending cancellations end when the paid period does
+            after_create: {
+                next_billing_date: nextCharge,
+                ...(cancelling ? { cancel_at_next_billing_date: true } : {})
+            }
+        });
+    }
+
+    return subscriptionsToMigrate;
+}
@@ -0,0 +1,163 @@
+import { afterAll, beforeAll, expect, setSystemTime, test } from 'bun:test';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { testContext } from '../../../test/testing';
+import { LemonSqueezyProvider } from './index';
+
+const type = (value: string) => LemonSqueezyProvider.types.find(type => type.value === value)!;
+
+// Transforms only read the records they are given, the SDK is never called
+const source = { stores: {} };
+
+const dir = mkdtempSync(join(tmpdir(), 'dodo-migrate-lemonsqueezy-'));
+
+beforeAll(() => setSystemTime(new Date('2026-03-01T00:00:00Z')));
+afterAll(() => {
+    setSystemTime();
+    rmSync(dir, { recursive: true, force: true });
+});
+
+const product = (id: string, name: string) => ({ id, attributes: { name, store_id: 1 } });
+const variant = (id: string, name: string, attributes: Record<string, any> = {}) => ({ id, attributes: { name, status: 'published', has_free_trial: false, ...attributes } });
+const monthly = (attributes: Record<string, any> = {}) => ({ attributes: { category: 'subscription', unit_price: 2900, renewal_interval_unit: 'month', renewal_interval_quantity: 1, trial_interval_unit: null, ...attributes } });
+
+const subscription = (id: string, attributes: Record<string, any>) => ({
+    subscription: {
+        id,
+        attributes: {
+            customer_id: 7,
+            variant_id: 42,
+            product_name: 'Product',
+            variant_name: 'Pro',
+            user_name: 'Ada Lovelace',
+            user_email: 'ada@example.com',
+            cancelled: false,
+            trial_ends_at: null,
+            billing_anchor: 15,
+            renews_at: '2026-03-15T00:00:00.000000Z',
+            ends_at: null,
+            ...attributes
+        }
+    },
+    customer: { country: 'GB' }
+});
+
+test('every variant becomes a Dodo product with its own price', async () => {
+    const ctx = testContext(source);
+    const items = await type('products').transform([
+        {
+            product: product('1', 'Course'),
+            currency: 'USD',
+            variants: [
+                { variant: variant('11', 'Basic'), price: monthly() },
+                { variant: variant('12', 'Team'), price: monthly({ unit_price: 99000, renewal_interval_unit: 'year' }) },
+                { variant: variant('13', 'Lifetime'), price: { attributes: { category: 'one_time', unit_price: null, unit_price_decimal: '249.5' } } },
+                // Variants without a price are left out
+                { variant: variant('14', 'Beta') }
+            ]
+        },
+        // The default variant of a product without variants of its own
+        { product: product('2', 'Ebook'), currency: 'EUR', variants: [{ variant: variant('21', 'Default', { status: 'pending' }), price: { attributes: { category: 'one_time', unit_price: 1500 } } }] }
+    ], ctx);
+    expect(items.map(item => [item.source_id, item.label])).toEqual([
+        ['11', 'Course – Basic - USD 29.00 (Subscription, monthly)'],
+        ['12', 'Course – Team - USD 990.00 (Subscription, yearly)'],
+        ['13', 'Course – Lifetime - USD 249.50 (One Time)'],
+        ['21', 'Ebook - EUR 15.00 (One Time)']
+    ]);
+
+    const [basic, team, lifetime] = items;
+    expect(basic.data.price).toMatchObject({ price: 2900, payment_frequency_interval: 'Month', subscription_period_count: 240 });
+    expect(basic.data.metadata).toEqual({ lemon_squeezy_variant_id: '11', lemon_squeezy_product_id: '1', migrated_from: 'lemon_squeezy' });
+    expect(team.data.price).toMatchObject({ price: 99000, billing_period: 'yearly', subscription_period_count: 20 });
+    expect(lifetime.data.price).toEqual({ currency: 'USD', price: 24950, discount: 0, purchasing_power_parity: false, type: 'one_time_price' });
+});
+
+test('free trials of variants become the trial of their product, subscriptions on trial keep what is left of it', async () => {
+    const ctx = testContext(source);
+    const products = await type('products').transform([{
+        product: product('1', 'Course'),
+        currency: 'USD',
+        variants: [
+            { variant: variant('11', 'Basic', { has_free_trial: true, trial_interval: 'week', trial_interval_count: 2 }), price: monthly() },
+            // Older variants report the trial on their price
+            { variant: variant('12', 'Team'), price: monthly({ trial_interval_unit: 'month', trial_interval_quantity: 1 }) },
+            { variant: variant('13', 'Solo'), price: monthly() }
+        ]
+    }], ctx);
+    const [basic, team, solo] = products;
+    expect(basic.label).toBe('Course – Basic - USD 29.00 (Subscription, monthly, 14-day trial)');
+    expect(basic.data.price.trial_period_days).toBe(14);
+    expect(basic.details).toEqual([]);
+    expect(team.data.price.trial_period_days).toBe(30);
+    expect(team.details).toEqual(['[WARN] 1-month trial converted to 30 days, months don\'t convert to an exact number of days']);
+    expect(solo.data.price.trial_period_days).toBeUndefined();
+
+    const [trialing, paying] = await type('subscriptions').transform([
+        subscription('5', { status: 'on_trial', trial_ends_at: '2026-03-05T12:00:00.000000Z', renews_at: '2026-03-05T12:00:00.000000Z' }),
+        // The trial ended, the product's trial doesn't start again
+        subscription('6', { status: 'active', trial_ends_at: '2026-02-20T00:00:00.000000Z' })
+    ], ctx);
+    expect(trialing.label).toBe('Product – Pro - ada@example.com (on_trial, 5 trial days left)');
+    expect(trialing.data.trial_period_days).toBe(5);
+    expect(paying.data.trial_period_days).toBe(0);
+});
+
+test('subscriptions keep their renewal date, cancelled ones end on it', async () => {
+    const ctx = testContext(source);
+    const items = await type('subscriptions').transform([
+        subscription('1', { status: 'active' }),
+        subscription('2', { status: 'cancelled', cancelled: true, ends_at: '2026-03-20T00:00:00.000000Z' }),
+        subscription('3', { status: 'past_due', renews_at: '2026-03-02T00:00:00.000000Z' })
+    ], ctx);
+    expect(items.map(item => item.source_id)).toEqual(['1', '2', '3']);
+
+    const [active, cancelled, pastDue] = items;
+    expect(active.label).toBe('Product – Pro - ada@example.com (active, renews 2026-03-15)');
+    expect(active.details).toBeUndefined();
+    expect(active.after_create).toEqual({ next_billing_date: '2026-03-15T00:00:00.000000Z' });
+    expect(active.data).toMatchObject({ customer: { email: 'ada@example.com', name: 'Ada Lovelace' }, trial_period_days: 0 });
+    expect(active.refs).toEqual({ product_id: { entity: 'product', source_id: '42' } });
+
+    expect(cancelled.label).toBe('Product – Pro - ada@example.com (cancelled, ends 2026-03-20)');
+    expect(cancelled.details).toEqual(['Cancelled in Lemon Squeezy, ends at the next billing date']);
+    expect(cancelled.after_create).toEqual({ next_billing_date: '2026-03-20T00:00:00.000000Z', cancel_at_next_billing_date: true });
+
+    expect(pastDue.details).toEqual(['[WARN] The last renewal payment failed in Lemon Squeezy, Dodo Payments charges the subscription at the next billing date']);
+    expect(pastDue.after_create).toEqual({ next_billing_date: '2026-03-02T00:00:00.000000Z' });
+});
+
+test('paused subscriptions are reported as not migrated', async () => {
+    const ctx = testContext(source);
+    const items = await type('subscriptions').transform([subscription('4', { status: 'paused' })], ctx);
+    expect(items).toEqual([]);
+    expect(ctx.unmigrated.map(record => [record.source_id, record.reason])).toEqual([
+        ['4', 'the subscription is paused in Lemon Squeezy, Dodo Payments subscriptions can\'t be paused']
+    ]);
+});
+
+const licenseKey = {
+    key: {
+        id: '11',
+        attributes: {
+            key: 'ABCD-1234', key_short: 'XXXX-1234', status: 'active', activation_limit: 3, instances_count: 1,
+            expires_at: null, disabled: 0, customer_id: 7, user_email: 'ada@example.com', user_name: 'Ada Lovelace'
+        }
+    },
+    variant_id: '42'
+};
+
+test('license keys are only exported by the run that migrates', async () => {
+    const path = join(dir, 'license-keys.csv');
+    const dryRun = testContext(source, { 'license-key-export': path });
+    expect(await type('license-keys').transform([licenseKey], dryRun)).toEqual([]);
+    expect(existsSync(path)).toBe(false);
+    expect(dryRun.unmigrated[0].reason).toBe(`Dodo Payments has no API to import license keys, a migration run without --dry-run exports it to ${path} without a migrated customer and product`);
+
+    const ctx = { ...testContext(source, { 'license-key-export': path }), dryRun: false };
+    ctx.mappings.set('product', '42', 'pdt_pro');
+    await type('license-keys').transform([licenseKey], ctx);
+    expect(readFileSync(path, 'utf8').split('\n')[1]).toBe('11,ABCD-1234,active,3,1,,false,ada@example.com,Ada Lovelace,,42,pdt_pro');
+    expect(ctx.unmigrated[0].reason).toBe(`Dodo Payments has no API to import license keys, exported to ${path} without a migrated customer`);
+});
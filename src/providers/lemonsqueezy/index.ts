@@ -1,6 +1,11 @@
-import { listProducts, listDiscounts, lemonSqueezySetup, getStore, Store, listPrices, listSubscriptions, listVariants, getCustomer } from '@lemonsqueezy/lemonsqueezy.js';
-import DodoPayments from 'dodopayments';
-import { input, select } from '@inquirer/prompts';
+import { listProducts, listDiscounts, lemonSqueezySetup, getStore, Store, listPrices, listSubscriptions, listVariants, getCustomer, getAuthenticatedUser, listCustomers, getDiscount, listLicenseKeys, listOrderItems } from '@lemonsqueezy/lemonsqueezy.js';
+import { createCommand } from '../../core/command';
+import { exportCsvRow } from '../../core/csv';
+import { fixedDiscountOptions, handleFixedDiscount, restrictionRefs, withDiscountFields } from '../../core/discounts';
+import { findExisting, skipRecord } from '../../core/engine';
+import { BillingInterval, evergreenPeriodCount, trialPeriodDays } from '../../core/products';
+import { billingAddress, subscriptionCustomer, trialDaysLeft } from '../../core/subscriptions';
+import { EntityRef, MigrationContext, MigrationItem, SourceProvider } from '../../core/types';
 
 // Data Models
 interface Product {
@@ -105,13 +110,18 @@ interface Subscription {
 }
 
 // Helper Functions
-function stripHtml(html: string): string {
-    return html.replace(/<[^>]*>/g, '');
-}
 
-function convertToTrialDays(interval: string, count: number): number {
-    const daysMap: Record<string, number> = { day: 1, week: 7, month: 30, year: 365 };
-    return daysMap[interval] * count;
+// Free trial of a subscription variant in days, month-based trials are flagged in the preview
+function variantTrial(variant: Variant, price: Price): { days: number, description: string, inexact: boolean } | undefined {
+    const interval = variant.attributes.has_free_trial ? variant.attributes.trial_interval : price.attributes.trial_interval_unit;
+    const count = (variant.attributes.has_free_trial ? variant.attributes.trial_interval_count : price.attributes.trial_interval_quantity) || 1;
+    if (!interval) return undefined;
+
+    return {
+        days: trialPeriodDays(interval, count),
+        description: `${count}-${interval}`,
+        inexact: interval === 'month'
+    };
 }
 
 function convertToCents(unitPrice: number | undefined, unitPriceDecimal: string | undefined): number {
@@ -132,7 +142,7 @@ function convertToCents(unitPrice: number | undefined, unitPriceDecimal: string
     return 0;
 }
 
-function mapIntervalUnit(unit: string): string {
+function mapIntervalUnit(unit: string): BillingInterval {
     const normalized = unit.toLowerCase();
     if (normalized === 'month' || normalized === 'monthly') return 'Month';
     if (normalized === 'year' || normalized === 'yearly') return 'Year';
@@ -141,229 +151,205 @@ function mapIntervalUnit(unit: string): string {
     return 'Month';
 }
 
-export default {
-    command: 'lemonsqueezy [arguments]',
-    describe: 'Migrate from Lemon Squeezy to Dodo Payments',
-    builder: (yargs: any) => {
-        return yargs
-            .option('provider-api-key', {
-                describe: 'LemonSqueezy API Key',
-                type: 'string',
-                demandOption: false
-            })
-            .option('dodo-api-key', {
-                describe: 'Dodo Payments API Key',
-                type: 'string',
-                demandOption: false
-            })
-            .option('dodo-brand-id', {
-                describe: 'Dodo Payments Brand ID',
-                type: 'string',
-                demandOption: false
-            })
-            .option('mode', {
-                describe: 'Dodo Payments environment',
-                type: 'string',
-                choices: ['test_mode', 'live_mode'],
-                demandOption: false,
-                default: 'test_mode'
-            })
-            .option('include-subscriptions', {
-                describe: 'Include subscription migration',
-                type: 'boolean',
-                demandOption: false,
-                default: false
-            })
+// Paginate through a Lemon Squeezy list endpoint and return every record
+async function listAll(list: (params: any) => Promise<any>, label: string, params: Record<string, any> = {}): Promise<any[]> {
+    const records: any[] = [];
+    let page = 1;
+    const size = 100;
+    while (true) {
+        const resp = await list({ ...params, page: { number: page, size } });
+        if (resp.error || resp.statusCode !== 200) {
+            throw new Error(`Failed to fetch ${label} from Lemon Squeezy: ${resp.error?.message || resp.statusCode}`);
+        }
+        const pageData = resp.data?.data || [];
+        records.push(...pageData);
+        const meta = resp.data?.meta as any;
+        const current = meta?.page?.currentPage ?? meta?.page?.current_page ?? page;
+        const last = meta?.page?.lastPage ?? meta?.page?.last_page ?? current;
+        if (current >= last || pageData.length < size) break;
+        page++;
+    }
+    return records;
+}
+
+// Lemon Squeezy SDK is configured globally, the source only keeps a per-run store cache
+interface LemonSqueezySource {
+    stores: Record<string, Store>;
+}
+
+export const LemonSqueezyProvider: SourceProvider<LemonSqueezySource> = {
+    command: 'lemonsqueezy',
+    name: 'Lemon Squeezy',
+    apiKeyDescription: 'LemonSqueezy API Key',
+    apiKeyPrompt: 'Enter your Lemon Squeezy API Key:',
+    options: {
+        ...fixedDiscountOptions,
+        'license-key-export': {
+            describe: 'CSV file license keys are written to, Dodo Payments has no API to import them',
+            type: 'string',
+            demandOption: false,
+            default: 'license-keys.csv'
+        }
     },
-    handler: async (argv: any) => {
-        // Get API keys and configuration
-        const PROVIDER_API_KEY = argv['provider-api-key'] || await input({ message: 'Enter your Lemon Squeezy API Key:', required: true });
-        const DODO_API_KEY = argv['dodo-api-key'] || await input({ message: 'Enter your Dodo Payments API Key:', required: true });
-        const MODE = argv['mode'] || await select({
-            message: 'Select Dodo Payments environment:',
-            choices: [
-                { name: 'Test Mode', value: 'test_mode' },
-                { name: 'Live Mode', value: 'live_mode' }
-            ],
-            default: 'test_mode'
-        });
+    connect: async (apiKey) => {
+        // Errors are reported through the returned responses, don't exit from inside the SDK
+        lemonSqueezySetup({ apiKey, onError: () => { } });
 
-        // Set up Lemon Squeezy SDK
-        lemonSqueezySetup({
-            apiKey: PROVIDER_API_KEY,
-            onError: (error) => {
-                console.log("[ERROR] Failed to set up Lemon Squeezy!\n", error.cause);
-                process.exit(1);
-            },
-        });
+        const resp = await getAuthenticatedUser();
+        if (resp.error || resp.statusCode !== 200) {
+            throw new Error(resp.error?.message || `Unexpected status code ${resp.statusCode}`);
+        }
+        return { stores: {} };
+    },
+    types: [
+        {
+            value: 'products',
+            name: 'Products',
+            checked: true,
+            fetch: fetchProducts,
+            transform: transformProducts
+        },
+        {
+            value: 'discounts',
+            name: 'Discounts',
+            checked: true,
+            fetch: fetchDiscounts,
+            transform: transformDiscounts
+        },
+        {
+            value: 'customers',
+            name: 'Customers',
+            checked: false,
+            fetch: () => listAll(listCustomers, 'customers'),
+            transform: transformCustomers
+        },
+        {
+            value: 'subscriptions',
+            name: 'Subscriptions',
+            checked: false,
+            fetch: fetchSubscriptions,
+            transform: transformSubscriptions
+        },
+        {
+            value: 'license-keys',
+            name: 'License keys',
+            checked: false,
+            fetch: fetchLicenseKeys,
+            transform: transformLicenseKeys
+        }
+    ]
+};
 
-        // Set up Dodo Payments SDK
-        const client = new DodoPayments({
-            bearerToken: DODO_API_KEY,
-            environment: MODE,
-        });
+export default createCommand(LemonSqueezyProvider);
 
-        // Get brand ID
-        let brand_id = argv['dodo-brand-id'];
-        if (!brand_id) {
-            try {
-                const brands = await client.brands.list();
-                brand_id = await select({
-                    message: 'Select your Dodo Payments brand:',
-                    choices: brands.items.map((brand) => ({
-                        name: brand.name || 'Unnamed Brand',
-                        value: brand.brand_id,
-                    })),
-                });
-            } catch (e) {
-                console.log("[ERROR] Failed to fetch brands from Dodo Payments!\n", e);
-                process.exit(1);
-            }
+// Helper to get store currency
+async function getStoreCurrency(source: LemonSqueezySource, storeId: number): Promise<string> {
+    if (!source.stores[storeId]) {
+        const storeResponse = await getStore(storeId);
+        if (storeResponse.error || storeResponse.statusCode !== 200) {
+            throw new Error(`Cannot determine currency for store ${storeId}. Migration cannot continue without proper currency information.`);
         }
+        source.stores[storeId] = storeResponse.data;
+    }
+    const currency = source.stores[storeId].data.attributes.currency as string;
+    if (!currency) {
+        throw new Error(`Store ${storeId} has no currency information. Migration cannot continue.`);
+    }
+    return currency;
+}
 
-        // Store currency cache
-        const StoresData: Record<string, Store> = {};
+interface ProductRecord {
+    product: Product;
+    currency: string;
+    // Purchasable variants of the product with their current price
+    variants: { variant: Variant, price?: Price }[];
+}
 
-        // Helper to get store currency
-        const getStoreCurrency = async (storeId: number): Promise<string> => {
-            if (!StoresData[storeId]) {
-                const storeResponse = await getStore(storeId);
-                if (storeResponse.error || storeResponse.statusCode !== 200) {
-                    console.log(`[ERROR] Failed to fetch store data for store ID ${storeId}\n`, storeResponse.error);
-                    throw new Error(`Cannot determine currency for store ${storeId}. Migration cannot continue without proper currency information.`);
-                }
-                StoresData[storeId] = storeResponse.data;
-            }
-            const currency = StoresData[storeId].data.attributes.currency as string;
-            if (!currency) {
-                throw new Error(`Store ${storeId} has no currency information. Migration cannot continue.`);
-            }
-            return currency;
-        };
+// Products together with their variants and the current price of each variant
+async function fetchProducts({ source }: MigrationContext<LemonSqueezySource>): Promise<ProductRecord[]> {
+    const products: Product[] = await listAll(listProducts, 'products');
+    const prices: Price[] = await listAll(listPrices, 'prices');
+    const variants: Variant[] = await listAll(listVariants, 'variants');
+
+    const records: ProductRecord[] = [];
+    for (const product of products) {
+        const currency = await getStoreCurrency(source, product.attributes.store_id);
+        const productVariants = variants.filter(v => v.attributes.product_id === parseInt(product.id));
+
+        // Products without variants of their own only have a default variant, which Lemon Squeezy reports as pending
+        const published = productVariants.filter(v => v.attributes.status === 'published');
+        const purchasable = published.length > 0 ? published : productVariants.filter(v => v.attributes.status === 'pending');
+
+        records.push({
+            product,
+            currency,
+            variants: purchasable.map(variant => ({
+                variant,
+                // Prices keep their history, the most recent one is the current price
+                price: prices
+                    .filter(p => p.attributes.variant_id === parseInt(variant.id))
+                    .sort((a, b) => b.attributes.created_at.localeCompare(a.attributes.created_at))[0]
+            }))
+        });
+    }
+    return records;
+}
 
-        // -----------------------------
-        // Product Migration
-        // -----------------------------
+// One Dodo product per variant, so every variant keeps its own price
+function transformProducts(records: ProductRecord[], { brand_id }: MigrationContext<LemonSqueezySource>): MigrationItem[] {
+    const productsToMigrate: MigrationItem[] = [];
 
-        console.log('[LOG] Fetching products from Lemon Squeezy...');
-        const products: any[] = [];
-        {
-            let page = 1;
-            const size = 100;
-            while (true) {
-                const resp = await listProducts({ page: { number: page, size } } as any);
-                if (resp.error || resp.statusCode !== 200) {
-                    console.log("[ERROR] Failed to fetch products from Lemon Squeezy!\n", resp.error);
-                    process.exit(1);
-                }
-                const pageData = resp.data?.data || [];
-                products.push(...pageData);
-                const meta = resp.data?.meta as any;
-                const current = meta?.page?.currentPage ?? meta?.page?.current_page ?? page;
-                const last = meta?.page?.lastPage ?? meta?.page?.last_page ?? current;
-                if (current >= last || pageData.length < size) break;
-                page++;
-            }
+    for (const { product, currency, variants } of records) {
+        if (variants.length === 0) {
+            console.log(`[WARN] No published variants found for product ${product.attributes.name}, skipping`);
+            continue;
         }
-        console.log(`[LOG] Found ${products.length} products in Lemon Squeezy`);
 
-        // Fetch all prices
-        console.log('[LOG] Fetching prices from Lemon Squeezy...');
-        const prices: any[] = [];
-        {
-            let page = 1;
-            const size = 100;
-            while (true) {
-                const resp = await listPrices({ page: { number: page, size } } as any);
-                if (resp.error || resp.statusCode !== 200) {
-                    console.log("[ERROR] Failed to fetch prices from Lemon Squeezy!\n", resp.error);
-                    process.exit(1);
-                }
-                const pageData = resp.data?.data || [];
-                prices.push(...pageData);
-                const meta = resp.data?.meta as any;
-                const current = meta?.page?.currentPage ?? meta?.page?.current_page ?? page;
-                const last = meta?.page?.lastPage ?? meta?.page?.last_page ?? current;
-                if (current >= last || pageData.length < size) break;
-                page++;
+        for (const { variant, price } of variants) {
+            // The default variant of a product without variants is named after the product only
+            const name = variants.length === 1 && variant.attributes.status === 'pending'
+                ? product.attributes.name
+                : `${product.attributes.name} – ${variant.attributes.name}`;
+
+            if (!price) {
+                console.log(`[WARN] No price found for ${name}, skipping`);
+                continue;
             }
-        }
-        console.log(`[LOG] Found ${prices.length} prices in Lemon Squeezy`);
 
-        // Fetch all variants (to map product -> variant -> price reliably)
-        console.log('[LOG] Fetching variants from Lemon Squeezy...');
-        const variants: any[] = [];
-        {
-            let page = 1;
-            const size = 100;
-            while (true) {
-                const resp = await listVariants({ page: { number: page, size } } as any);
-                if (resp.error || resp.statusCode !== 200) {
-                    console.log("[ERROR] Failed to fetch variants from Lemon Squeezy!\n", resp.error);
-                    process.exit(1);
-                }
-                const pageData = resp.data?.data || [];
-                variants.push(...pageData);
-                const meta = resp.data?.meta as any;
-                const current = meta?.page?.currentPage ?? meta?.page?.current_page ?? page;
-                const last = meta?.page?.lastPage ?? meta?.page?.last_page ?? current;
-                if (current >= last || pageData.length < size) break;
-                page++;
+            const unitPriceCents = convertToCents(price.attributes.unit_price ?? undefined, price.attributes.unit_price_decimal ?? undefined);
+            if (unitPriceCents <= 0) {
+                console.log(`[WARN] No valid price found for ${name}, skipping`);
+                continue;
             }
-        }
-        console.log(`[LOG] Found ${variants.length} variants in Lemon Squeezy`);
-
-        // Process products and create in Dodo
-        const productsToMigrate: { type: 'one_time_product' | 'subscription_product', data: any, originalProductId: string }[] = [];
-        // Store created Dodo product/price IDs for subscription mapping later
-        const createdProductsMap = new Map<string, { productId: string, priceId?: string }>();
-
-        for (const product of products) {
-            const currency = await getStoreCurrency(product.attributes.store_id);
-            // All variants for this product
-            const variantsForProduct = variants.filter(v => v.attributes.product_id === parseInt(product.id));
-            const variantIds = new Set<number>(variantsForProduct.map(v => parseInt(v.id)));
-            // Prices for those variants
-            const productPrices = prices.filter(p => p.attributes.variant_id !== null && variantIds.has(p.attributes.variant_id as number));
-
-            // Group prices by category and pick the primary one for each type
-            const subscriptionPrices = productPrices.filter(p => p.attributes.category === 'subscription');
-            const oneTimePrices = productPrices.filter(p => p.attributes.category === 'one_time');
-
-            // Filter for valid subscription prices (supported intervals and valid price)
-            const validSubscriptionPrices = subscriptionPrices.filter(price => {
-                const unitPriceCents = convertToCents(price.attributes.unit_price ?? undefined, price.attributes.unit_price_decimal ?? undefined);
-                const renewalIntervalUnit = price.attributes.renewal_interval_unit || 'month';
-                const billingPeriod: 'monthly' | 'yearly' | null =
-                    renewalIntervalUnit.toLowerCase() === 'month' ? 'monthly' :
-                        renewalIntervalUnit.toLowerCase() === 'year' ? 'yearly' : null;
 
-                return unitPriceCents > 0 && billingPeriod !== null;
-            });
+            const metadata = {
+                lemon_squeezy_variant_id: variant.id,
+                lemon_squeezy_product_id: product.id,
+                migrated_from: 'lemon_squeezy'
+            };
 
-            // Priority: If product has valid subscription prices, create subscription product
-            // Otherwise, fall back to one-time product if available
-            if (validSubscriptionPrices.length > 0) {
-                // This is a valid subscription product - create subscription version
-                const price = validSubscriptionPrices[0]; // Take the first valid subscription price
-                const unitPriceCents = convertToCents(price.attributes.unit_price ?? undefined, price.attributes.unit_price_decimal ?? undefined);
+            if (price.attributes.category === 'subscription') {
                 const renewalIntervalUnit = price.attributes.renewal_interval_unit || 'month';
                 const renewalIntervalQuantity = price.attributes.renewal_interval_quantity || 1;
 
                 const billingPeriod: 'monthly' | 'yearly' | null =
                     renewalIntervalUnit.toLowerCase() === 'month' ? 'monthly' :
                         renewalIntervalUnit.toLowerCase() === 'year' ? 'yearly' : null;
+                if (billingPeriod === null) {
+                    console.log(`[WARN] ${name} renews every ${renewalIntervalUnit}, only monthly and yearly subscriptions are supported, skipping`);
+                    continue;
+                }
 
-                // Determine a safe evergreen subscription term capped at Dodo's 20-year maximum
-                const subscriptionIntervalUnit = mapIntervalUnit(renewalIntervalUnit);
-                const maxByInterval: Record<string, number> = { Year: 20, Month: 240, Week: 1040, Day: 7300 };
-                const evergreenDesiredCount = 240; // 20 years desired evergreen
-                const subscriptionPeriodCount = Math.min(evergreenDesiredCount, maxByInterval[subscriptionIntervalUnit] ?? evergreenDesiredCount);
+                const trial = variantTrial(variant, price);
 
                 productsToMigrate.push({
-                    type: 'subscription_product',
+                    entity: 'product',
+                    source_id: variant.id,
+                    metadata_key: 'lemon_squeezy_variant_id',
+                    label: `${name} - ${currency} ${(unitPriceCents / 100).toFixed(2)} (Subscription, ${billingPeriod}${trial ? `, ${trial.days}-day trial` : ''})`,
+                    details: trial?.inexact ? [`[WARN] ${trial.description} trial converted to ${trial.days} days, months don't convert to an exact number of days`] : [],
                     data: {
-                        name: product.attributes.name,
+                        name,
                         tax_category: 'saas',
                         price: {
                             currency: currency as any,
@@ -375,324 +361,379 @@ export default {
                             payment_frequency_interval: mapIntervalUnit(renewalIntervalUnit),
                             payment_frequency_count: renewalIntervalQuantity,
                             subscription_period_interval: mapIntervalUnit(renewalIntervalUnit),
-                            subscription_period_count: subscriptionPeriodCount
+                            subscription_period_count: evergreenPeriodCount(mapIntervalUnit(renewalIntervalUnit)),
+                            ...(trial ? { trial_period_days: trial.days } : {})
                         },
-                        brand_id: brand_id
-                    },
-                    originalProductId: product.id
+                        brand_id: brand_id,
+                        metadata
+                    }
                 });
-                console.log(`[LOG] Created subscription product for: ${product.attributes.name} (${currency} ${(unitPriceCents / 100).toFixed(2)}/${renewalIntervalUnit})`);
-            } else if (oneTimePrices.length > 0) {
-                // This is a one-time product - only create one-time version
-                const price = oneTimePrices[0]; // Take the first one-time price
-                const unitPriceCents = convertToCents(price.attributes.unit_price ?? undefined, price.attributes.unit_price_decimal ?? undefined);
-
-                if (unitPriceCents > 0) {
-                    productsToMigrate.push({
-                        type: 'one_time_product',
-                        data: {
-                            name: product.attributes.name,
-                            tax_category: 'saas',
-                            price: {
-                                currency: currency as any,
-                                price: unitPriceCents,
-                                discount: 0,
-                                purchasing_power_parity: false,
-                                type: 'one_time_price'
-                            },
-                            brand_id: brand_id
+            } else if (price.attributes.category === 'one_time') {
+                productsToMigrate.push({
+                    entity: 'product',
+                    source_id: variant.id,
+                    metadata_key: 'lemon_squeezy_variant_id',
+                    label: `${name} - ${currency} ${(unitPriceCents / 100).toFixed(2)} (One Time)`,
+                    data: {
+                        name,
+                        tax_category: 'saas',
+                        price: {
+                            currency: currency as any,
+                            price: unitPriceCents,
+                            discount: 0,
+                            purchasing_power_parity: false,
+                            type: 'one_time_price'
                         },
-                        originalProductId: product.id
-                    });
-                    console.log(`[LOG] Created one-time product for: ${product.attributes.name} (${currency} ${(unitPriceCents / 100).toFixed(2)})`);
-                }
+                        brand_id: brand_id,
+                        metadata
+                    }
+                });
+            } else {
+                console.log(`[WARN] ${name} has a ${price.attributes.category} price, which is not supported, skipping`);
             }
+        }
+    }
+
+    return productsToMigrate;
+}
+
+interface SubscriptionRecord {
+    subscription: Subscription;
+    // Billing details from the Lemon Squeezy customer, empty if they could not be fetched
+    customer: Record<string, string | undefined>;
+}
 
-            // If no valid prices found, skip this product
-            if (validSubscriptionPrices.length === 0 && oneTimePrices.length === 0) {
-                console.log(`[WARNING] No valid prices found for product ${product.attributes.name}, skipping`);
-            } else if (subscriptionPrices.length > 0 && validSubscriptionPrices.length === 0) {
-                console.log(`[WARNING] Product ${product.attributes.name} has subscription prices but none with supported intervals (monthly/yearly), falling back to one-time product`);
+// Cancelled subscriptions are still running until they end, paused ones are reported as not migrated.
+// Unpaid and expired subscriptions have stopped and are left out.
+const MIGRATED_SUBSCRIPTION_STATUSES = ['active', 'on_trial', 'past_due', 'cancelled', 'paused'];
+
+// Active subscriptions together with the billing details of their customers
+async function fetchSubscriptions(): Promise<SubscriptionRecord[]> {
+    const subscriptions: Subscription[] = await listAll(listSubscriptions, 'subscriptions');
+
+    const activeSubscriptions = subscriptions.filter(sub =>
+        MIGRATED_SUBSCRIPTION_STATUSES.includes(sub.attributes.status)
+    );
+    console.log(`[LOG] ${activeSubscriptions.length} of ${subscriptions.length} subscriptions are active`);
+
+    const records: SubscriptionRecord[] = [];
+    for (const subscription of activeSubscriptions) {
+        let customer: Record<string, string | undefined> = {};
+        try {
+            const customerResponse = await getCustomer(subscription.attributes.customer_id);
+            if (customerResponse.error || customerResponse.statusCode !== 200) {
+                console.log(`[WARN] Failed to fetch customer data for ${subscription.attributes.user_email}, using fallback billing address`);
+            } else {
+                const attrs: any = customerResponse?.data?.data?.attributes || {};
+                customer = {
+                    city: attrs.city,
+                    country: attrs.country,
+                    region: attrs.region,
+                    address_line_1: attrs.address_line_1 || attrs.address,
+                    postal_code: attrs.postal_code || attrs.zip
+                };
             }
+        } catch (error: any) {
+            console.log(`[WARN] Error fetching customer data for ${subscription.attributes.user_email}: ${error.message || error}, using fallback billing address`);
         }
+        records.push({ subscription, customer });
+    }
+    return records;
+}
 
-        console.log('\n[LOG] These are the products to be migrated:');
-        productsToMigrate.forEach((product, index) => {
-            const priceAmount = (product.data.price.price / 100).toFixed(2);
-            const isSubscription = product.type === 'subscription_product';
-            const kind = isSubscription ? 'Subscription' : 'One Time';
-            const billingSuffix = isSubscription ? ` (${product.data.price.billing_period})` : '';
-            console.log(`${index + 1}. ${product.data.name} - ${product.data.price.currency} ${priceAmount} (${kind}${billingSuffix})`);
-        });
+async function transformSubscriptions(records: SubscriptionRecord[], ctx: MigrationContext<LemonSqueezySource>): Promise<MigrationItem[]> {
+    const subscriptionsToMigrate: MigrationItem[] = [];
 
-        const migrateProducts = await select({
-            message: 'Proceed to create these products in Dodo Payments?',
-            choices: [
-                { name: 'Yes', value: 'yes' },
-                { name: 'No', value: 'no' }
-            ],
-        });
+    for (const { subscription, customer: customerData } of records) {
+        const attrs = subscription.attributes;
+        const label = `${attrs.product_name} – ${attrs.variant_name} - ${attrs.user_email}`;
+        // Dodo Payments subscriptions can't be paused, migrating one would start charging it again
+        if (attrs.status === 'paused') {
+            skipRecord(ctx, { entity: 'subscription', source_id: subscription.id, label, reason: 'the subscription is paused in Lemon Squeezy, Dodo Payments subscriptions can\'t be paused' });
+            continue;
+        }
+
+        const customer = await subscriptionCustomer(ctx, String(attrs.customer_id), attrs.user_email, attrs.user_name);
+        const trialDays = attrs.status === 'on_trial' ? trialDaysLeft(attrs.trial_ends_at) : 0;
+        // Cancelled subscriptions run until they end, everything else renews on the next renewal date
+        const cancelling = attrs.status === 'cancelled' || attrs.cancelled;
+        const next_billing_date = (cancelling && attrs.ends_at) || attrs.renews_at;
+        const details: string[] = [];
+        if (cancelling) {
+            details.push('Cancelled in Lemon Squeezy, ends at the next billing date');
+        }
+        if (attrs.status === 'past_due') {
+            details.push('[WARN] The last renewal payment failed in Lemon Squeezy, Dodo Payments charges the subscription at the next billing date');
+        }
 
-        if (migrateProducts === 'yes') {
-            let successCount = 0;
-            let errorCount = 0;
-            // Map filled as products are created
-
-            for (let product of productsToMigrate) {
-                console.log();
-                try {
-                    const createdProduct: any = await (client as any).products.create(product.data);
-                    const productId: string = createdProduct.product_id || createdProduct.id;
-                    let priceId: string | undefined =
-                        createdProduct.price_id ||
-                        createdProduct.default_price_id ||
-                        createdProduct.price?.price_id ||
-                        (createdProduct.prices && createdProduct.prices[0]?.price_id) ||
-                        undefined;
-
-                    // Store mapping for subscriptions; key uses product ID for reliable lookup
-                    const key = `${product.originalProductId}_${product.type}`;
-                    createdProductsMap.set(key, { productId, priceId });
-
-                    console.log(`[LOG] Migration for product: ${createdProduct.name} completed (Dodo Payments product ID: ${productId}${priceId ? ", price ID: " + priceId : ''})`);
-                    successCount++;
-                } catch (error: any) {
-                    errorCount++;
-                    console.log(`[ERROR] Failed to migrate product: ${product.data.name}`);
-                    console.log(`[ERROR] Error details: ${error.message || error.toString()}`);
+        subscriptionsToMigrate.push({
+            entity: 'subscription',
+            source_id: subscription.id,
+            metadata_key: 'lemon_squeezy_subscription_id',
+            label: `${label} (${attrs.status}, ${trialDays > 0 ? `${trialDays} trial days left` : `${cancelling ? 'ends' : 'renews'} ${next_billing_date.slice(0, 10)}`})`,
+            ...(details.length > 0 ? { details } : {}),
+            data: {
+                billing: billingAddress({
+                    street: customerData.address_line_1,
+                    city: customerData.city,
+                    state: customerData.region,
+                    zipcode: customerData.postal_code,
+                    country: customerData.country
+                }),
+                customer,
+                quantity: 1,
+                trial_period_days: trialDays,
+                metadata: {
+                    lemon_squeezy_subscription_id: subscription.id,
+                    lemon_squeezy_customer_id: String(attrs.customer_id),
+                    lemon_squeezy_variant_id: String(attrs.variant_id),
+                    original_status: attrs.status,
+                    billing_anchor: String(attrs.billing_anchor)
                 }
+            },
+            // Link to the Dodo product created from the subscribed Lemon Squeezy variant
+            refs: {
+                product_id: { entity: 'product', source_id: String(attrs.variant_id) }
+            },
+            // Keep the billing cycle: the first Dodo charge happens when Lemon Squeezy would have renewed the subscription
+            after_create: {
+                next_billing_date,
+                ...(cancelling ? { cancel_at_next_billing_date: true } : {})
             }
+        });
+    }
 
-            console.log(`\n[LOG] Migration completed! Success: ${successCount}, Errors: ${errorCount}`);
-            if (errorCount > 0) {
-                console.log(`[LOG] ${errorCount} product(s) failed to migrate. Check error messages above for details.`);
-            }
-        } else {
-            console.log('[LOG] Migration aborted by user');
-            process.exit(0);
-        }
+    return subscriptionsToMigrate;
+}
 
-        // -----------------------------
-        // Subscription Migration
-        // -----------------------------
-
-        const includeSubscriptions = argv['include-subscriptions'] || false;
-
-        if (includeSubscriptions) {
-            console.log('\n[LOG] Starting subscription migration...');
-
-            try {
-                console.log('[LOG] Fetching subscriptions from Lemon Squeezy...');
-                const allSubscriptions: any[] = [];
-                {
-                    let page = 1;
-                    const size = 100;
-                    while (true) {
-                        const resp = await listSubscriptions({ page: { number: page, size } } as any);
-                        if (resp.error || resp.statusCode !== 200) {
-                            console.log('[ERROR] Failed to fetch subscriptions from Lemon Squeezy!\n', resp.error);
-                            process.exit(1);
-                        }
-                        const pageData = resp.data?.data || [];
-                        allSubscriptions.push(...pageData);
-                        const meta = resp.data?.meta as any;
-                        const current = meta?.page?.currentPage ?? meta?.page?.current_page ?? page;
-                        const last = meta?.page?.lastPage ?? meta?.page?.last_page ?? current;
-                        if (current >= last || pageData.length < size) break;
-                        page++;
-                    }
-                }
-                const rawSubscriptions: any[] = allSubscriptions;
-                console.log(`[LOG] Found ${rawSubscriptions.length} subscriptions in Lemon Squeezy`);
-
-                const activeSubscriptions = rawSubscriptions.filter(sub =>
-                    ['active', 'on_trial', 'paused'].includes(sub.attributes.status)
-                );
-                console.log(`[LOG] Found ${activeSubscriptions.length} active subscriptions to migrate`);
-
-                if (activeSubscriptions.length === 0) {
-                    console.log('[LOG] No active subscriptions to migrate');
-                } else {
-                    console.log('\n[LOG] These are the subscriptions to be migrated:');
-                    activeSubscriptions.forEach((sub, index) => {
-                        console.log(`${index + 1}. ${sub.attributes.product_name} - ${sub.attributes.user_email} (${sub.attributes.status})`);
-                    });
-
-                    const migrateSubscriptions = await select({
-                        message: 'Proceed to migrate these subscriptions to Dodo Payments?',
-                        choices: [
-                            { name: 'Yes', value: 'yes' },
-                            { name: 'No', value: 'no' }
-                        ],
-                    });
-
-                    if (migrateSubscriptions === 'yes') {
-                        console.log('\n[LOG] Migrating subscriptions...');
-
-                        // Build product mapping from actually created Dodo products
-                        // createdProductsMap was populated during product creation
-
-                        let subscriptionSuccessCount = 0;
-                        let subscriptionErrorCount = 0;
-
-                        for (const subscription of activeSubscriptions) {
-                            try {
-                                console.log(`[LOG] Processing subscription: ${subscription.attributes.product_name} for ${subscription.attributes.user_email}`);
-
-                                // Find matching migrated product using product ID for reliable lookup
-                                const productKey = `${String(subscription.attributes.product_id)}_subscription_product`;
-                                const mapped = createdProductsMap.get(productKey);
-                                const mappedProductId: string | undefined = mapped?.productId;
-                                const mappedPriceId: string | undefined = mapped?.priceId;
-
-                                if (!mappedProductId) {
-                                    console.log(`[WARNING] No migrated product found for subscription: ${subscription.attributes.product_name}. Skipping.`);
-                                    subscriptionErrorCount++;
-                                    continue;
-                                }
-
-                                // Fetch customer data for billing address
-                                let customerData: any = {};
-                                try {
-                                    const customerResponse = await getCustomer(subscription.attributes.customer_id);
-                                    if (customerResponse.error || customerResponse.statusCode !== 200) {
-                                        console.log(`[WARNING] Failed to fetch customer data for ${subscription.attributes.user_email}, using fallback billing address`);
-                                    } else {
-                                        const attrs = customerResponse?.data?.data?.attributes || {};
-                                        customerData = {
-                                            city: (attrs as any).city,
-                                            country: (attrs as any).country,
-                                            region: (attrs as any).region,
-                                            address_line_1: (attrs as any).address_line_1 || (attrs as any).address,
-                                            postal_code: (attrs as any).postal_code || (attrs as any).zip
-                                        };
-                                    }
-                                } catch (error: any) {
-                                    console.log(`[WARNING] Error fetching customer data for ${subscription.attributes.user_email}: ${error.message || error}, using fallback billing address`);
-                                }
-
-                                // Transform subscription data
-                                const dodoSubscription = {
-                                    billing: {
-                                        city: customerData.city || 'Unknown',
-                                        country: customerData.country || 'US',
-                                        state: customerData.region || 'Unknown',
-                                        street: customerData.address_line_1 || customerData.address || 'Unknown',
-                                        zipcode: customerData.postal_code || customerData.zip || '00000'
-                                    },
-                                    customer: {
-                                        email: subscription.attributes.user_email,
-                                        name: subscription.attributes.user_name || subscription.attributes.user_email
-                                    },
-                                    product_id: mappedProductId,
-                                    quantity: 1,
-                                    ...(mappedPriceId && { price_id: mappedPriceId }),
-                                    metadata: {
-                                        lemon_squeezy_subscription_id: subscription.id,
-                                        lemon_squeezy_customer_id: String(subscription.attributes.customer_id),
-                                        original_status: subscription.attributes.status,
-                                        billing_anchor: String(subscription.attributes.billing_anchor)
-                                    }
-                                };
-
-                                try {
-                                    const created: any = await (client as any).subscriptions.create(dodoSubscription as any);
-                                    console.log(`[LOG] Subscription created: ${subscription.attributes.user_email} -> product ${mappedProductId} (Dodo subscription ID: ${created.subscription_id || 'unknown'})`);
-                                    subscriptionSuccessCount++;
-                                } catch (e: any) {
-                                    subscriptionErrorCount++;
-                                    console.log(`[ERROR] Failed to create subscription in Dodo for ${subscription.attributes.user_email}: ${e?.message || e}`);
-                                    continue;
-                                }
-
-                            } catch (error: any) {
-                                subscriptionErrorCount++;
-                                console.log(`[ERROR] Failed to migrate subscription: ${subscription.attributes.product_name}`);
-                                console.log(`[ERROR] Error details: ${error.message || error.toString()}`);
-                            }
-                        }
-
-                        console.log(`\n[LOG] Subscription migration completed! Success: ${subscriptionSuccessCount}, Errors: ${subscriptionErrorCount}`);
-                        if (subscriptionErrorCount > 0) {
-                            console.log(`[LOG] ${subscriptionErrorCount} subscription(s) failed to migrate. Check error messages above for details.`);
-                        }
-                    } else {
-                        console.log('[LOG] Subscription migration aborted by user');
-                    }
-                }
+function transformCustomers(customers: any[]): MigrationItem[] {
+    const customersToMigrate: MigrationItem[] = [];
 
-            } catch (error: any) {
-                console.log('[ERROR] Subscription migration failed:', error.message || error.toString());
-            }
+    for (const customer of customers) {
+        const attrs = customer.attributes;
+        // Email is required by Dodo Payments
+        if (!attrs.email) {
+            console.log(`[LOG] Skipping customer ${customer.id} - no email address`);
+            continue;
         }
 
-        // -----------------------------
-        // Coupons (Discounts) Migration
-        // -----------------------------
+        // Dodo Payments customers only have an email, name and phone number, the location can't be kept
+        const location = [attrs.city, attrs.region, attrs.country].filter(Boolean).join(', ');
+        customersToMigrate.push({
+            entity: 'customer',
+            source_id: String(customer.id),
+            label: `${attrs.name || 'Unnamed'} (${attrs.email})`,
+            ...(location ? { details: [`[WARN] City, region and country (${location}) are not migrated`] } : {}),
+            data: {
+                email: attrs.email,
+                name: attrs.name || attrs.email
+            }
+        });
+    }
 
-        console.log('\n[LOG] Fetching discounts (coupons) from Lemon Squeezy...');
-        const rawDiscounts: any[] = [];
-        {
-            let page = 1;
-            const size = 100;
-            while (true) {
-                const resp = await listDiscounts({ page: { number: page, size } } as any);
-                if (resp.error || resp.statusCode !== 200) {
-                    console.log('[ERROR] Failed to fetch discounts from Lemon Squeezy!\n', resp.error);
-                    process.exit(1);
-                }
-                const pageData = resp.data?.data || [];
-                rawDiscounts.push(...pageData);
-                const meta = resp.data?.meta as any;
-                const current = meta?.page?.currentPage ?? meta?.page?.current_page ?? page;
-                const last = meta?.page?.lastPage ?? meta?.page?.last_page ?? current;
-                if (current >= last || pageData.length < size) break;
-                page++;
+    return customersToMigrate;
+}
+
+interface DiscountRecord {
+    discount: any;
+    // Lemon Squeezy variants the discount is limited to (is_limited_to_products)
+    variant_ids: string[];
+    variants: Variant[];
+}
+
+// Discounts together with the variants they are limited to
+async function fetchDiscounts(): Promise<DiscountRecord[]> {
+    const discounts = await listAll(listDiscounts, 'discounts');
+
+    const records: DiscountRecord[] = [];
+    for (const discount of discounts) {
+        let variants: Variant[] = [];
+        if (discount.attributes.is_limited_to_products) {
+            const resp = await getDiscount(discount.id, { include: ['variants'] });
+            if (resp.error || resp.statusCode !== 200) {
+                throw new Error(`Failed to fetch the products discount ${discount.attributes.code} is limited to: ${resp.error?.message || resp.statusCode}`);
             }
+            variants = ((resp.data?.included || []) as any[]).filter(included => included.type === 'variants');
         }
-        console.log(`[LOG] Found ${rawDiscounts.length} discounts in Lemon Squeezy`);
+        records.push({ discount, variant_ids: variants.map(variant => String(variant.id)), variants });
+    }
+    return records;
+}
 
-        const publishedDiscounts = rawDiscounts.filter((d: any) => {
-            const status = d?.attributes?.status || d?.attributes?.state;
-            return status === 'active' || status === 'published' || status === 'enabled';
-        });
-        console.log(`[LOG] Considering ${publishedDiscounts.length} published/active discounts`);
+// Lemon Squeezy counts repeating discounts in months, Dodo Payments in billing cycles. A discount limited to
+// subscription variants covers the payments made in its first months, e.g. 1 yearly payment for 3 months.
+function repeatingCycles(months: number, variants: Variant[]): { count: number, details: string[] } {
+    const cycleMonths = [...new Set(variants
+        .filter(variant => variant.attributes.is_subscription && (variant.attributes.interval === 'month' || variant.attributes.interval === 'year'))
+        .map(variant => (variant.attributes.interval === 'year' ? 12 : 1) * (variant.attributes.interval_count || 1)))]
+        .sort((a, b) => a - b);
+
+    if (cycleMonths.length === 0) {
+        return {
+            count: months,
+            details: [
+                `Applies to the first ${months} subscription payments`,
+                `[WARN] Lasts ${months} months in Lemon Squeezy, on subscriptions that don't renew monthly it covers ${months} billing cycles instead`
+            ]
+        };
+    }
+
+    // With several billing periods the shortest one decides, the discount lasts longer on the others
+    const count = Math.ceil(months / cycleMonths[0]);
+    const details = [`Applies to the first ${count} subscription payments (${months} months of ${cycleMonths[0]}-month billing cycles)`];
+    if (cycleMonths.length > 1) {
+        details.push(`[WARN] The restricted products renew every ${cycleMonths.join(', ')} months, the discount covers ${count} billing cycles on each of them`);
+    }
+    return { count, details };
+}
+
+async function transformDiscounts(records: DiscountRecord[], ctx: MigrationContext<LemonSqueezySource>): Promise<MigrationItem[]> {
+    const { brand_id } = ctx;
+    const discountsToMigrate: MigrationItem[] = [];
 
-        if (publishedDiscounts.length === 0) {
-            console.log('[LOG] No eligible discounts (coupons) to migrate.');
-            return;
+    for (const { discount, variant_ids, variants } of records) {
+        const attrs = discount.attributes;
+        const label = `${attrs.name || attrs.code} (${attrs.code})`;
+        if (attrs.status !== 'published') {
+            skipRecord(ctx, { entity: 'discount', source_id: discount.id, label, reason: 'the discount is not published' });
+            continue;
+        }
+        if (attrs.expires_at && new Date(attrs.expires_at) < new Date()) {
+            skipRecord(ctx, { entity: 'discount', source_id: discount.id, label, reason: 'the discount has expired' });
+            continue;
         }
 
-        console.log('\n[LOG] These are the coupons to be migrated:');
-        publishedDiscounts.forEach((c, index) => {
-            const attrs = c?.attributes || {};
-            const discountType = (attrs.discount_type || attrs.type || '').toString();
-            const isPercentage = discountType.includes('percent');
-            const amount = Number(attrs.amount) || 0;
+        if (attrs.is_limited_to_products && variant_ids.length === 0) {
+            skipRecord(ctx, { entity: 'discount', source_id: discount.id, label, reason: 'the discount is limited to products that no longer exist' });
+            continue;
+        }
 
-            if (isPercentage) {
-                console.log(`${index + 1}. ${attrs.code || attrs.name} - ${amount}% off`);
-            } else {
-                console.log(`${index + 1}. ${attrs.code || attrs.name} - ${(amount / 100).toFixed(2)} off`);
-            }
-        });
+        const details: string[] = [];
+        // Fields shared by percentage and converted fixed amount discounts
+        const data: Record<string, any> = {
+            usage_limit: attrs.is_limited_redemptions && attrs.max_redemptions ? attrs.max_redemptions : null,
+            expires_at: attrs.expires_at || null
+        };
 
-        const migrateCoupons = await select({
-            message: 'Proceed to migrate these coupons to Dodo Payments?',
-            choices: [
-                { name: 'Yes', value: 'yes' },
-                { name: 'No', value: 'no' }
-            ],
-        });
+        // once: first payment only, repeating: the first duration_in_months payments, forever: every payment
+        if (attrs.duration === 'once') {
+            data.subscription_cycles = 1;
+            details.push('Applies to the first subscription payment only');
+        } else if (attrs.duration === 'repeating') {
+            const cycles = repeatingCycles(attrs.duration_in_months, variants);
+            data.subscription_cycles = cycles.count;
+            details.push(...cycles.details);
+        }
 
-        if (migrateCoupons === 'yes') {
-            console.log('\n[LOG] Coupon migration simulated - Dodo Payments coupon API not yet available');
-            for (const c of publishedDiscounts) {
-                console.log(`[LOG] Coupon migration simulated for: ${c.attributes?.code || c.attributes?.name}`);
-            }
-            console.log('\n[LOG] All coupons processed.');
+        // Limited discounts are restricted to the Dodo products migrated from the same Lemon Squeezy variants
+        let refs: Record<string, EntityRef> = {};
+        if (attrs.is_limited_to_products) {
+            refs = restrictionRefs(variant_ids);
+            details.push(`Restricted to ${variant_ids.length} products (Lemon Squeezy variant IDs: ${variant_ids.join(', ')})`);
+        }
+        if (attrs.starts_at && new Date(attrs.starts_at) > new Date()) {
+            details.push(`[WARN] Starts on ${attrs.starts_at} in Lemon Squeezy, the Dodo Payments discount can be used right away`);
+        }
+
+        let item: MigrationItem | undefined;
+        if (attrs.amount_type === 'percent') {
+            // Note: Lemon Squeezy stores percentages as integers (15 for 15%), Dodo expects basis points (1500)
+            item = {
+                entity: 'discount',
+                source_id: discount.id,
+                label: `${label} - ${attrs.amount}% discount`,
+                data: {
+                    code: attrs.code,
+                    name: attrs.name || attrs.code,
+                    type: 'percentage',
+                    amount: attrs.amount * 100,
+                    brand_id: brand_id
+                }
+            };
         } else {
-            console.log('[LOG] Coupon migration aborted by user');
+            // Fixed amount discounts are handled according to --fixed-discount-strategy
+            item = await handleFixedDiscount({
+                source_id: discount.id,
+                code: attrs.code,
+                name: attrs.name || attrs.code,
+                amount: attrs.amount,
+                currency: await getStoreCurrency(ctx.source, attrs.store_id),
+                usage_limit: data.usage_limit,
+                expires_at: data.expires_at,
+                brand_id
+            }, ctx);
         }
+        if (!item) continue;
+
+        discountsToMigrate.push(withDiscountFields(item, data, details, refs));
     }
-}
\ No newline at end of file
+
+    return discountsToMigrate;
+}
+
+interface LicenseKeyRecord {
+    key: any;
+    // Variant of the order item the key was issued for, the Dodo product is migrated from it
+    variant_id?: string;
+}
+
+// License keys together with the variant they were issued for
+async function fetchLicenseKeys(): Promise<LicenseKeyRecord[]> {
+    const keys = await listAll(listLicenseKeys, 'license keys');
+    const orderItems = await listAll(listOrderItems, 'order items');
+
+    const variantByOrderItem = new Map<string, string>(orderItems.map(item => [String(item.id), String(item.attributes.variant_id)]));
+    return keys.map(key => ({ key, variant_id: variantByOrderItem.get(String(key.attributes.order_item_id)) }));
+}
+
+const LICENSE_KEY_COLUMNS = [
+    'lemon_squeezy_license_key_id', 'key', 'status', 'activation_limit', 'instances_count', 'expires_at', 'disabled',
+    'customer_email', 'customer_name', 'dodo_customer_id', 'lemon_squeezy_variant_id', 'dodo_product_id'
+] as const;
+
+// Dodo Payments has no API to create license keys, so every key is exported together with the Dodo customer and
+// product it belongs to. Nothing is created, each key is listed in the unmigrated report instead.
+// Dry runs and plans don't write anything, the export is left to the run that migrates.
+async function transformLicenseKeys(records: LicenseKeyRecord[], ctx: MigrationContext<LemonSqueezySource>): Promise<MigrationItem[]> {
+    const path: string = ctx.argv['license-key-export'] || 'license-keys.csv';
+
+    for (const { key, variant_id } of records) {
+        const attrs = key.attributes;
+        const dodo_customer_id = await findExisting({
+            entity: 'customer',
+            source_id: String(attrs.customer_id),
+            label: attrs.user_email,
+            data: { email: attrs.user_email }
+        }, ctx);
+        const dodo_product_id = variant_id ? ctx.mappings.get('product', variant_id) : undefined;
+
+        const row = {
+            lemon_squeezy_license_key_id: key.id,
+            key: attrs.key,
+            status: attrs.status,
+            activation_limit: attrs.activation_limit,
+            instances_count: attrs.instances_count,
+            expires_at: attrs.expires_at,
+            // Lemon Squeezy reports disabled as 0 or 1
+            disabled: Boolean(attrs.disabled),
+            customer_email: attrs.user_email,
+            customer_name: attrs.user_name,
+            dodo_customer_id,
+            lemon_squeezy_variant_id: variant_id,
+            dodo_product_id
+        };
+        if (!ctx.dryRun) {
+            exportCsvRow(path, [...LICENSE_KEY_COLUMNS], row);
+        }
+
+        const missing = [!dodo_customer_id && 'customer', !dodo_product_id && 'product'].filter(Boolean);
+        skipRecord(ctx, {
+            entity: 'license_key',
+            source_id: key.id,
+            label: `${attrs.key_short} - ${attrs.user_email} (${attrs.status})`,
+            reason: `Dodo Payments has no API to import license keys, ${ctx.dryRun ? 'a migration run without --dry-run exports it' : 'exported'} to ${path}${missing.length > 0 ? ` without a migrated ${missing.join(' and ')}` : ''}`
+        });
+    }
+
+    return [];
+}
@@ -0,0 +1,209 @@
+import { afterAll, beforeAll, expect, setSystemTime, test } from 'bun:test';
+import { FixtureServer, testContext } from '../../../test/testing';
+import { PaddleProvider, PaddleSource } from './index';
+import { servePaddleMock } from '../../../test/paddle-mock';
+
+const type = (value: string) => PaddleProvider.types.find(type => type.value === value)!;
+
+let server: FixtureServer;
+
+beforeAll(async () => {
+    // Trials, expiry dates and the next billing dates in the fixtures are relative to this day
+    setSystemTime(new Date('2025-06-01T09:00:00.000Z'));
+    server = await servePaddleMock();
+});
+
+afterAll(async () => {
+    setSystemTime();
+    await server.close();
+});
+
+async function connect(): Promise<PaddleSource> {
+    return PaddleProvider.connect('pdl_sdbx_apikey_test', { 'paddle-api-url': server.url }, false);
+}
+
+test('connects to --paddle-api-url with the API key and version header', async () => {
+    await connect();
+    const request = server.requests.find(request => request.path === '/products?per_page=1')!;
+    expect(request.headers.authorization).toBe('Bearer pdl_sdbx_apikey_test');
+    expect(request.headers['paddle-version']).toBe('1');
+});
+
+test('follows next page links until has_more is false', async () => {
+    const ctx = testContext(await connect());
+    const products = await type('products').fetch(ctx);
+    expect(products.map(product => product.id)).toEqual(['pro_01team', 'pro_02onboarding', 'pro_03legacy', 'pro_04support']);
+    expect(server.requests.some(request => request.path === '/products?per_page=200&status=active&include=prices')).toBe(true);
+    expect(server.requests.some(request => request.path === '/products?after=pro_02onboarding')).toBe(true);
+    expect(type('products').count!(products)).toEqual({ products: 4, prices: 4 });
+});
+
+test('creates one Dodo product per active price', async () => {
+    const ctx = testContext(await connect());
+    const items = await type('products').transform(await type('products').fetch(ctx), ctx);
+    expect(items.map(item => item.source_id)).toEqual(['pri_01teammonthly', 'pri_01teamyearly', 'pri_02onboarding', 'pri_04support']);
+
+    const [monthly, yearly, onboarding, support] = items;
+    // Products with several prices get the price name
+    expect(monthly.data.name).toBe('Team Plan – Monthly');
+    expect(monthly.data.metadata).toEqual({ paddle_price_id: 'pri_01teammonthly', paddle_product_id: 'pro_01team', migrated_from: 'paddle' });
+    expect(monthly.data.price).toMatchObject({
+        currency: 'USD',
+        price: 1000,
+        type: 'recurring_price',
+        billing_period: 'monthly',
+        payment_frequency_interval: 'Month',
+        payment_frequency_count: 1,
+        subscription_period_interval: 'Month',
+        subscription_period_count: 240,
+        trial_period_days: 14
+    });
+    expect(yearly.data.name).toBe('Team Plan – Yearly');
+    expect(yearly.data.price).toMatchObject({ price: 10000, billing_period: 'yearly', payment_frequency_interval: 'Year', trial_period_days: 30 });
+
+    expect(onboarding.data.name).toBe('Onboarding Session');
+    expect(onboarding.data.tax_category).toBe('edtech');
+    expect(onboarding.data.price).toEqual({ currency: 'USD', price: 5000, discount: 0, purchasing_power_parity: false, type: 'one_time_price' });
+    expect(onboarding.details).toContain('[WARN] 1 country specific price overrides are not migrated');
+
+    expect(support.data.tax_category).toBe('saas');
+    expect(support.details).toContain('[WARN] Paddle tax category "standard" has no Dodo Payments equivalent, saas is used');
+    expect(support.data.price).toMatchObject({ currency: 'EUR', payment_frequency_interval: 'Week', payment_frequency_count: 2, subscription_period_count: 1040 });
+    expect(support.data.price.billing_period).toBeUndefined();
+});
+
+test('converts trials to days and flags month and year trials', async () => {
+    const ctx = testContext(await connect());
+    const [monthly, yearly] = await type('products').transform(await type('products').fetch(ctx), ctx);
+    expect(monthly.label).toBe('Team Plan – Monthly - USD 10.00 (Subscription, every month, 14 day trial)');
+    expect(monthly.details!.some(detail => detail.includes('trial'))).toBe(false);
+    expect(yearly.details).toContain('[WARN] The 1-month trial becomes a 30 day trial');
+});
+
+test('transforms percentage discounts restricted to a product', async () => {
+    const ctx = testContext(await connect());
+    const items = await type('discounts').transform(await type('discounts').fetch(ctx), ctx);
+    expect(items.map(item => item.source_id)).toEqual(['dsc_01percent', 'dsc_03nocode']);
+
+    const [percent, noCode] = items;
+    // 12.5% in basis points, limited to the remaining uses and three payments
+    expect(percent.data).toEqual({
+        code: 'TEAM125',
+        name: 'Team launch offer',
+        type: 'percentage',
+        amount: 1250,
+        brand_id: 'brand_test',
+        usage_limit: 30,
+        expires_at: null,
+        subscription_cycles: 3,
+        restricted_to: []
+    });
+    // A product restriction covers every active price of the product
+    expect(percent.refs).toEqual({
+        'restricted_to.0': { entity: 'product', source_id: 'pri_01teammonthly' },
+        'restricted_to.1': { entity: 'product', source_id: 'pri_01teamyearly' }
+    });
+
+    expect(noCode.data).toMatchObject({ code: 'dsc_03nocode', name: 'dsc_03nocode', amount: 2000, usage_limit: null });
+    expect(noCode.data.subscription_cycles).toBeUndefined();
+    expect(noCode.refs).toBeUndefined();
+    expect(noCode.details).toContain('No code in Paddle, the discount ID is used as the Dodo Payments discount code');
+
+    expect(ctx.unmigrated.map(record => [record.source_id, record.reason])).toEqual([
+        ['dsc_02flat', 'Dodo Payments only supports percentage discounts, not fixed amount discounts'],
+        ['dsc_04seat', 'Dodo Payments only supports percentage discounts, not fixed amount discounts'],
+        ['dsc_05expired', 'the discount has expired'],
+        ['dsc_06custom', 'custom discounts only apply to the transaction or subscription they were created for'],
+        ['dsc_07usedup', 'the discount is used up'],
+        ['dsc_08legacy', 'the discount is restricted to products without active prices']
+    ]);
+});
+
+test('converts flat discounts restricted to a price with --fixed-discount-strategy=convert-to-percentage', async () => {
+    const ctx = testContext(await connect(), { 'fixed-discount-strategy': 'convert-to-percentage', 'fixed-discount-reference-price': 50 });
+    const items = await type('discounts').transform(await type('discounts').fetch(ctx), ctx);
+
+    const flat = items.find(item => item.source_id === 'dsc_02flat')!;
+    expect(flat.data).toMatchObject({
+        code: 'ONBOARD10',
+        type: 'percentage',
+        amount: 2000,
+        usage_limit: null,
+        expires_at: '2099-12-31T23:59:59.000Z',
+        subscription_cycles: 1,
+        restricted_to: []
+    });
+    expect(flat.refs).toEqual({ 'restricted_to.0': { entity: 'product', source_id: 'pri_02onboarding' } });
+
+    const seat = items.find(item => item.source_id === 'dsc_04seat')!;
+    expect(seat.data.amount).toBe(400);
+    expect(seat.details).toContain('[WARN] Applied per seat in Paddle, Dodo Payments applies it once per order');
+});
+
+test('sends customers with the fields Dodo accepts and lists their addresses and businesses as not migrated', async () => {
+    const ctx = testContext(await connect());
+    const records = await type('customers').fetch(ctx);
+    expect(server.requests.some(request => request.path === '/customers/ctm_01ada/addresses?per_page=200&status=active')).toBe(true);
+
+    const [ada, bob] = await type('customers').transform(records, ctx);
+    expect(ada.data).toEqual({ email: 'ada@example.com', name: 'Ada Lovelace' });
+    expect(ada.details).toEqual([
+        '[WARN] Address 12 Analytical Row, Floor 3, London, Greater London, EC1A 1BB, GB is not migrated',
+        '[WARN] Address 1 Engine Lane, Bath, BA1 1AA, GB is not migrated',
+        '[WARN] Business Difference Engines Ltd (tax ID GB123456789) is not migrated'
+    ]);
+
+    expect(bob.data).toEqual({ email: 'bob@example.com', name: 'bob@example.com' });
+    expect(bob.details).toBeUndefined();
+});
+
+test('creates one Dodo subscription per recurring subscription item', async () => {
+    const ctx = testContext(await connect());
+    const records = await type('subscriptions').fetch(ctx);
+    expect(server.requests.some(request => request.path === '/subscriptions?per_page=200&status=active%2Ctrialing%2Cpast_due')).toBe(true);
+
+    const items = await type('subscriptions').transform(records, ctx);
+    // The one-time onboarding item was billed already
+    expect(items.map(item => item.source_id)).toEqual(['sub_01ada:pri_01teammonthly', 'sub_01ada:pri_04support', 'sub_02bob:pri_01teammonthly']);
+
+    const [seats, support, trial] = items;
+    expect(seats.refs).toEqual({ product_id: { entity: 'product', source_id: 'pri_01teammonthly' } });
+    expect(seats.data).toMatchObject({
+        billing: { street: '12 Analytical Row, Floor 3', city: 'London', state: 'Greater London', zipcode: 'EC1A 1BB', country: 'GB' },
+        customer: { email: 'ada@example.com', name: 'Ada Lovelace' },
+        quantity: 5,
+        // The trial ended before the migration
+        trial_period_days: 0,
+        tax_id: 'GB123456789',
+        metadata: {
+            paddle_subscription_id: 'sub_01ada',
+            paddle_subscription_item_id: 'sub_01ada:pri_01teammonthly',
+            paddle_customer_id: 'ctm_01ada',
+            paddle_price_id: 'pri_01teammonthly',
+            paddle_product_id: 'pro_01team',
+            paddle_business_id: 'biz_01engines',
+            original_status: 'active',
+            migrated_from: 'paddle'
+        }
+    });
+    expect(seats.after_create).toEqual({ next_billing_date: '2025-06-03T09:00:00.000Z' });
+    expect(seats.details).toContain('[WARN] Discount dsc_01percent applied in Paddle is not carried over');
+
+    expect(support.refs!.product_id.source_id).toBe('pri_04support');
+    expect(support.data.quantity).toBe(1);
+
+    // Trialing subscriptions keep the rest of their trial, scheduled cancellations end at the next billing date
+    expect(trial.data.trial_period_days).toBe(7);
+    expect(trial.data.billing).toEqual({ city: 'Unknown', country: 'US', state: 'Unknown', street: 'Unknown', zipcode: '00000' });
+    expect(trial.data.tax_id).toBeUndefined();
+    expect(trial.details).toContain('[WARN] The subscription has no billing address in Paddle, a placeholder address will be used');
+    expect(trial.after_create).toEqual({ next_billing_date: '2025-06-08T09:00:00.000Z', cancel_at_next_billing_date: true });
+});
+
+test('subscriptions reuse the Dodo customer migrated from the Paddle customer', async () => {
+    const ctx = testContext(await connect());
+    ctx.mappings.set('customer', 'ctm_01ada', 'cus_ada');
+    const items = await type('subscriptions').transform(await type('subscriptions').fetch(ctx), ctx);
+    expect(items[0].data.customer).toEqual({ customer_id: 'cus_ada' });
+    expect(items[2].data.customer).toEqual({ email: 'bob@example.com', name: 'bob@example.com' });
+});
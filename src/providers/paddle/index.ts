@@ -0,0 +1,492 @@
+import { createCommand } from '../../core/command';
+import { fixedDiscountOptions, handleFixedDiscount, restrictionRefs, withDiscountFields } from '../../core/discounts';
+import { skipRecord } from '../../core/engine';
+import { createRestClient } from '../../core/http';
+import { evergreenPeriodCount, trialPeriodDays } from '../../core/products';
+import { billingAddress, subscriptionCustomer, trialDaysLeft } from '../../core/subscriptions';
+import { EntityRef, MigrationContext, MigrationItem, SourceProvider } from '../../core/types';
+
+const PADDLE_API_URL = 'https://api.paddle.com';
+const PADDLE_SANDBOX_API_URL = 'https://sandbox-api.paddle.com';
+
+// Paddle Billing has no SDK dependency here, the source is the shared REST client with a per-run product cache
+export interface PaddleSource {
+    get: (path: string, params?: Record<string, string>) => Promise<any>;
+    list: (path: string, params?: Record<string, string>) => Promise<any[]>;
+    products?: Promise<any[]>;
+}
+
+// The base URL can point at a local mock of the Paddle API
+export function createPaddleClient(apiKey: string, baseUrl: string): PaddleSource {
+    const client = createRestClient({
+        name: 'Paddle',
+        baseUrl,
+        headers: () => ({ Authorization: `Bearer ${apiKey}`, 'Paddle-Version': '1' }),
+        error: body => body.error?.detail
+    });
+
+    return {
+        get: async (path, params = {}) => (await client.get(path, params)).data,
+        // Paddle returns the URL of the next page until has_more is false
+        list: async (path, params = {}) => {
+            const items: any[] = [];
+            let body = await client.get(path, { per_page: '200', ...params });
+            items.push(...(body.data || []));
+            while (body.meta?.pagination?.has_more) {
+                body = await client.getUrl(body.meta.pagination.next);
+                items.push(...(body.data || []));
+            }
+            return items;
+        }
+    };
+}
+
+export const PaddleProvider: SourceProvider<PaddleSource> = {
+    command: 'paddle',
+    name: 'Paddle',
+    apiKeyDescription: 'Paddle Billing API Key',
+    apiKeyPrompt: 'Enter your Paddle Billing API Key (pdl_...):',
+    options: {
+        ...fixedDiscountOptions,
+        'paddle-api-url': {
+            describe: 'Paddle API base URL, defaults to the sandbox or live API matching the API key',
+            type: 'string',
+            demandOption: false
+        }
+    },
+    connect: async (apiKey, argv) => {
+        // Sandbox API keys only work against the sandbox API
+        const baseUrl = argv['paddle-api-url'] || (apiKey.includes('_sdbx_') ? PADDLE_SANDBOX_API_URL : PADDLE_API_URL);
+        const client = createPaddleClient(apiKey, baseUrl);
+        await client.get('/products', { per_page: '1' });
+        return client;
+    },
+    types: [
+        {
+            value: 'products',
+            name: 'Products',
+            checked: true,
+            fetch: ({ source }) => fetchProducts(source),
+            count: (products) => ({
+                products: products.length,
+                prices: products.reduce((total, product) => total + activePrices(product).length, 0)
+            }),
+            transform: transformProducts
+        },
+        {
+            value: 'discounts',
+            name: 'Discounts',
+            checked: true,
+            fetch: ({ source }) => source.list('/discounts', { status: 'active' }),
+            transform: transformDiscounts
+        },
+        {
+            value: 'customers',
+            name: 'Customers',
+            checked: false,
+            fetch: fetchCustomers,
+            transform: transformCustomers
+        },
+        {
+            value: 'subscriptions',
+            name: 'Subscriptions',
+            checked: false,
+            fetch: fetchSubscriptions,
+            transform: transformSubscriptions
+        }
+    ]
+};
+
+export default createCommand(PaddleProvider);
+
+// Active products with their prices, needed by products and discounts so they are fetched once per run
+function fetchProducts(source: PaddleSource): Promise<any[]> {
+    source.products ??= source.list('/products', { status: 'active', include: 'prices' });
+    return source.products;
+}
+
+function activePrices(product: any): any[] {
+    return (product.prices || []).filter((price: any) => price.status === 'active');
+}
+
+const INTERVALS: Record<string, 'Day' | 'Week' | 'Month' | 'Year'> = {
+    day: 'Day',
+    week: 'Week',
+    month: 'Month',
+    year: 'Year'
+};
+
+// Paddle tax categories and the closest Dodo Payments tax category
+const TAX_CATEGORIES: Record<string, string> = {
+    'saas': 'saas',
+    'digital-goods': 'digital_products',
+    'ebooks': 'e_book',
+    'training-services': 'edtech'
+};
+
+function transformProducts(products: any[], { brand_id }: MigrationContext<PaddleSource>): MigrationItem[] {
+    const productsToMigrate: MigrationItem[] = [];
+
+    for (const product of products) {
+        const prices = activePrices(product);
+        if (prices.length === 0) {
+            console.log(`[LOG] Skipping product ${product.name} - no active prices found`);
+            continue;
+        }
+
+        const tax_category = TAX_CATEGORIES[product.tax_category] || 'saas';
+        for (const price of prices) {
+            // Products with several prices get the price name, so the Dodo products can be told apart
+            const name = prices.length > 1 && price.name ? `${product.name} – ${price.name}` : product.name;
+            const currency = price.unit_price.currency_code;
+            const amount = `${currency} ${(Number(price.unit_price.amount) / 100).toFixed(2)}`;
+
+            const details: string[] = [`Paddle IDs: ${product.id} / ${price.id}`];
+            if (!TAX_CATEGORIES[product.tax_category]) {
+                details.push(`[WARN] Paddle tax category "${product.tax_category}" has no Dodo Payments equivalent, saas is used`);
+            }
+            if (price.unit_price_overrides?.length > 0) {
+                details.push(`[WARN] ${price.unit_price_overrides.length} country specific price overrides are not migrated`);
+            }
+
+            const base = {
+                name,
+                description: product.description || '',
+                tax_category,
+                brand_id,
+                metadata: {
+                    paddle_price_id: price.id,
+                    paddle_product_id: product.id,
+                    migrated_from: 'paddle'
+                }
+            };
+
+            if (price.billing_cycle) {
+                const interval = INTERVALS[price.billing_cycle.interval];
+                const count = price.billing_cycle.frequency || 1;
+                const trial = price.trial_period ? {
+                    days: trialPeriodDays(price.trial_period.interval, price.trial_period.frequency),
+                    description: `${price.trial_period.frequency}-${price.trial_period.interval}`
+                } : undefined;
+                if (trial && ['month', 'year'].includes(price.trial_period.interval)) {
+                    details.push(`[WARN] The ${trial.description} trial becomes a ${trial.days} day trial`);
+                }
+
+                productsToMigrate.push({
+                    entity: 'product',
+                    source_id: price.id,
+                    metadata_key: 'paddle_price_id',
+                    label: `${name} - ${amount} (Subscription, every ${count > 1 ? `${count} ${price.billing_cycle.interval}s` : price.billing_cycle.interval}${trial ? `, ${trial.days} day trial` : ''})`,
+                    details,
+                    data: {
+                        ...base,
+                        price: {
+                            currency,
+                            price: Number(price.unit_price.amount),
+                            discount: 0,
+                            purchasing_power_parity: false,
+                            type: 'recurring_price',
+                            ...(interval === 'Month' || interval === 'Year' ? { billing_period: interval === 'Month' ? 'monthly' : 'yearly' } : {}),
+                            payment_frequency_interval: interval,
+                            payment_frequency_count: count,
+                            subscription_period_interval: interval,
+                            subscription_period_count: evergreenPeriodCount(interval),
+                            ...(trial ? { trial_period_days: trial.days } : {})
+                        }
+                    }
+                });
+            } else {
+                productsToMigrate.push({
+                    entity: 'product',
+                    source_id: price.id,
+                    metadata_key: 'paddle_price_id',
+                    label: `${name} - ${amount} (One Time)`,
+                    details,
+                    data: {
+                        ...base,
+                        price: {
+                            currency,
+                            price: Number(price.unit_price.amount),
+                            discount: 0,
+                            purchasing_power_parity: false,
+                            type: 'one_time_price'
+                        }
+                    }
+                });
+            }
+        }
+    }
+
+    return productsToMigrate;
+}
+
+async function transformDiscounts(discounts: any[], ctx: MigrationContext<PaddleSource>): Promise<MigrationItem[]> {
+    const { brand_id } = ctx;
+    const discountsToMigrate: MigrationItem[] = [];
+
+    // Discounts can be restricted to products (pro_) and prices (pri_), every Dodo product is a single Paddle price
+    const productPrices = new Map<string, string[]>();
+    if (discounts.some(discount => discount.restrict_to?.length > 0)) {
+        for (const product of await fetchProducts(ctx.source)) {
+            productPrices.set(product.id, activePrices(product).map(price => price.id));
+        }
+    }
+
+    for (const discount of discounts) {
+        const code: string = discount.code || discount.id;
+        const name: string = discount.description || code;
+        const label = `${name} (${code})`;
+        if (discount.mode === 'custom') {
+            skipRecord(ctx, { entity: 'discount', source_id: discount.id, label, reason: 'custom discounts only apply to the transaction or subscription they were created for' });
+            continue;
+        }
+        if (discount.expires_at && new Date(discount.expires_at) < new Date()) {
+            skipRecord(ctx, { entity: 'discount', source_id: discount.id, label, reason: 'the discount has expired' });
+            continue;
+        }
+
+        const details: string[] = [];
+        if (!discount.code) {
+            details.push('No code in Paddle, the discount ID is used as the Dodo Payments discount code');
+        }
+
+        // Dodo counts redemptions from zero, carry over only what is left
+        const data: Record<string, any> = {
+            usage_limit: discount.usage_limit ? discount.usage_limit - (discount.times_used || 0) : null,
+            expires_at: discount.expires_at || null
+        };
+        if (data.usage_limit !== null && data.usage_limit <= 0) {
+            skipRecord(ctx, { entity: 'discount', source_id: discount.id, label, reason: 'the discount is used up' });
+            continue;
+        }
+
+        // Non-recurring discounts apply to the first payment, recurring ones to every payment or a maximum number of them
+        if (!discount.recur) {
+            data.subscription_cycles = 1;
+            details.push('Applies to the first subscription payment only');
+        } else if (discount.maximum_recurring_intervals) {
+            data.subscription_cycles = discount.maximum_recurring_intervals;
+            details.push(`Applies to the first ${discount.maximum_recurring_intervals} subscription payments`);
+        }
+
+        // Restricted discounts are restricted to the Dodo products migrated from the same Paddle prices
+        let refs: Record<string, EntityRef> = {};
+        if (discount.restrict_to?.length > 0) {
+            const priceIds: string[] = discount.restrict_to.flatMap((id: string) => id.startsWith('pro_') ? productPrices.get(id) || [] : [id]);
+            if (priceIds.length === 0) {
+                skipRecord(ctx, { entity: 'discount', source_id: discount.id, label, reason: 'the discount is restricted to products without active prices' });
+                continue;
+            }
+            refs = restrictionRefs(priceIds);
+            details.push(`Restricted to ${priceIds.length} products (Paddle price IDs: ${priceIds.join(', ')})`);
+        }
+
+        let item: MigrationItem | undefined;
+        if (discount.type === 'percentage') {
+            // Paddle stores percentages as decimal strings ("10.5" for 10.5%), Dodo expects basis points (1050)
+            const percent = parseFloat(discount.amount);
+            item = {
+                entity: 'discount',
+                source_id: discount.id,
+                label: `${label} - ${percent}% discount`,
+                data: {
+                    code,
+                    name,
+                    type: 'percentage',
+                    amount: Math.round(percent * 100),
+                    brand_id
+                }
+            };
+        } else {
+            if (discount.type === 'flat_per_seat') {
+                details.push('[WARN] Applied per seat in Paddle, Dodo Payments applies it once per order');
+            }
+            // Flat discounts are handled according to --fixed-discount-strategy
+            item = await handleFixedDiscount({
+                source_id: discount.id,
+                code,
+                name,
+                amount: Number(discount.amount),
+                currency: discount.currency_code || 'USD',
+                usage_limit: data.usage_limit,
+                expires_at: data.expires_at,
+                brand_id
+            }, ctx);
+        }
+        if (!item) continue;
+
+        discountsToMigrate.push(withDiscountFields(item, data, details, refs));
+    }
+
+    return discountsToMigrate;
+}
+
+interface CustomerRecord {
+    customer: any;
+    // Active addresses and businesses of the customer
+    addresses: any[];
+    businesses: any[];
+}
+
+async function fetchCustomers({ source }: MigrationContext<PaddleSource>): Promise<CustomerRecord[]> {
+    const customers = await source.list('/customers', { status: 'active' });
+
+    const records: CustomerRecord[] = [];
+    for (const customer of customers) {
+        records.push({
+            customer,
+            addresses: await source.list(`/customers/${customer.id}/addresses`, { status: 'active' }),
+            businesses: await source.list(`/customers/${customer.id}/businesses`, { status: 'active' })
+        });
+    }
+    return records;
+}
+
+function transformCustomers(records: CustomerRecord[]): MigrationItem[] {
+    const customersToMigrate: MigrationItem[] = [];
+
+    for (const { customer, addresses, businesses } of records) {
+        if (!customer.email) {
+            console.log(`[LOG] Skipping customer ${customer.id} - no email address`);
+            continue;
+        }
+
+        // Dodo Payments customers only have an email, name and phone number, addresses and businesses can't be kept
+        const details = [
+            ...addresses.map(address => `[WARN] Address ${[address.first_line, address.second_line, address.city, address.region, address.postal_code, address.country_code].filter(Boolean).join(', ')} is not migrated`),
+            ...businesses.map(business => `[WARN] Business ${business.name}${business.tax_identifier ? ` (tax ID ${business.tax_identifier})` : ''} is not migrated`)
+        ];
+
+        customersToMigrate.push({
+            entity: 'customer',
+            source_id: customer.id,
+            label: `${customer.name || 'Unnamed'} (${customer.email})`,
+            ...(details.length > 0 ? { details } : {}),
+            data: {
+                email: customer.email,
+                name: customer.name || customer.email
+            }
+        });
+    }
+
+    return customersToMigrate;
+}
+
+interface SubscriptionRecord {
+    subscription: any;
+    customer: any;
+    address?: any;
+    business?: any;
+}
+
+// Subscription statuses that are still billing, or will be once the trial or the retries end
+const MIGRATED_SUBSCRIPTION_STATUSES = ['active', 'trialing', 'past_due'];
+
+// Subscriptions with the customer, address and business they are billed to
+async function fetchSubscriptions({ source }: MigrationContext<PaddleSource>): Promise<SubscriptionRecord[]> {
+    const subscriptions = await source.list('/subscriptions', { status: MIGRATED_SUBSCRIPTION_STATUSES.join(',') });
+    console.log(`[LOG] ${subscriptions.length} subscriptions are active, trialing or past due`);
+
+    // Customers often have several subscriptions, look each one up once
+    const customers = new Map<string, Promise<any>>();
+    const records: SubscriptionRecord[] = [];
+    for (const subscription of subscriptions) {
+        if (!customers.has(subscription.customer_id)) {
+            customers.set(subscription.customer_id, source.get(`/customers/${subscription.customer_id}`));
+        }
+        records.push({
+            subscription,
+            customer: await customers.get(subscription.customer_id),
+            address: subscription.address_id
+                ? await source.get(`/customers/${subscription.customer_id}/addresses/${subscription.address_id}`)
+                : undefined,
+            business: subscription.business_id
+                ? await source.get(`/customers/${subscription.customer_id}/businesses/${subscription.business_id}`)
+                : undefined
+        });
+    }
+    return records;
+}
+
+// One Dodo subscription per recurring subscription item, since a Dodo subscription belongs to a single product
+async function transformSubscriptions(records: SubscriptionRecord[], ctx: MigrationContext<PaddleSource>): Promise<MigrationItem[]> {
+    const subscriptionsToMigrate: MigrationItem[] = [];
+
+    for (const { subscription, customer, address, business } of records) {
+        if (!customer?.email) {
+            console.log(`[LOG] Skipping subscription ${subscription.id} - the customer has no email address`);
+            continue;
+        }
+
+        const details: string[] = [];
+        if (!address?.country_code) {
+            details.push('[WARN] The subscription has no billing address in Paddle, a placeholder address will be used');
+        }
+        if (subscription.discount) {
+            details.push(`[WARN] Discount ${subscription.discount.id} applied in Paddle is not carried over`);
+        }
+        if (subscription.scheduled_change?.action === 'pause') {
+            details.push(`[WARN] Scheduled to pause on ${subscription.scheduled_change.effective_at} in Paddle, not carried over`);
+        }
+        const cancelling = subscription.scheduled_change?.action === 'cancel';
+        if (cancelling) {
+            details.push('Scheduled to cancel in Paddle, ends at the next billing date');
+        }
+        const next_billed_at = subscription.next_billed_at || subscription.current_billing_period?.ends_at;
+
+        const dodoCustomer = await subscriptionCustomer(ctx, customer.id, customer.email, customer.name);
+
+        for (const item of subscription.items || []) {
+            const label = `${subscription.id} - ${customer.email} - ${item.price.name || item.price.id} x${item.quantity || 1}`;
+            if (!item.recurring) {
+                // One-time charges added to a subscription were billed already
+                console.log(`[LOG] Skipping one-time item ${item.price.id} of subscription ${subscription.id}`);
+                continue;
+            }
+
+            const trialDays = trialDaysLeft(item.trial_dates?.ends_at);
+
+            subscriptionsToMigrate.push({
+                entity: 'subscription',
+                source_id: `${subscription.id}:${item.price.id}`,
+                metadata_key: 'paddle_subscription_item_id',
+                label: `${label} (${subscription.status}, ${trialDays > 0 ? `${trialDays} trial days left` : `renews ${String(next_billed_at).slice(0, 10)}`})`,
+                details,
+                data: {
+                    billing: billingAddress({
+                        street: [address?.first_line, address?.second_line].filter(Boolean).join(', '),
+                        city: address?.city,
+                        state: address?.region,
+                        zipcode: address?.postal_code,
+                        country: address?.country_code
+                    }),
+                    customer: dodoCustomer,
+                    quantity: item.quantity || 1,
+                    trial_period_days: trialDays,
+                    ...(business?.tax_identifier ? { tax_id: business.tax_identifier } : {}),
+                    metadata: {
+                        paddle_subscription_id: subscription.id,
+                        paddle_subscription_item_id: `${subscription.id}:${item.price.id}`,
+                        paddle_customer_id: customer.id,
+                        paddle_price_id: item.price.id,
+                        paddle_product_id: item.price.product_id,
+                        ...(business ? { paddle_business_id: business.id } : {}),
+                        original_status: subscription.status,
+                        migrated_from: 'paddle'
+                    }
+                },
+                // Link to the Dodo product created from the subscribed Paddle price (paddle_price_id)
+                refs: {
+                    product_id: { entity: 'product', source_id: item.price.id }
+                },
+                // Keep the billing cycle: the first Dodo charge happens when Paddle would have billed next
+                after_create: {
+                    next_billing_date: next_billed_at,
+                    ...(cancelling ? { cancel_at_next_billing_date: true } : {})
+                }
+            });
+        }
+    }
+
+    return subscriptionsToMigrate;
+}
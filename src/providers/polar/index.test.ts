@@ -0,0 +1,230 @@
+import { afterAll, beforeAll, expect, setSystemTime, test } from 'bun:test';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Polar } from '@polar-sh/sdk';
+import { testContext } from '../../../test/testing';
+import { PolarProvider, PolarSource } from './index';
+
+const type = (value: string) => PolarProvider.types.find(type => type.value === value)!;
+
+// Transforms only read the records they are given, the client is never called
+const source: PolarSource = { polar: new Polar({ accessToken: 'polar_oat_test' }), organization_id: 'org_test' };
+
+const dir = mkdtempSync(join(tmpdir(), 'dodo-migrate-polar-'));
+
+beforeAll(() => setSystemTime(new Date('2026-03-01T00:00:00Z')));
+afterAll(() => {
+    setSystemTime();
+    rmSync(dir, { recursive: true, force: true });
+});
+
+const price = (id: string, fields: Record<string, any>) => ({ id, isArchived: false, priceCurrency: 'usd', ...fields });
+
+test('subscription products renew until cancelled', async () => {
+    const ctx = testContext(source);
+    const items = await type('products').transform([{
+        product: {
+            id: 'prod_pro',
+            name: 'Pro',
+            description: 'Everything in Pro',
+            prices: [
+                price('price_monthly', { type: 'recurring', recurringInterval: 'month', amountType: 'fixed', priceAmount: 1000 }),
+                price('price_yearly', { type: 'recurring', recurringInterval: 'year', amountType: 'fixed', priceAmount: 10000 })
+            ]
+        },
+        files: {}
+    }], ctx);
+    expect(items.map(item => item.source_id)).toEqual(['price_monthly', 'price_yearly']);
+
+    const [monthly, yearly] = items;
+    expect(monthly.data.name).toBe('Pro (USD 10)');
+    expect(monthly.data.price).toMatchObject({
+        type: 'recurring_price',
+        price: 1000,
+        billing_period: 'monthly',
+        payment_frequency_interval: 'Month',
+        payment_frequency_count: 1,
+        subscription_period_interval: 'Month',
+        subscription_period_count: 240
+    });
+    expect(yearly.data.price).toMatchObject({ payment_frequency_interval: 'Year', subscription_period_interval: 'Year', subscription_period_count: 20 });
+});
+
+test('metered prices become one usage-based product that renews until cancelled', async () => {
+    const ctx = testContext(source);
+    const items = await type('products').transform([{
+        product: {
+            id: 'prod_api',
+            name: 'API',
+            description: '',
+            prices: [
+                price('price_base', { type: 'recurring', recurringInterval: 'month', amountType: 'fixed', priceAmount: 2000 }),
+                price('price_requests', { type: 'recurring', recurringInterval: 'month', amountType: 'metered_unit', unitAmount: '0.5', meterId: 'meter_requests', meter: { name: 'Requests' } })
+            ]
+        },
+        files: {}
+    }], ctx);
+    expect(items.map(item => item.source_id)).toEqual(['price_base']);
+
+    const [api] = items;
+    expect(api.data.price).toEqual({
+        currency: 'USD',
+        fixed_price: 2000,
+        discount: 0,
+        purchasing_power_parity: false,
+        type: 'usage_based_price',
+        payment_frequency_count: 1,
+        payment_frequency_interval: 'Month',
+        subscription_period_count: 240,
+        subscription_period_interval: 'Month',
+        meters: [{ meter_id: '', price_per_unit: '0.5', name: 'Requests' }]
+    });
+    expect(api.refs).toEqual({ 'price.meters.0.meter_id': { entity: 'meter', source_id: 'meter_requests' } });
+});
+
+test('meters select their events by name, other filter clauses and the aggregation carry over', async () => {
+    const ctx = testContext(source);
+    const nameIs = (value: string) => ({ property: 'name', operator: 'eq', value });
+    const items = await type('meters').transform([
+        { id: 'meter_requests', name: 'Requests', filter: { conjunction: 'and', clauses: [nameIs('api.request')] }, aggregation: { func: 'count' } },
+        {
+            id: 'meter_tokens',
+            name: 'Tokens',
+            filter: {
+                conjunction: 'and',
+                clauses: [
+                    nameIs('llm.completion'),
+                    { property: 'metadata.model', operator: 'like', value: 'gpt' },
+                    { conjunction: 'or', clauses: [{ property: 'metadata.tier', operator: 'eq', value: 'pro' }, { property: 'metadata.tier', operator: 'eq', value: 'team' }] }
+                ]
+            },
+            aggregation: { func: 'sum', property: 'metadata.tokens' }
+        },
+        { id: 'meter_latency', name: 'Latency', filter: { conjunction: 'and', clauses: [nameIs('api.request')] }, aggregation: { func: 'avg', property: 'metadata.ms' } },
+        { id: 'meter_any', name: 'Any event', filter: { conjunction: 'or', clauses: [nameIs('a'), nameIs('b')] }, aggregation: { func: 'count' } }
+    ], ctx);
+    expect(items.map(item => item.source_id)).toEqual(['meter_requests', 'meter_tokens']);
+    expect(ctx.unmigrated.map(record => [record.source_id, record.reason])).toEqual([
+        ['meter_latency', 'Dodo Payments meters can\'t aggregate with avg'],
+        ['meter_any', 'the meter filter doesn\'t select a single event name (name equals ...)']
+    ]);
+
+    const [requests, tokens] = items;
+    expect(requests.data).toEqual({ name: 'Requests', event_name: 'api.request', aggregation: { type: 'count' }, filter: null, measurement_unit: 'units' });
+    expect(tokens.label).toBe('Tokens - sum of tokens of "llm.completion" events');
+    // The condition next to the nested filter is wrapped in a filter of its own
+    expect(tokens.data.filter).toEqual({
+        conjunction: 'and',
+        clauses: [
+            { conjunction: 'and', clauses: [{ key: 'model', operator: 'contains', value: 'gpt' }] },
+            { conjunction: 'or', clauses: [{ key: 'tier', operator: 'equals', value: 'pro' }, { key: 'tier', operator: 'equals', value: 'team' }] }
+        ]
+    });
+    expect(tokens.data.aggregation).toEqual({ type: 'sum', key: 'tokens' });
+});
+
+test('pay what you want and free prices', async () => {
+    const ctx = testContext(source);
+    const items = await type('products').transform([{
+        product: {
+            id: 'prod_tip',
+            name: 'Tip jar',
+            description: '',
+            prices: [
+                price('price_pwyw', { type: 'one_time', amountType: 'custom', minimumAmount: 500, presetAmount: 1500, maximumAmount: 10000 }),
+                price('price_supporter', { type: 'recurring', recurringInterval: 'month', amountType: 'custom', minimumAmount: 300, presetAmount: 1000 }),
+                // Nothing to charge a subscription without a preset or minimum amount
+                price('price_any', { type: 'recurring', recurringInterval: 'month', amountType: 'custom', minimumAmount: null, presetAmount: null }),
+                // Free prices have no currency in Polar
+                price('price_free', { type: 'one_time', amountType: 'free', priceCurrency: null })
+            ]
+        },
+        files: {}
+    }], ctx);
+    expect(items.map(item => [item.source_id, item.label])).toEqual([
+        ['price_pwyw', 'Tip jar (Pay what you want) - Pay what you want, minimum USD 5.00, suggested USD 15.00 (One Time)'],
+        ['price_supporter', 'Tip jar (Pay what you want) - USD 10.00 (Subscription, monthly)'],
+        ['price_free', 'Tip jar (Free) - Free (One Time)']
+    ]);
+
+    const [pwyw, supporter, free] = items;
+    expect(pwyw.data.price).toEqual({
+        currency: 'USD',
+        price: 500,
+        discount: 0,
+        purchasing_power_parity: false,
+        type: 'one_time_price',
+        pay_what_you_want: true,
+        suggested_price: 1500
+    });
+    expect(pwyw.details).toContain('[WARN] The maximum of USD 100.00 is not preserved, Dodo Payments has no maximum for pay what you want prices');
+
+    // Dodo only supports pay what you want for one-time prices
+    expect(supporter.data.price).toMatchObject({ type: 'recurring_price', price: 1000 });
+    expect(supporter.data.price.pay_what_you_want).toBeUndefined();
+    expect(supporter.details).toContain('[WARN] Pay what you want is not preserved, Dodo Payments only supports it for one-time prices. Subscribers pay the preset amount of USD 10.00');
+
+    expect(free.data.price).toEqual({ currency: 'USD', price: 0, discount: 0, purchasing_power_parity: false, type: 'one_time_price' });
+});
+
+test('benefit checklists are only written by the run that migrates', async () => {
+    const checklists = join(dir, 'checklists');
+    const record = {
+        product: {
+            id: 'prod_repo',
+            name: 'Repo access',
+            description: '',
+            prices: [price('price_repo', { type: 'one_time', amountType: 'fixed', priceAmount: 5000 })],
+            benefits: [{ id: 'benefit_repo', type: 'github_repository', description: 'Private repository', properties: { repositoryOwner: 'acme', repositoryName: 'pro', permission: 'pull' } }]
+        },
+        files: {}
+    };
+    const path = join(checklists, 'prod_repo.json');
+
+    const [planned] = await type('products').transform([record], testContext(source, { 'benefit-checklist-dir': checklists }));
+    expect(planned.details).toContain(`Manual setup checklist: ${path}, written by a migration run without --dry-run`);
+    expect(existsSync(checklists)).toBe(false);
+
+    const [migrated] = await type('products').transform([record], { ...testContext(source, { 'benefit-checklist-dir': checklists }), dryRun: false });
+    expect(migrated.details).toContain(`Manual setup checklist: ${path}`);
+    expect(JSON.parse(readFileSync(path, 'utf8'))).toMatchObject({
+        polar_product_id: 'prod_repo',
+        polar_price_ids: ['price_repo'],
+        items: [{ benefit_id: 'benefit_repo', type: 'github_repository', properties: { repository_owner: 'acme', repository_name: 'pro', permission: 'pull' } }]
+    });
+});
+
+const customer = (id: string, fields: Record<string, any> = {}) => ({ id, email: `${id}@example.com`, name: null, deletedAt: null, billingAddress: { country: 'DE', city: 'Berlin' }, ...fields });
+
+test('subscriptions land on the product of their price and keep their billing cycle', async () => {
+    const ctx = testContext(source);
+    ctx.mappings.set('customer', 'ada', 'cus_ada');
+    const items = await type('subscriptions').transform([
+        { id: 'sub_active', status: 'active', productId: 'prod_pro', product: { name: 'Pro' }, customer: customer('ada'), currentPeriodEnd: new Date('2026-03-20T00:00:00Z'), prices: [price('price_monthly', { amountType: 'fixed' })] },
+        { id: 'sub_trial', status: 'trialing', productId: 'prod_pro', product: { name: 'Pro' }, customer: customer('bob', { name: 'Bob', billingAddress: null }), trialEnd: new Date('2026-03-04T12:00:00Z'), currentPeriodEnd: new Date('2026-03-04T12:00:00Z'), prices: [price('price_monthly', { amountType: 'fixed' })] },
+        { id: 'sub_ending', status: 'active', cancelAtPeriodEnd: true, productId: 'prod_pro', product: { name: 'Pro' }, customer: customer('eve'), currentPeriodEnd: new Date('2026-03-25T00:00:00Z'), prices: [price('price_monthly', { amountType: 'fixed' })] },
+        { id: 'sub_gone', status: 'active', productId: 'prod_pro', product: { name: 'Pro' }, customer: customer('cy', { deletedAt: new Date() }), prices: [price('price_monthly', { amountType: 'fixed' })] },
+        { id: 'sub_api', status: 'active', productId: 'prod_api', product: { name: 'API' }, customer: customer('dee'), currentPeriodEnd: new Date('2026-03-10T00:00:00Z'), prices: [price('price_requests', { amountType: 'metered_unit' })] }
+    ], ctx);
+    expect(items.map(item => [item.source_id, item.refs!.product_id.source_id])).toEqual([
+        ['sub_active', 'price_monthly'],
+        ['sub_trial', 'price_monthly'],
+        ['sub_ending', 'price_monthly'],
+        // Subscriptions with only metered prices land on the usage-based product
+        ['sub_api', 'price_requests']
+    ]);
+    expect(ctx.unmigrated.map(record => [record.source_id, record.reason])).toEqual([['sub_gone', 'the customer was deleted or has no email address']]);
+
+    const [active, trial, ending] = items;
+    expect(active.label).toBe('Pro - ada@example.com (active, renews 2026-03-20)');
+    expect(active.data).toMatchObject({ customer: { customer_id: 'cus_ada' }, trial_period_days: 0, billing: { country: 'DE', city: 'Berlin' } });
+    expect(active.after_create).toEqual({ next_billing_date: '2026-03-20T00:00:00.000Z' });
+
+    expect(trial.label).toBe('Pro - bob@example.com (trialing, 4 trial days left, renews 2026-03-04)');
+    expect(trial.data).toMatchObject({ customer: { email: 'bob@example.com', name: 'Bob' }, trial_period_days: 4, billing: { country: 'US' } });
+    expect(trial.details).toEqual(['[WARN] The customer has no billing address in Polar, a placeholder address will be used']);
+
+    expect(ending.details).toEqual(['Cancelled in Polar, ends at the next billing date']);
+    expect(ending.after_create).toEqual({ next_billing_date: '2026-03-25T00:00:00.000Z', cancel_at_next_billing_date: true });
+});
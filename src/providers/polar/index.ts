@@ -1,138 +1,77 @@
 import { Polar } from '@polar-sh/sdk';
-import DodoPayments from 'dodopayments';
-import { input, select, checkbox, password } from '@inquirer/prompts';
-
-export default {
-    command: 'polar [arguments]',
-    describe: 'Migrate from Polar.sh to Dodo Payments',
-    builder: (yargs: any) => {
-        return yargs
-            .option('provider-api-key', {
-                describe: 'Polar.sh Organization Access Token',
-                type: 'string',
-                demandOption: false
-            })
-            .option('dodo-api-key', {
-                describe: 'Dodo Payments API Key',
-                type: 'string',
-                demandOption: false
-            })
-            .option('dodo-brand-id', {
-                describe: 'Dodo Payments Brand ID',
-                type: 'string',
-                demandOption: false
-            })
-            .option('mode', {
-                describe: 'Dodo Payments environment',
-                type: 'string',
-                choices: ['test_mode', 'live_mode'],
-                demandOption: false,
-                default: 'test_mode'
-            })
-            .option('migrate-types', {
-                describe: 'Types of data to migrate (comma-separated: products,discounts,customers)',
-                type: 'string',
-                demandOption: false
-            })
-            .option('polar-organization-id', {
-                describe: 'Polar.sh Organization ID (if user has multiple orgs)',
-                type: 'string',
-                demandOption: false
-            });
-    },
-    handler: async (argv: any) => {
-        console.log('[LOG] Starting Polar.sh to Dodo Payments migration...\n');
-
-        // Detect if we're in non-interactive mode (CI/CD, automated scripts)
-        const isInteractive = process.stdin.isTTY;
-
-        // Get credentials - either from CLI arguments or interactive prompts
-        let PROVIDER_API_KEY = argv['provider-api-key'];
-        let DODO_API_KEY = argv['dodo-api-key'];
-        let MODE = argv['mode'] || 'test_mode';
-
-        // Validate that all required credentials are provided in non-interactive mode
-        if (!PROVIDER_API_KEY) {
-            if (!isInteractive) {
-                console.log('[ERROR] --provider-api-key required in non-interactive mode');
-                process.exit(1);
-            }
-            PROVIDER_API_KEY = (await password({
-                message: 'Enter your Polar.sh Organization Access Token:',
-                mask: '*'
-            })).trim();
-        }
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { select } from '@inquirer/prompts';
+import { createCommand } from '../../core/command';
+import { fixedDiscountOptions, handleFixedDiscount, restrictionRefs, withDiscountFields } from '../../core/discounts';
+import { skipRecord } from '../../core/engine';
+import { BillingInterval, evergreenPeriodCount } from '../../core/products';
+import { billingAddress, subscriptionCustomer, trialDaysLeft } from '../../core/subscriptions';
+import { EntityRef, MigrationContext, MigrationItem, SourceProvider } from '../../core/types';
+
+export interface PolarSource {
+    polar: Polar;
+    organization_id: string;
+}
 
-        if (!DODO_API_KEY) {
-            if (!isInteractive) {
-                console.log('[ERROR] --dodo-api-key required in non-interactive mode');
-                process.exit(1);
+// Paginate through a Polar list endpoint and return every item
+async function listAll(list: (page: number) => Promise<any>): Promise<any[]> {
+    const items: any[] = [];
+    try {
+        let page = 1;
+        let hasMore = true;
+        while (hasMore) {
+            const response = await list(page);
+            if (response.result?.items?.length) {
+                items.push(...response.result.items);
             }
-            DODO_API_KEY = (await password({
-                message: 'Enter your Dodo Payments API key:',
-                mask: '*'
-            })).trim();
+            // Check if there are more pages based on pagination metadata
+            const pagination = response.result?.pagination;
+            hasMore = pagination ? page < pagination.maxPage : false;
+            page++;
         }
-
-        if (!MODE || MODE === 'select') {
-            if (!isInteractive) {
-                MODE = 'test_mode'; // Default to test mode in non-interactive
-            } else {
-                MODE = await select({
-                    message: 'Select Dodo Payments environment:',
-                    choices: [
-                        { name: 'Test Mode', value: 'test_mode' },
-                        { name: 'Live Mode', value: 'live_mode' }
-                    ],
-                });
-            }
+    } catch (error: any) {
+        // Check for rate limiting (429 Too Many Requests)
+        if (error.statusCode === 429 || error.status === 429) {
+            const retryAfter = error.headers?.['retry-after'] || error.response?.headers?.['retry-after'] || 'unknown';
+            throw new Error(`Polar.sh API rate limit exceeded (300 requests/minute). Retry after ${retryAfter} seconds.`);
         }
+        throw error;
+    }
+    return items;
+}
 
+export const PolarProvider: SourceProvider<PolarSource> = {
+    command: 'polar',
+    name: 'Polar.sh',
+    apiKeyDescription: 'Polar.sh Organization Access Token',
+    apiKeyPrompt: 'Enter your Polar.sh Organization Access Token:',
+    options: {
+        'polar-organization-id': {
+            describe: 'Polar.sh Organization ID (if user has multiple orgs)',
+            type: 'string',
+            demandOption: false
+        },
+        'benefit-checklist-dir': {
+            describe: 'Directory the manual setup checklist of each product with benefits Dodo Payments can\'t set up is written to',
+            type: 'string',
+            demandOption: false,
+            default: 'polar-benefit-checklists'
+        },
+        ...fixedDiscountOptions
+    },
+    connect: async (apiKey, argv, interactive) => {
         // Initialize Polar SDK with the access token
         const polar = new Polar({
-            accessToken: PROVIDER_API_KEY
+            accessToken: apiKey
         });
 
         // Verify Polar.sh connection and fetch available organizations
-        const organizations: any[] = [];
-        try {
-            let page = 1;
-            let hasMore = true;
-            while (hasMore) {
-                const response = await polar.organizations.list({ page });
-                if (response.result?.items?.length) {
-                    organizations.push(...response.result.items);
-                }
-                // Check if there are more pages based on pagination metadata
-                const pagination = response.result?.pagination;
-                hasMore = pagination ? page < pagination.maxPage : false;
-                page++;
-            }
-            console.log('[LOG] Successfully connected to Polar.sh');
-
-            if (organizations.length === 0) {
-                console.log('[ERROR] No organizations found for this access token');
-                console.log('[ERROR] Please check your Organization Access Token at https://polar.sh/settings/tokens');
-                process.exit(1);
-            }
-        } catch (error: any) {
-            // Check for rate limiting (429 Too Many Requests)
-            if (error.statusCode === 429 || error.status === 429) {
-                const retryAfter = error.headers?.['retry-after'] || error.response?.headers?.['retry-after'] || 'unknown';
-                console.log(`[ERROR] Polar.sh API rate limit exceeded (300 requests/minute). Retry after ${retryAfter} seconds.`);
-                process.exit(1);
-            }
-            console.log('[ERROR] Failed to connect to Polar.sh');
-            console.log('[ERROR] Please check your Organization Access Token at https://polar.sh/settings/tokens');
-            process.exit(1);
+        const organizations = await listAll(page => polar.organizations.list({ page }));
+        if (organizations.length === 0) {
+            throw new Error('No organizations found for this access token. Please check your Organization Access Token at https://polar.sh/settings/tokens');
         }
 
-        // Initialize Dodo Payments SDK
-        const client = new DodoPayments({
-            bearerToken: DODO_API_KEY,
-            environment: MODE,
-        });
-
         // Select the Polar.sh organization to migrate from
         let organization_id = argv['polar-organization-id'];
         if (!organization_id) {
@@ -140,9 +79,8 @@ export default {
                 organization_id = organizations[0].id;
                 console.log(`[LOG] Using organization: ${organizations[0].name}`);
             } else {
-                if (!isInteractive) {
-                    console.log('[ERROR] Multiple Polar.sh organizations detected. Please provide --polar-organization-id flag.');
-                    process.exit(1);
+                if (!interactive) {
+                    throw new Error('Multiple Polar.sh organizations detected. Please provide --polar-organization-id flag.');
                 }
                 organization_id = await select({
                     message: 'Select your Polar.sh organization:',
@@ -154,487 +92,655 @@ export default {
             }
         }
 
-        // Select the Dodo Payments brand to migrate to
-        let brand_id = argv['dodo-brand-id'];
-        if (!brand_id) {
-            if (!isInteractive) {
-                console.log('[ERROR] --dodo-brand-id required in non-interactive mode');
-                process.exit(1);
-            }
+        return { polar, organization_id };
+    },
+    types: [
+        {
+            value: 'meters',
+            name: 'Meters',
+            checked: true,
+            fetch: ({ source: { polar, organization_id } }) => listAll(page => polar.meters.list({ organizationId: organization_id, isArchived: false, page })),
+            transform: transformMeters
+        },
+        {
+            value: 'products',
+            name: 'Products',
+            checked: true,
+            fetch: fetchProducts,
+            transform: transformProducts
+        },
+        {
+            value: 'discounts',
+            name: 'Discounts',
+            checked: true,
+            fetch: fetchDiscounts,
+            transform: transformDiscounts
+        },
+        {
+            value: 'customers',
+            name: 'Customers',
+            checked: false,
+            fetch: ({ source: { polar, organization_id } }) => listAll(page => polar.customers.list({ organizationId: organization_id, page })),
+            transform: transformCustomers
+        },
+        {
+            value: 'subscriptions',
+            name: 'Subscriptions',
+            checked: false,
+            fetch: fetchSubscriptions,
+            transform: transformSubscriptions
+        }
+    ]
+};
 
-            try {
-                const brands = await client.brands.list();
+export default createCommand(PolarProvider);
 
-                brand_id = await select({
-                    message: 'Select your Dodo Payments brand:',
-                    choices: brands.items.map((brand) => ({
-                        name: brand.name || 'Unnamed Brand',
-                        value: brand.brand_id,
-                    })),
-                });
-            } catch (e) {
-                console.log("[ERROR] Failed to fetch brands from Dodo Payments!\n", e);
-                process.exit(1);
-            }
-        }
+// Price amount types a Dodo product is created for, metered prices are skipped
+const SUPPORTED_AMOUNT_TYPES = ['fixed', 'custom', 'free'];
 
-        // Determine which data types to migrate (products, discounts, customers)
-        let migrateTypes: string[] = [];
-        if (argv['migrate-types']) {
-            migrateTypes = argv['migrate-types'].split(',').map((type: string) => type.trim());
-        } else {
-            if (!isInteractive) {
-                // In non-interactive mode, default to products and discounts (safest option)
-
-                migrateTypes = ['products', 'discounts'];
-                console.log(`[LOG] Non-interactive mode: defaulting to migrate products and discounts`);
-            } else {
-                migrateTypes = await checkbox({
-                    message: 'Select what you want to migrate:',
-                    choices: [
-                        { name: 'Products', value: 'products', checked: true },
-                        { name: 'Discounts', value: 'discounts', checked: true },
-                        { name: 'Customers', value: 'customers', checked: false }
-                    ],
-                    required: true
-                });
-            }
-        }
+// Why transformProducts creates no Dodo product of its own for an active price, undefined if it does
+function unmigratableReason(price: any): string | undefined {
+    if (!SUPPORTED_AMOUNT_TYPES.includes(price.amountType)) {
+        return `${price.amountType} price`;
+    }
+    if (price.type === 'recurring' && !['month', 'year'].includes(price.recurringInterval)) {
+        return `price with unsupported recurring interval "${price.recurringInterval}"`;
+    }
+    if (price.type === 'recurring' && price.amountType === 'custom' && !(price.presetAmount || price.minimumAmount)) {
+        return 'pay what you want subscription price, it has no preset or minimum amount to charge';
+    }
+    return undefined;
+}
 
-        console.log(`[LOG] Will migrate: ${migrateTypes.join(', ')}`);
+// Whether transformProducts creates a Dodo product for the price, discounts are restricted to exactly these
+function isMigratablePrice(price: any): boolean {
+    return !price.isArchived && !unmigratableReason(price);
+}
 
-        // Execute the selected migrations
-        if (migrateTypes.includes('products')) {
-            await migrateProducts(polar, client, organization_id, brand_id);
-        }
+// Metered prices of a product are billed together by one usage-based Dodo product
+function meteredPrices(product: any): any[] {
+    return (product.prices || []).filter((price: any) => !price.isArchived && price.amountType === 'metered_unit');
+}
 
-        if (migrateTypes.includes('discounts')) {
-            await migrateDiscounts(polar, client, organization_id, brand_id);
-        }
+// Fixed or free price charged every period on top of the usage of a product with metered prices
+function basePrice(product: any): any | undefined {
+    if (meteredPrices(product).length === 0) return undefined;
+    return (product.prices || []).find((price: any) => !price.isArchived && ['fixed', 'free'].includes(price.amountType));
+}
 
-        if (migrateTypes.includes('customers')) {
-            await migrateCustomers(polar, client, organization_id, brand_id);
-        }
+// The Polar price a usage-based Dodo product is recorded under: its base price, or its first metered price without one.
+// Undefined when transformUsageBasedProduct creates no usage-based product.
+function usageBasedSourceId(product: any): string | undefined {
+    const metered = meteredPrices(product);
+    if (metered.length === 0 || !['month', 'year'].includes(metered[0].recurringInterval)) return undefined;
+    return (basePrice(product) ?? metered[0]).id;
+}
 
-        console.log('\n[LOG] Migration completed successfully!');
+interface ProductRecord {
+    product: any;
+    // Files of the product's downloadables benefits by ID
+    files: Record<string, any>;
+}
 
-        // Exit with success code (important for CI/CD pipelines)
-        process.exit(0);
+// Products together with the files their downloadables benefits deliver
+async function fetchProducts({ source: { polar, organization_id } }: MigrationContext<PolarSource>): Promise<ProductRecord[]> {
+    const products = await listAll(page => polar.products.list({ organizationId: organization_id, page }));
+
+    const records: ProductRecord[] = [];
+    for (const product of products) {
+        const fileIds = (product.benefits || [])
+            .filter((benefit: any) => benefit.type === 'downloadables')
+            .flatMap((benefit: any) => benefit.properties.files);
+        const files = fileIds.length > 0
+            ? await listAll(page => polar.files.list({ organizationId: organization_id, ids: fileIds, page }))
+            : [];
+        records.push({ product, files: Object.fromEntries(files.map(file => [file.id, file])) });
     }
-};
-
-// Product migration implementation
-interface ProductToMigrate {
-    type: 'one_time_product' | 'subscription_product';
-    polar_id: string;
-    data: any; // Using any to match Stripe provider pattern
-    benefits: Array<{ description: string }>;
+    return records;
 }
 
-async function migrateProducts(polar: Polar, client: DodoPayments, organization_id: string, brand_id: string) {
-    console.log('\n[LOG] === Starting Products Migration ===');
+// A benefit Dodo Payments can't set up on its own, written to the product's checklist file
+interface ChecklistItem {
+    benefit_id: string;
+    type: string;
+    description: string;
+    action: string;
+    // Settings of the benefit in Polar, secrets such as Discord bot tokens are left out
+    properties: Record<string, any>;
+}
 
-    try {
-        console.log('[LOG] Fetching products from Polar.sh...');
-        const products: any[] = [];
-        try {
-            let page = 1;
-            let hasMore = true;
-            while (hasMore) {
-                const response = await polar.products.list({ organizationId: organization_id, page });
-                if (response.result?.items?.length) {
-                    products.push(...response.result.items);
-                }
-                const pagination = response.result?.pagination;
-                hasMore = pagination ? page < pagination.maxPage : false;
-                page++;
-            }
-        } catch (error: any) {
-            // Check for rate limiting (429 Too Many Requests)
-            if (error.statusCode === 429 || error.status === 429) {
-                const retryAfter = error.headers?.['retry-after'] || error.response?.headers?.['retry-after'] || 'unknown';
-                console.log(`[ERROR] Polar.sh API rate limit exceeded (300 requests/minute). Retry after ${retryAfter} seconds.`);
-                process.exit(1);
+const LICENSE_KEY_INTERVALS: Record<string, string> = { day: 'Day', month: 'Month', year: 'Year' };
+
+// Turn Polar benefits into Dodo product settings where Dodo has an equivalent:
+// license keys become the product's license key settings and downloadables its digital product delivery.
+function convertBenefits({ product, files }: ProductRecord): { settings: Record<string, any>, details: string[], checklist: ChecklistItem[] } {
+    const settings: Record<string, any> = {};
+    const details: string[] = [];
+    const checklist: ChecklistItem[] = [];
+
+    for (const benefit of product.benefits || []) {
+        const properties = benefit.properties || {};
+        const manual = (action: string, kept: Record<string, any>) => {
+            checklist.push({ benefit_id: benefit.id, type: benefit.type, description: benefit.description, action, properties: kept });
+            details.push(`[WARN] ${benefit.type} benefit "${benefit.description}" requires manual setup: ${action}`);
+        };
+
+        if (benefit.type === 'license_keys' && !settings.license_key_enabled) {
+            settings.license_key_enabled = true;
+            settings.license_key_activations_limit = properties.activations?.limit ?? null;
+            settings.license_key_duration = properties.expires
+                ? { count: properties.expires.ttl, interval: LICENSE_KEY_INTERVALS[properties.expires.timeframe] }
+                : null;
+            details.push(`License keys: ${properties.activations ? `${properties.activations.limit} activations` : 'unlimited activations'}, ${properties.expires ? `valid for ${properties.expires.ttl} ${properties.expires.timeframe}(s)` : 'never expire'}`);
+
+            // Dodo generates its own keys and has no usage quota per key
+            if (properties.prefix || properties.limitUsage) {
+                manual('Dodo Payments license keys have no key prefix or usage limit, enforce them in your license validation if needed', {
+                    prefix: properties.prefix,
+                    limit_usage: properties.limitUsage
+                });
             }
-            throw error;
+        } else if (benefit.type === 'license_keys') {
+            manual('Dodo Payments products issue a single license key, the product already uses the settings of another license key benefit', {
+                prefix: properties.prefix,
+                activations: properties.activations?.limit ?? null,
+                expires: properties.expires
+            });
+        } else if (benefit.type === 'downloadables') {
+            // Files can't be copied with an organization token, the delivery is set up and the files are listed for upload
+            const active = (properties.files || []).filter((id: string) => properties.archived?.[id] !== true);
+            settings.digital_product_delivery = { instructions: benefit.description };
+            details.push(`Digital product delivery: ${active.length} files`);
+            manual('Upload the files to the digital product delivery of the Dodo Payments product', {
+                files: active.map((id: string) => ({ id, name: files[id]?.name ?? null, size: files[id]?.sizeReadable ?? null }))
+            });
+        } else if (benefit.type === 'github_repository') {
+            manual('Grant repository access after purchase, e.g. with a webhook and a GitHub App', {
+                repository_owner: properties.repositoryOwner,
+                repository_name: properties.repositoryName,
+                permission: properties.permission
+            });
+        } else if (benefit.type === 'discord') {
+            manual('Assign the Discord role after purchase, e.g. with a webhook and a Discord bot', {
+                guild_id: properties.guildId,
+                role_id: properties.roleId,
+                kick_member: properties.kickMember
+            });
+        } else if (benefit.type === 'custom') {
+            manual('Deliver the custom benefit after purchase', { note: properties.note });
+        } else {
+            manual('Dodo Payments has no equivalent of this benefit', {});
         }
+    }
+
+    return { settings, details, checklist };
+}
 
-        if (products.length === 0) {
-            console.log('[LOG] No products found in Polar.sh. Skipping products migration.');
-            return;
+// Product migration implementation
+function transformProducts(records: ProductRecord[], ctx: MigrationContext<PolarSource>): MigrationItem[] {
+    const { brand_id } = ctx;
+    const productsToMigrate: MigrationItem[] = [];
+
+    for (const record of records) {
+        const { product } = record;
+        // Process each price variant in the product
+        const prices = product.prices || [];
+
+        if (prices.length === 0) {
+            console.log(`[WARN] Product "${product.name}" has no prices, skipping.`);
+            continue;
         }
 
-        console.log(`[LOG] Found ${products.length} products to migrate`);
+        // Benefits with a Dodo equivalent become product settings, the rest goes to the product's checklist file
+        const benefits = convertBenefits(record);
+        const details: string[] = [`Polar ID: ${product.id}`, ...benefits.details];
+        if (benefits.checklist.length > 0) {
+            const path = writeChecklist(product, benefits.checklist, ctx);
+            details.push(`Manual setup checklist: ${path}${ctx.dryRun ? ', written by a migration run without --dry-run' : ''}`);
+        }
 
-        // Transform Polar products to Dodo format
-        const productsToMigrate: ProductToMigrate[] = [];
+        // Metered prices and the base price they are charged on top of become a single usage-based product
+        const usageBased = transformUsageBasedProduct(product, details, benefits.settings, ctx);
+        const base = usageBased ? basePrice(product) : undefined;
+        if (usageBased) {
+            productsToMigrate.push(usageBased);
+        }
 
-        for (const product of products) {
-            // Warn if product has benefits (license keys, GitHub access, etc.) that can't be migrated
-            if (product.benefits && product.benefits.length > 0) {
-                console.log(`[WARN] Product "${product.name}" has ${product.benefits.length} benefits that require manual setup.`);
+        // IMPORTANT: Polar products can have multiple price variants, but Dodo doesn't support
+        // multiple prices per product. Solution: Create one Dodo product per Polar price variant.
+        // Example: Polar product "Pro Plan" with $10 USD and €9 EUR → 2 Dodo products
+        for (const price of prices) {
+            // Skip archived prices and the prices of the usage-based product
+            if (price.isArchived || price.amountType === 'metered_unit' || price === base) {
+                continue;
             }
 
-            // Process each price variant in the product
-            const prices = product.prices || [];
-
-            if (prices.length === 0) {
-                console.log(`[WARN] Product "${product.name}" has no prices, skipping.`);
+            // Polar supports 'fixed', 'custom' (PWYW), 'free', 'metered_unit' pricing
+            const reason = unmigratableReason(price);
+            if (reason) {
+                console.log(`[WARN] Skipping ${reason} for product "${product.name}"`);
                 continue;
             }
 
-            // IMPORTANT: Polar products can have multiple price variants, but Dodo doesn't support
-            // multiple prices per product. Solution: Create one Dodo product per Polar price variant.
-            // Example: Polar product "Pro Plan" with $10 USD and €9 EUR → 2 Dodo products
-            for (const price of prices) {
-                // Skip archived prices
-                if (price.isArchived) {
-                    continue;
+            // Determine if this is a subscription or one-time purchase
+            const isRecurring = price.type === 'recurring';
+            const recurringInterval = isRecurring ? price.recurringInterval : null;
+
+            // Free prices have no currency in Polar, use the currency of the product's other prices
+            const priceCurrency: string = price.priceCurrency || prices.find((other: any) => other.priceCurrency)?.priceCurrency || 'usd';
+            const currency = priceCurrency.toUpperCase();
+            const priceDetails = [...details];
+
+            // Type narrowing: Extract price amount from Polar's discriminated union
+            // TypeScript needs runtime checks to access properties of union types
+            let priceAmount = typeof price.priceAmount === 'number' ? price.priceAmount : 0;
+            let amount = `${currency} ${(priceAmount / 100).toFixed(2)}`;
+            // Extra one-time price fields for pay what you want
+            let payWhatYouWant: Record<string, any> = {};
+
+            if (price.amountType === 'free') {
+                amount = 'Free';
+            } else if (price.amountType === 'custom') {
+                const minimum = price.minimumAmount ?? 0;
+                const format = (cents: number) => `${currency} ${(cents / 100).toFixed(2)}`;
+                if (!isRecurring) {
+                    // Dodo treats the price of a pay what you want product as the minimum
+                    priceAmount = minimum;
+                    payWhatYouWant = { pay_what_you_want: true, suggested_price: price.presetAmount ?? null };
+                    amount = `Pay what you want, minimum ${format(minimum)}${price.presetAmount ? `, suggested ${format(price.presetAmount)}` : ''}`;
+                    if (price.maximumAmount) {
+                        priceDetails.push(`[WARN] The maximum of ${format(price.maximumAmount)} is not preserved, Dodo Payments has no maximum for pay what you want prices`);
+                    }
+                } else {
+                    // Dodo only supports pay what you want for one-time prices, subscriptions get a fixed price
+                    priceAmount = price.presetAmount || minimum;
+                    amount = format(priceAmount);
+                    priceDetails.push(`[WARN] Pay what you want is not preserved, Dodo Payments only supports it for one-time prices. Subscribers pay the ${price.presetAmount ? 'preset' : 'minimum'} amount of ${amount}`);
                 }
+            }
 
-                // Determine if this is a subscription or one-time purchase
-                const isRecurring = price.type === 'recurring';
-                const recurringInterval = isRecurring ? price.recurringInterval : null;
-
-                // Filter: Only migrate fixed-amount prices (skip pay-what-you-want and metered)
-                // Polar supports 'fixed', 'custom' (PWYW), 'free', 'metered_unit' pricing
-                if (price.amountType !== 'fixed') {
-                    console.log(`[WARN] Skipping non-fixed price (${price.amountType}) for product "${product.name}"`);
+            // Create descriptive product names when splitting variants
+            // Single price: "Pro Plan"
+            // Multiple prices: "Pro Plan (USD 10.00)", "Pro Plan (EUR 9.00)", "Pro Plan (Free)"
+            const variantName = prices.length > 1
+                ? `${product.name} (${price.amountType === 'fixed' ? `${currency} ${priceAmount / 100}` : price.amountType === 'free' ? 'Free' : 'Pay what you want'})`
+                : product.name;
+
+            if (isRecurring && recurringInterval) {
+                // Transform recurring intervals: Polar uses 'month'/'year', Dodo uses 'monthly'/'yearly'
+                // Polar supports: month, year (and potentially week, day but not in scope)
+                // Dodo supports: monthly, yearly
+                // Unsupported intervals (week, day) are skipped with warning
+                let billingPeriod: 'monthly' | 'yearly';
+                if (recurringInterval === 'month') {
+                    billingPeriod = 'monthly';
+                } else if (recurringInterval === 'year') {
+                    billingPeriod = 'yearly';
+                } else {
+                    console.log(`[WARN] Unsupported recurring interval "${recurringInterval}" for product "${product.name}", skipping.`);
                     continue;
                 }
 
-                // Type narrowing: Extract price amount and currency from Polar's discriminated union
-                // TypeScript needs runtime checks to access properties of union types
-                const priceAmount = typeof price.priceAmount === 'number' ? price.priceAmount : 0;
-                const priceCurrency = price.priceCurrency || 'usd';
-
-                // Create descriptive product names when splitting variants
-                // Single price: "Pro Plan"
-                // Multiple prices: "Pro Plan (USD 10.00)", "Pro Plan (EUR 9.00)"
-                const variantName = prices.length > 1
-                    ? `${product.name} (${priceCurrency.toUpperCase()} ${priceAmount / 100})`
-                    : product.name;
-
-                if (isRecurring && recurringInterval) {
-                    // Transform recurring intervals: Polar uses 'month'/'year', Dodo uses 'monthly'/'yearly'
-                    // Polar supports: month, year (and potentially week, day but not in scope)
-                    // Dodo supports: monthly, yearly
-                    // Unsupported intervals (week, day) are skipped with warning
-                    let billingPeriod: 'monthly' | 'yearly';
-                    if (recurringInterval === 'month') {
-                        billingPeriod = 'monthly';
-                    } else if (recurringInterval === 'year') {
-                        billingPeriod = 'yearly';
-                    } else {
-                        console.log(`[WARN] Unsupported recurring interval "${recurringInterval}" for product "${product.name}", skipping.`);
-                        continue;
-                    }
-
-                    // Map billing period to payment/subscription intervals
-                    // Dodo expects capitalized values: Day, Week, Month, Year
-                    // For standard subscriptions, payment frequency = subscription period
-                    const intervalUnit = billingPeriod === 'monthly' ? 'Month' : 'Year';
-
-                    productsToMigrate.push({
-                        type: 'subscription_product',
-                        polar_id: product.id,
-                        data: {
-                            name: variantName,
-                            description: product.description || '',
-                            tax_category: 'saas',
-                            price: {
-                                currency: priceCurrency.toUpperCase(),
-                                price: priceAmount,
-                                discount: 0,
-                                purchasing_power_parity: false,
-                                type: 'recurring_price',
-                                billing_period: billingPeriod,
-                                payment_frequency_count: 1,
-                                payment_frequency_interval: intervalUnit,
-                                subscription_period_count: 1,
-                                subscription_period_interval: intervalUnit
-                            },
-                            brand_id: brand_id
+                // Map billing period to payment/subscription intervals
+                // Dodo expects capitalized values: Day, Week, Month, Year
+                // Subscriptions are charged every interval and renew until cancelled
+                const intervalUnit: BillingInterval = billingPeriod === 'monthly' ? 'Month' : 'Year';
+
+                productsToMigrate.push({
+                    entity: 'product',
+                    source_id: price.id,
+                    metadata_key: 'polar_price_id',
+                    label: `${variantName} - ${amount} (Subscription, ${billingPeriod})`,
+                    details: priceDetails,
+                    data: {
+                        name: variantName,
+                        description: product.description || '',
+                        tax_category: 'saas',
+                        price: {
+                            currency: priceCurrency.toUpperCase(),
+                            price: priceAmount,
+                            discount: 0,
+                            purchasing_power_parity: false,
+                            type: 'recurring_price',
+                            billing_period: billingPeriod,
+                            payment_frequency_count: 1,
+                            payment_frequency_interval: intervalUnit,
+                            subscription_period_count: evergreenPeriodCount(intervalUnit),
+                            subscription_period_interval: intervalUnit
                         },
-                        benefits: (product.benefits || []).map((b: any) => ({ description: b.description }))
-                    });
-                } else {
-                    // One-time product
-                    productsToMigrate.push({
-                        type: 'one_time_product',
-                        polar_id: product.id,
-                        data: {
-                            name: variantName,
-                            description: product.description || '',
-                            tax_category: 'saas',
-                            price: {
-                                currency: priceCurrency.toUpperCase(),
-                                price: priceAmount,
-                                discount: 0,
-                                purchasing_power_parity: false,
-                                type: 'one_time_price'
-                            },
-                            brand_id: brand_id
+                        ...benefits.settings,
+                        brand_id: brand_id,
+                        metadata: {
+                            polar_price_id: price.id,
+                            polar_product_id: product.id,
+                            migrated_from: 'polar'
+                        }
+                    }
+                });
+            } else {
+                // One-time product
+                productsToMigrate.push({
+                    entity: 'product',
+                    source_id: price.id,
+                    metadata_key: 'polar_price_id',
+                    label: `${variantName} - ${amount} (One Time)`,
+                    details: priceDetails,
+                    data: {
+                        name: variantName,
+                        description: product.description || '',
+                        tax_category: 'saas',
+                        price: {
+                            currency: priceCurrency.toUpperCase(),
+                            price: priceAmount,
+                            discount: 0,
+                            purchasing_power_parity: false,
+                            type: 'one_time_price',
+                            ...payWhatYouWant
                         },
-                        benefits: (product.benefits || []).map((b: any) => ({ description: b.description }))
-                    });
-                }
+                        ...benefits.settings,
+                        brand_id: brand_id,
+                        metadata: {
+                            polar_price_id: price.id,
+                            polar_product_id: product.id,
+                            migrated_from: 'polar'
+                        }
+                    }
+                });
             }
         }
+    }
 
-        if (productsToMigrate.length === 0) {
-            console.log('[LOG] No compatible products found to migrate.');
-            return;
-        }
-
-        // Show preview of products that will be migrated
-        console.log('\n[PREVIEW] Products to be migrated:');
-        console.log('=====================================');
+    return productsToMigrate;
+}
 
-        productsToMigrate.forEach((product, index) => {
-            const price = product.data.price.price / 100;
-            const type = product.type === 'one_time_product' ? 'One Time' : 'Subscription';
-            const billing = product.type === 'subscription_product' ? ` (${product.data.price.billing_period})` : '';
+// Usage-based Dodo product billing the metered prices of a Polar product through the migrated meters,
+// with the product's fixed price (if any) charged every period on top
+function transformUsageBasedProduct(product: any, productDetails: string[], settings: Record<string, any>, { brand_id }: MigrationContext<PolarSource>): MigrationItem | undefined {
+    const metered = meteredPrices(product);
+    if (metered.length === 0) return undefined;
+
+    const base = basePrice(product);
+    const interval = metered[0].recurringInterval;
+    if (interval !== 'month' && interval !== 'year') {
+        console.log(`[WARN] Unsupported recurring interval "${interval}" for the metered prices of product "${product.name}", skipping.`);
+        return undefined;
+    }
+    const intervalUnit: BillingInterval = interval === 'month' ? 'Month' : 'Year';
+    const currency = (base?.priceCurrency || metered[0].priceCurrency || 'usd').toUpperCase();
+    const fixedPrice = base?.amountType === 'fixed' ? base.priceAmount : 0;
+
+    const details = [...productDetails];
+    const refs: Record<string, EntityRef> = {};
+    const meters = metered.map((price, index) => {
+        // Filled with the ID of the Dodo meter migrated from the Polar meter
+        refs[`price.meters.${index}.meter_id`] = { entity: 'meter', source_id: price.meterId };
+        details.push(`Meter "${price.meter?.name || price.meterId}": ${currency} ${Number(price.unitAmount) / 100} per unit`);
+        if (price.capAmount) {
+            details.push(`[WARN] The cap of ${currency} ${(price.capAmount / 100).toFixed(2)} is not preserved, Dodo Payments has no cap on usage charges`);
+        }
+        return {
+            meter_id: '',
+            // Both Polar and Dodo use the smallest currency unit, as a decimal string
+            price_per_unit: String(price.unitAmount),
+            ...(price.meter?.name ? { name: price.meter.name } : {})
+        };
+    });
+
+    const source_id = usageBasedSourceId(product)!;
+    return {
+        entity: 'product',
+        source_id,
+        metadata_key: 'polar_price_id',
+        label: `${product.name} - ${currency} ${(fixedPrice / 100).toFixed(2)} + usage of ${metered.length} meters (Usage based, ${interval}ly)`,
+        details,
+        data: {
+            name: product.name,
+            description: product.description || '',
+            tax_category: 'saas',
+            price: {
+                currency,
+                fixed_price: fixedPrice,
+                discount: 0,
+                purchasing_power_parity: false,
+                type: 'usage_based_price',
+                payment_frequency_count: 1,
+                payment_frequency_interval: intervalUnit,
+                subscription_period_count: evergreenPeriodCount(intervalUnit),
+                subscription_period_interval: intervalUnit,
+                meters
+            },
+            ...settings,
+            brand_id: brand_id,
+            metadata: {
+                polar_price_id: source_id,
+                polar_product_id: product.id,
+                polar_metered_price_ids: metered.map(price => price.id).join(','),
+                migrated_from: 'polar'
+            }
+        },
+        refs
+    };
+}
 
-            console.log(`\n${index + 1}. ${product.data.name}`);
-            console.log(`   Type: ${type}${billing}`);
-            console.log(`   Price: ${product.data.price.currency} ${price.toFixed(2)}`);
-            console.log(`   Polar ID: ${product.polar_id}`);
+// Polar filter operators and their Dodo equivalents, Polar's like matches substrings
+const METER_OPERATORS: Record<string, string> = {
+    eq: 'equals',
+    ne: 'not_equals',
+    gt: 'greater_than',
+    gte: 'greater_than_or_equals',
+    lt: 'less_than',
+    lte: 'less_than_or_equals',
+    like: 'contains',
+    not_like: 'does_not_contain'
+};
 
-            if (product.benefits.length > 0) {
-                console.log(`   ⚠️  Benefits (${product.benefits.length}): Requires manual setup`);
-                product.benefits.forEach((benefit, idx) => {
-                    console.log(`     ${idx + 1}. ${benefit.description}`);
-                });
-            }
-        });
+// Aggregations Dodo meters support, Polar's min, avg and unique have no equivalent
+const METER_AGGREGATIONS = ['count', 'sum', 'max'];
 
-        console.log('\n=====================================');
-
-        // Ask for confirmation before creating products
-        let shouldProceed = 'yes';
-        if (process.stdin.isTTY) {
-            const { select } = await import('@inquirer/prompts');
-            shouldProceed = await select({
-                message: `Proceed with migrating ${productsToMigrate.length} products to Dodo Payments?`,
-                choices: [
-                    { name: 'Yes', value: 'yes' },
-                    { name: 'No', value: 'no' }
-                ]
-            });
-        } else {
-            console.log('[LOG] Non-interactive mode: proceeding with products migration automatically');
-        }
+// Polar filters and aggregations point at event metadata as metadata.<key>, Dodo uses the bare key
+function meterKey(property: string): string {
+    return property.replace(/^metadata\./, '');
+}
 
-        if (shouldProceed !== 'yes') {
-            console.log('[LOG] Products migration cancelled by user.');
-            return;
-        }
+// Convert a Polar meter filter. Dodo filters hold either conditions or nested filters,
+// so conditions next to nested filters are wrapped in a filter of their own.
+function convertMeterFilter(filter: any): any {
+    const clauses = filter.clauses.map((clause: any) => 'property' in clause
+        ? { key: meterKey(clause.property), operator: METER_OPERATORS[clause.operator], value: clause.value }
+        : convertMeterFilter(clause));
+    const mixed = filter.clauses.some((clause: any) => 'property' in clause) && filter.clauses.some((clause: any) => !('property' in clause));
+    return {
+        conjunction: filter.conjunction,
+        clauses: mixed ? clauses.map((clause: any) => 'key' in clause ? { conjunction: 'and', clauses: [clause] } : clause) : clauses
+    };
+}
 
-        // Create products in Dodo Payments
-        console.log('\n[LOG] Starting products migration...');
-        let successCount = 0;
-        let errorCount = 0;
-
-        for (const product of productsToMigrate) {
-            try {
-                const createdProduct = await client.products.create(product.data);
-                console.log(`[SUCCESS] Migrated: ${product.data.name} (Dodo ID: ${createdProduct.product_id})`);
-                successCount++;
-            } catch (error: any) {
-                // Continue migrating other products even if one fails
-                console.error(`[ERROR] Failed to migrate product "${product.data.name}": ${error.message}`);
-                errorCount++;
+// Meter migration implementation
+function transformMeters(meters: any[], ctx: MigrationContext<PolarSource>): MigrationItem[] {
+    const metersToMigrate: MigrationItem[] = [];
+
+    for (const meter of meters) {
+        const func = meter.aggregation?.func || 'count';
+        if (!METER_AGGREGATIONS.includes(func)) {
+            skipRecord(ctx, { entity: 'meter', source_id: meter.id, label: meter.name, reason: `Dodo Payments meters can't aggregate with ${func}` });
+            continue;
+        }
+
+        // Polar meters select their events with a name clause in the filter, Dodo meters have a dedicated event name
+        const clauses: any[] = meter.filter?.clauses || [];
+        const nameClause = meter.filter?.conjunction === 'and' || clauses.length === 1
+            ? clauses.find(clause => clause.property === 'name' && clause.operator === 'eq')
+            : undefined;
+        if (!nameClause) {
+            skipRecord(ctx, { entity: 'meter', source_id: meter.id, label: meter.name, reason: 'the meter filter doesn\'t select a single event name (name equals ...)' });
+            continue;
+        }
+
+        const rest = clauses.filter(clause => clause !== nameClause);
+        const filter = rest.length > 0 ? convertMeterFilter({ conjunction: meter.filter.conjunction, clauses: rest }) : null;
+        const aggregation = func === 'count' ? { type: 'count' } : { type: func, key: meterKey(meter.aggregation.property) };
+
+        metersToMigrate.push({
+            entity: 'meter',
+            source_id: meter.id,
+            label: `${meter.name} - ${func}${aggregation.key ? ` of ${aggregation.key}` : ''} of "${nameClause.value}" events`,
+            details: [
+                `Polar ID: ${meter.id}`,
+                ...(filter ? [`Filter: ${JSON.stringify(filter)}`] : [])
+            ],
+            data: {
+                name: meter.name,
+                event_name: String(nameClause.value),
+                aggregation,
+                filter,
+                measurement_unit: 'units'
             }
-        }
-
-        // Display migration summary
-        console.log('\n[LOG] === Products Migration Complete ===');
-        console.log(`[LOG] Successfully migrated: ${successCount} products`);
-        if (errorCount > 0) {
-            console.log(`[WARN] Errors encountered: ${errorCount}`);
-        }
-    } catch (error: any) {
-        console.error('[ERROR] Failed to migrate products!', error.message);
+        });
     }
+
+    return metersToMigrate;
 }
 
-// Discount migration implementation  
-interface DiscountToMigrate {
-    [key: string]: any; // Using any to match Stripe provider pattern
+// Write the benefits of a product that need manual setup to <benefit-checklist-dir>/<polar product ID>.json.
+// Dry runs and plans don't write anything, they only show where the checklist goes.
+function writeChecklist(product: any, checklist: ChecklistItem[], { argv, dryRun }: MigrationContext<PolarSource>): string {
+    const dir: string = argv['benefit-checklist-dir'] || 'polar-benefit-checklists';
+    const path = join(dir, `${product.id}.json`);
+    if (dryRun) return path;
+
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(path, JSON.stringify({
+        polar_product_id: product.id,
+        name: product.name,
+        // The Dodo products created from these prices are recorded in the mapping file
+        polar_price_ids: (product.prices || []).map((price: any) => price.id),
+        items: checklist
+    }, null, 2) + '\n');
+    return path;
 }
 
-async function migrateDiscounts(polar: Polar, client: DodoPayments, organization_id: string, brand_id: string) {
-    console.log('\n[LOG] === Starting Discounts Migration ===');
+interface DiscountRecord {
+    discount: any;
+    // Prices of the products the discount is restricted to that became Dodo products, by Polar product ID
+    restricted_prices: Record<string, string[]>;
+}
 
-    try {
-        console.log('[LOG] Fetching discounts from Polar.sh...');
-        const discounts: any[] = [];
-        try {
-            let page = 1;
-            let hasMore = true;
-            while (hasMore) {
-                const response = await polar.discounts.list({ organizationId: organization_id, page });
-                if (response.result?.items?.length) {
-                    discounts.push(...response.result.items);
-                }
-                const pagination = response.result?.pagination;
-                hasMore = pagination ? page < pagination.maxPage : false;
-                page++;
+// Discounts together with the prices of the products they are restricted to
+async function fetchDiscounts({ source: { polar, organization_id } }: MigrationContext<PolarSource>): Promise<DiscountRecord[]> {
+    const discounts = await listAll(page => polar.discounts.list({ organizationId: organization_id, page }));
+
+    // Discounts only reference products, Dodo products are created per price
+    const restricted = discounts.filter(discount => discount.products?.length > 0);
+    const products = restricted.length > 0
+        ? await listAll(page => polar.products.list({ organizationId: organization_id, page }))
+        : [];
+    const pricesByProduct = new Map<string, string[]>(products.map(product => {
+        const priceIds = (product.prices || []).filter(isMigratablePrice).map((price: any) => price.id);
+        const usageBased = usageBasedSourceId(product);
+        return [product.id, usageBased && !priceIds.includes(usageBased) ? [...priceIds, usageBased] : priceIds];
+    }));
+
+    return discounts.map(discount => ({
+        discount,
+        restricted_prices: Object.fromEntries((discount.products || []).map((product: any) => [product.id, pricesByProduct.get(product.id) || []]))
+    }));
+}
+
+// Discount migration implementation
+async function transformDiscounts(records: DiscountRecord[], ctx: MigrationContext<PolarSource>): Promise<MigrationItem[]> {
+    const { brand_id } = ctx;
+    const discountsToMigrate: MigrationItem[] = [];
+
+    for (const { discount, restricted_prices } of records) {
+        const label = `${discount.name || discount.code} (${discount.code})`;
+
+        // Skip discounts that have already expired
+        if (discount.endsAt && new Date(discount.endsAt) < new Date()) {
+            skipRecord(ctx, { entity: 'discount', source_id: discount.id, label, reason: 'the discount has expired' });
+            continue;
+        }
+
+        // Restricted discounts are limited to the Dodo products created from the prices of the restricted Polar products.
+        // A restriction is never dropped: without a single migratable price the discount is skipped, and prices that
+        // have not been migrated yet make the discount fail until they are.
+        const restrictedProducts: any[] = discount.products || [];
+        const priceIds = Object.values(restricted_prices).flat();
+        let refs: Record<string, EntityRef> = {};
+        const restriction: string[] = [];
+        if (restrictedProducts.length > 0) {
+            if (priceIds.length === 0) {
+                skipRecord(ctx, { entity: 'discount', source_id: discount.id, label, reason: 'the discount is restricted to products without prices that can be migrated' });
+                continue;
             }
-        } catch (error: any) {
-            // Check for rate limiting (429 Too Many Requests)
-            if (error.statusCode === 429 || error.status === 429) {
-                const retryAfter = error.headers?.['retry-after'] || error.response?.headers?.['retry-after'] || 'unknown';
-                console.log(`[ERROR] Polar.sh API rate limit exceeded (300 requests/minute). Retry after ${retryAfter} seconds.`);
-                process.exit(1);
+            refs = restrictionRefs(priceIds);
+            restriction.push(`Restricted to ${restrictedProducts.map(product => product.name).join(', ')} (${priceIds.length} Dodo products)`);
+            const unconvertible = restrictedProducts.filter(product => !restricted_prices[product.id]?.length);
+            if (unconvertible.length > 0) {
+                restriction.push(`[WARN] No prices that can be migrated for ${unconvertible.map(product => product.name).join(', ')}, the restriction only covers the other products`);
             }
-            throw error;
         }
 
-        if (discounts.length === 0) {
-            console.log('[LOG] No discounts found in Polar.sh. Skipping discounts migration.');
-            return;
+        // Skip discounts without code
+        if (!discount.code) {
+            skipRecord(ctx, { entity: 'discount', source_id: discount.id, label: discount.name || discount.id, reason: 'the discount has no code' });
+            continue;
         }
 
-        console.log(`[LOG] Found ${discounts.length} discounts to process`);
-
-        // Transform Polar discounts to Dodo format
-        const discountsToMigrate: DiscountToMigrate[] = [];
-
-        for (const discount of discounts) {
-            // Skip discounts that have already expired
-            if (discount.endsAt && new Date(discount.endsAt) < new Date()) {
-                console.log(`[LOG] Skipping expired discount: ${discount.code}`);
-                continue;
-            }
+        // Handle expiration date conversion
+        let expiresAt: string | null = null;
+        if (discount.endsAt) {
+            expiresAt = discount.endsAt instanceof Date ? discount.endsAt.toISOString() : String(discount.endsAt);
+        }
 
-            // Warn if discount is restricted to specific products (not supported in Dodo)
-            if ('products' in discount && discount.products && discount.products.length > 0) {
-                console.log(`[WARN] Discount "${discount.code}" is restricted to ${discount.products.length} specific products. Product restrictions cannot be migrated to Dodo Payments.`);
-            }
+        // Determine discount type and value
+        // NOTE: Dodo Payments currently only supports percentage discounts
+        let discountValue: number;
 
-            // Skip discounts without code
-            if (!discount.code) {
-                console.log(`[WARN] Skipping discount without code`);
-                continue;
-            }
-
-            // Determine discount type and value
-            // NOTE: Dodo Payments currently only supports percentage discounts
-            let discountType: 'percentage';
-            let discountValue: number;
-
-            if (discount.type === 'percentage') {
-                discountType = 'percentage';
-                // Both Polar and Dodo use basis points (e.g., 2000 basis points = 20%)
-                const basisPoints = 'basisPoints' in discount ? discount.basisPoints : 0;
-                discountValue = basisPoints; // Keep as basis points
-            } else if (discount.type === 'fixed') {
-                // Dodo Payments API currently only supports percentage discounts
-                // Fixed-amount discounts cannot be migrated
-                console.log(`[WARN] Skipping fixed-amount discount "${discount.code}" - Dodo Payments only supports percentage discounts`);
-                continue;
-            } else {
-                console.log(`[WARN] Skipping discount "${discount.code}" - unsupported type: ${discount.type}`);
-                continue;
+        if (discount.type === 'percentage') {
+            // Both Polar and Dodo use basis points (e.g., 2000 basis points = 20%)
+            discountValue = 'basisPoints' in discount ? discount.basisPoints : 0;
+        } else if (discount.type === 'fixed') {
+            // Fixed amount discounts are handled according to --fixed-discount-strategy
+            const item = await handleFixedDiscount({
+                source_id: discount.id,
+                code: discount.code,
+                name: discount.name || discount.code,
+                amount: discount.amount,
+                currency: discount.currency || 'usd',
+                usage_limit: discount.maxRedemptions || null,
+                expires_at: expiresAt,
+                brand_id
+            }, ctx);
+            if (item) {
+                discountsToMigrate.push(withDiscountFields(item, {}, restriction, refs));
             }
+            continue;
+        } else {
+            skipRecord(ctx, { entity: 'discount', source_id: discount.id, label, reason: `unsupported discount type: ${discount.type}` });
+            continue;
+        }
 
-            // Handle expiration date conversion
-            let expiresAt: string | null = null;
-            if (discount.endsAt) {
-                expiresAt = discount.endsAt instanceof Date ? discount.endsAt.toISOString() : String(discount.endsAt);
-            }
+        const usageLimit = discount.maxRedemptions ? `${discount.maxRedemptions} uses` : 'Unlimited';
+        const expiration = expiresAt ? new Date(expiresAt).toLocaleDateString() : 'No expiration';
 
-            const transformedDiscount: DiscountToMigrate = {
+        discountsToMigrate.push(withDiscountFields({
+            entity: 'discount',
+            source_id: discount.id,
+            label: `${label} - ${(discountValue / 100).toFixed(0)}% discount`,
+            details: [`Usage Limit: ${usageLimit}`, `Expires: ${expiration}`],
+            data: {
                 code: discount.code,
                 name: discount.name || discount.code,
-                type: discountType,
+                type: 'percentage',
                 amount: discountValue,
                 usage_limit: discount.maxRedemptions || null,
                 expires_at: expiresAt,
                 brand_id: brand_id
-            };
-
-            discountsToMigrate.push(transformedDiscount);
-        }
-
-        if (discountsToMigrate.length === 0) {
-            console.log('[LOG] No compatible discounts found to migrate.');
-            return;
-        }
-
-        // Show preview of discounts that will be migrated
-        console.log('\n[PREVIEW] Discounts to be migrated:');
-        console.log('=====================================');
-
-        discountsToMigrate.forEach((discount, index) => {
-            // Display percentage value (discount.amount is already in basis points from conversion)
-            const value = `${(discount.amount / 100).toFixed(0)}%`;
-
-            const usageLimit = discount.usage_limit
-                ? `${discount.usage_limit} uses`
-                : 'Unlimited';
-
-            const expiration = discount.expires_at
-                ? new Date(discount.expires_at).toLocaleDateString()
-                : 'No expiration';
-
-            console.log(`\n${index + 1}. ${discount.name} (${discount.code})`);
-            console.log(`   Type: ${discount.type}`);
-            console.log(`   Value: ${value}`);
-            console.log(`   Usage Limit: ${usageLimit}`);
-            console.log(`   Expires: ${expiration}`);
-        });
-
-        console.log('\n=====================================');
-
-        // Ask for confirmation before creating discounts
-        let shouldProceed = 'yes';
-        if (process.stdin.isTTY) {
-            const { select } = await import('@inquirer/prompts');
-            shouldProceed = await select({
-                message: `Proceed with migrating ${discountsToMigrate.length} discounts to Dodo Payments?`,
-                choices: [
-                    { name: 'Yes', value: 'yes' },
-                    { name: 'No', value: 'no' }
-                ]
-            });
-        } else {
-            console.log('[LOG] Non-interactive mode: proceeding with discounts migration automatically');
-        }
-
-        if (shouldProceed !== 'yes') {
-            console.log('[LOG] Discounts migration cancelled by user.');
-            return;
-        }
-
-        // Create discounts in Dodo Payments
-        console.log('\n[LOG] Starting discounts migration...');
-        let successCount = 0;
-        let errorCount = 0;
-
-        for (const discount of discountsToMigrate) {
-            try {
-                const createdDiscount = await client.discounts.create(discount as any);
-                console.log(`[SUCCESS] Migrated: ${discount.name} (${discount.code}) (Dodo ID: ${createdDiscount.discount_id})`);
-                successCount++;
-            } catch (error: any) {
-                // Continue migrating other discounts even if one fails
-                console.error(`[ERROR] Failed to migrate discount "${discount.name}" (${discount.code}): ${error.message}`);
-                errorCount++;
             }
-        }
-
-        // Display migration summary
-        console.log('\n[LOG] === Discounts Migration Complete ===');
-        console.log(`[LOG] Successfully migrated: ${successCount} discounts`);
-        if (errorCount > 0) {
-            console.log(`[WARN] Errors encountered: ${errorCount}`);
-        }
-    } catch (error: any) {
-        console.error('[ERROR] Failed to migrate discounts!', error.message);
+        }, {}, restriction, refs));
     }
+
+    return discountsToMigrate;
 }
 
 // Customer migration implementation
@@ -660,156 +766,151 @@ interface CustomerToMigrate {
     };
 }
 
-async function migrateCustomers(polar: Polar, client: DodoPayments, organization_id: string, brand_id: string) {
-    console.log('\n[LOG] === Starting Customers Migration ===');
-
-    try {
-        console.log('[LOG] Fetching customers from Polar.sh...');
-        const customers: any[] = [];
-        try {
-            let page = 1;
-            let hasMore = true;
-            while (hasMore) {
-                const response = await polar.customers.list({ organizationId: organization_id, page });
-                if (response.result?.items?.length) {
-                    customers.push(...response.result.items);
+function transformCustomers(customers: any[], { brand_id }: MigrationContext<PolarSource>): MigrationItem[] {
+    const customersToMigrate: MigrationItem[] = [];
+
+    for (const customer of customers) {
+        // Skip customers without email (required field in Dodo)
+        if (!customer.email) {
+            console.log(`[LOG] Skipping customer ${customer.id} - no email address`);
+            continue;
+        }
+
+        // Skip customers that have been deleted in Polar
+        if (customer.deletedAt) {
+            console.log(`[LOG] Skipping deleted customer: ${customer.id}`);
+            continue;
+        }
+
+        const transformedCustomer: CustomerToMigrate = {
+            email: customer.email,
+            ...(customer.name ? { name: customer.name } : {}),
+            ...(customer.phone ? { phone: customer.phone } : {}),
+            ...((customer.billingAddress && (
+                customer.billingAddress.line1 ||
+                customer.billingAddress.line2 ||
+                customer.billingAddress.city ||
+                customer.billingAddress.state ||
+                customer.billingAddress.postalCode ||
+                customer.billingAddress.country
+            )) ? {
+                address: {
+                    ...(customer.billingAddress.line1 ? { line1: customer.billingAddress.line1 } : {}),
+                    ...(customer.billingAddress.line2 ? { line2: customer.billingAddress.line2 } : {}),
+                    ...(customer.billingAddress.city ? { city: customer.billingAddress.city } : {}),
+                    ...(customer.billingAddress.state ? { state: customer.billingAddress.state } : {}),
+                    ...(customer.billingAddress.postalCode ? { postal_code: customer.billingAddress.postalCode } : {}),
+                    ...(customer.billingAddress.country ? { country: customer.billingAddress.country } : {})
                 }
-                const pagination = response.result?.pagination;
-                hasMore = pagination ? page < pagination.maxPage : false;
-                page++;
-            }
-        } catch (error: any) {
-            // Check for rate limiting (429 Too Many Requests)
-            if (error.statusCode === 429 || error.status === 429) {
-                const retryAfter = error.headers?.['retry-after'] || error.response?.headers?.['retry-after'] || 'unknown';
-                console.log(`[ERROR] Polar.sh API rate limit exceeded (300 requests/minute). Retry after ${retryAfter} seconds.`);
-                process.exit(1);
+            } : {}),
+            brand_id: brand_id,
+            // Metadata structure for data reconciliation and audit trail
+            // This enables linking migrated Dodo customers back to Polar records
+            // Example query: dodoClient.customers.list({ metadata: { polar_customer_id: "cus_xyz" }})
+            metadata: {
+                polar_customer_id: customer.id,              // Original Polar customer ID for reconciliation
+                polar_external_id: customer.externalId || undefined, // Merchant's own system ID (if set in Polar)
+                polar_metadata: customer.metadata || undefined,      // Custom metadata from Polar (preserved as-is)
+                migrated_from: 'polar',                      // Source system identifier
+                migrated_at: new Date().toISOString()        // Migration timestamp in ISO 8601 format
             }
-            throw error;
-        }
-
-        if (customers.length === 0) {
-            console.log('[LOG] No customers found in Polar.sh. Skipping customers migration.');
-            return;
-        }
-
-        console.log(`[LOG] Found ${customers.length} customers to process`);
-
-        // Transform Polar customers to Dodo format
-        const customersToMigrate: CustomerToMigrate[] = [];
+        };
+
+        const address = transformedCustomer.address;
+        customersToMigrate.push({
+            entity: 'customer',
+            source_id: customer.id,
+            label: `${transformedCustomer.name || 'Unnamed'} (${transformedCustomer.email})`,
+            details: address?.country ? [`Location: ${address.city ? `${address.city}, ` : ''}${address.country}`] : [],
+            data: transformedCustomer
+        });
+    }
 
-        for (const customer of customers) {
-            // Skip customers without email (required field in Dodo)
-            if (!customer.email) {
-                console.log(`[LOG] Skipping customer ${customer.id} - no email address`);
-                continue;
-            }
+    return customersToMigrate;
+}
 
-            // Skip customers that have been deleted in Polar
-            if (customer.deletedAt) {
-                console.log(`[LOG] Skipping deleted customer: ${customer.id}`);
-                continue;
-            }
+// Active and trialing subscriptions, the only ones that still bill
+async function fetchSubscriptions({ source: { polar, organization_id } }: MigrationContext<PolarSource>): Promise<any[]> {
+    const subscriptions = await listAll(page => polar.subscriptions.list({ organizationId: organization_id, page }));
+    const activeSubscriptions = subscriptions.filter(subscription => ['active', 'trialing'].includes(subscription.status));
+    console.log(`[LOG] ${activeSubscriptions.length} of ${subscriptions.length} subscriptions are active or trialing`);
+    return activeSubscriptions;
+}
 
-            const transformedCustomer: CustomerToMigrate = {
-                email: customer.email,
-                ...(customer.name ? { name: customer.name } : {}),
-                ...(customer.phone ? { phone: customer.phone } : {}),
-                ...((customer.billingAddress && (
-                    customer.billingAddress.line1 ||
-                    customer.billingAddress.line2 ||
-                    customer.billingAddress.city ||
-                    customer.billingAddress.state ||
-                    customer.billingAddress.postalCode ||
-                    customer.billingAddress.country
-                )) ? {
-                    address: {
-                        ...(customer.billingAddress.line1 ? { line1: customer.billingAddress.line1 } : {}),
-                        ...(customer.billingAddress.line2 ? { line2: customer.billingAddress.line2 } : {}),
-                        ...(customer.billingAddress.city ? { city: customer.billingAddress.city } : {}),
-                        ...(customer.billingAddress.state ? { state: customer.billingAddress.state } : {}),
-                        ...(customer.billingAddress.postalCode ? { postal_code: customer.billingAddress.postalCode } : {}),
-                        ...(customer.billingAddress.country ? { country: customer.billingAddress.country } : {})
-                    }
-                } : {}),
-                brand_id: brand_id,
-                // Metadata structure for data reconciliation and audit trail
-                // This enables linking migrated Dodo customers back to Polar records
-                // Example query: dodoClient.customers.list({ metadata: { polar_customer_id: "cus_xyz" }})
+async function transformSubscriptions(subscriptions: any[], ctx: MigrationContext<PolarSource>): Promise<MigrationItem[]> {
+    const subscriptionsToMigrate: MigrationItem[] = [];
+
+    for (const subscription of subscriptions) {
+        const customer = subscription.customer;
+        const label = `${subscription.product?.name || subscription.productId} - ${customer?.email || subscription.customerId}`;
+        if (!customer?.email || customer.deletedAt) {
+            skipRecord(ctx, { entity: 'subscription', source_id: subscription.id, label, reason: 'the customer was deleted or has no email address' });
+            continue;
+        }
+
+        // Dodo products are created per Polar price, the subscription lands on the product of its fixed, custom or free price
+        // Subscriptions with only metered prices land on the usage-based product of their first metered price
+        const prices: any[] = subscription.prices || [];
+        const price = prices.find(price => SUPPORTED_AMOUNT_TYPES.includes(price.amountType))
+            ?? prices.find(price => price.amountType === 'metered_unit');
+        if (!price) {
+            skipRecord(ctx, { entity: 'subscription', source_id: subscription.id, label, reason: 'the subscription has no price that can be migrated' });
+            continue;
+        }
+
+        const dodoCustomer = await subscriptionCustomer(ctx, customer.id, customer.email, customer.name);
+
+        const address = customer.billingAddress;
+        const details = address?.country ? [] : ['[WARN] The customer has no billing address in Polar, a placeholder address will be used'];
+        if (price.amountType === 'custom') {
+            details.push(`[WARN] Pays ${subscription.currency.toUpperCase()} ${(subscription.amount / 100).toFixed(2)} at a pay what you want price in Polar, the Dodo subscription is charged the price of the Dodo product`);
+        }
+        const currentPeriodEnd: string | null = subscription.currentPeriodEnd ? new Date(subscription.currentPeriodEnd).toISOString() : null;
+
+        const trialDays = subscription.status === 'trialing' ? trialDaysLeft(subscription.trialEnd) : 0;
+        const cancelling = !!subscription.cancelAtPeriodEnd && !!currentPeriodEnd;
+        if (cancelling) {
+            details.push('Cancelled in Polar, ends at the next billing date');
+        }
+
+        subscriptionsToMigrate.push({
+            entity: 'subscription',
+            source_id: subscription.id,
+            metadata_key: 'polar_subscription_id',
+            label: `${label} (${subscription.status}${trialDays > 0 ? `, ${trialDays} trial days left` : ''}${currentPeriodEnd ? `, renews ${currentPeriodEnd.slice(0, 10)}` : ''})`,
+            details,
+            data: {
+                billing: billingAddress({
+                    street: [address?.line1, address?.line2].filter(Boolean).join(', '),
+                    city: address?.city,
+                    state: address?.state,
+                    zipcode: address?.postalCode,
+                    country: address?.country
+                }),
+                customer: dodoCustomer,
+                quantity: 1,
+                trial_period_days: trialDays,
                 metadata: {
-                    polar_customer_id: customer.id,              // Original Polar customer ID for reconciliation
-                    polar_external_id: customer.externalId || undefined, // Merchant's own system ID (if set in Polar)
-                    polar_metadata: customer.metadata || undefined,      // Custom metadata from Polar (preserved as-is)
-                    migrated_from: 'polar',                      // Source system identifier
-                    migrated_at: new Date().toISOString()        // Migration timestamp in ISO 8601 format
+                    polar_subscription_id: subscription.id,
+                    polar_customer_id: customer.id,
+                    polar_price_id: price.id,
+                    original_status: subscription.status,
+                    migrated_from: 'polar'
                 }
-            };
-
-            customersToMigrate.push(transformedCustomer);
-        }
-
-        if (customersToMigrate.length === 0) {
-            console.log('[LOG] No valid customers found to migrate.');
-            return;
-        }
-
-        // Show preview of customers that will be migrated
-        console.log('\n[PREVIEW] Customers to be migrated:');
-        console.log('=====================================');
-
-        customersToMigrate.forEach((customer, index) => {
-            console.log(`\n${index + 1}. ${customer.name || 'Unnamed'}`);
-            console.log(`   Email: ${customer.email}`);
-            if (customer.address && customer.address.country) {
-                console.log(`   Location: ${customer.address.city || ''}${customer.address.city && customer.address.country ? ', ' : ''}${customer.address.country || ''}`);
-            }
+            },
+            // Link to the Dodo product created from the subscribed Polar price (polar_price_id)
+            refs: {
+                product_id: { entity: 'product', source_id: price.id }
+            },
+            // Keep the billing cycle: the first Dodo charge happens when the current Polar period ends
+            ...(currentPeriodEnd ? {
+                after_create: {
+                    next_billing_date: currentPeriodEnd,
+                    ...(cancelling ? { cancel_at_next_billing_date: true } : {})
+                }
+            } : {})
         });
-
-        console.log('\n=====================================');
-
-        // Ask for confirmation before creating customers
-        let shouldProceed = 'yes';
-        if (process.stdin.isTTY) {
-            const { select } = await import('@inquirer/prompts');
-            shouldProceed = await select({
-                message: `Proceed with migrating ${customersToMigrate.length} customers to Dodo Payments?`,
-                choices: [
-                    { name: 'Yes', value: 'yes' },
-                    { name: 'No', value: 'no' }
-                ]
-            });
-        } else {
-            console.log('[LOG] Non-interactive mode: proceeding with customers migration automatically');
-        }
-
-        if (shouldProceed !== 'yes') {
-            console.log('[LOG] Customers migration cancelled by user.');
-            return;
-        }
-
-        // Create customers in Dodo Payments
-        console.log('\n[LOG] Starting customers migration...');
-        let successCount = 0;
-        let errorCount = 0;
-
-        for (const customer of customersToMigrate) {
-            try {
-                const createdCustomer = await client.customers.create(customer as any);
-                console.log(`[SUCCESS] Migrated: ${customer.name || customer.email} (Dodo ID: ${createdCustomer.customer_id})`);
-                successCount++;
-            } catch (error: any) {
-                console.error(`[ERROR] Failed to migrate customer "${customer.name || customer.email}": ${error.message}`);
-                errorCount++;
-            }
-        }
-
-        // Display migration summary
-        console.log('\n[LOG] === Customers Migration Complete ===');
-        console.log(`[LOG] Successfully migrated: ${successCount} customers`);
-        if (errorCount > 0) {
-            console.log(`[WARN] Errors encountered: ${errorCount}`);
-        }
-    } catch (error: any) {
-        console.error('[ERROR] Failed to migrate customers!', error.message);
     }
-}
\ No newline at end of file
+
+    return subscriptionsToMigrate;
+}
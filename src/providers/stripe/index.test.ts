@@ -0,0 +1,84 @@
+import { afterAll, beforeAll, expect, test } from 'bun:test';
+import { join } from 'node:path';
+import Stripe from 'stripe';
+import { FixtureServer, serveFixtures, testContext } from '../../../test/testing';
+import { StripeProvider } from './index';
+
+const type = (value: string) => StripeProvider.types.find(type => type.value === value)!;
+
+let server: FixtureServer;
+let stripe: Stripe;
+
+beforeAll(async () => {
+    server = await serveFixtures(join(import.meta.dir, 'fixtures'), {
+        '/v1/products?limit=100&active=true': 'products-page1.json',
+        '/v1/products?limit=100&active=true&starting_after=prod_pro': 'products-page2.json',
+        '/v1/prices?product=prod_pro&active=true&limit=100': 'prices-pro-page1.json',
+        '/v1/prices?product=prod_pro&active=true&limit=100&starting_after=price_pro_monthly': 'prices-pro-page2.json',
+        '/v1/prices?product=prod_ebook&active=true&limit=100': 'prices-ebook.json',
+        '/v1/coupons?limit=100': 'coupons.json',
+        '/v1/promotion_codes?limit=100&active=true': 'promotion-codes-page1.json',
+        '/v1/promotion_codes?limit=100&active=true&starting_after=promo_launchvip': 'promotion-codes-page2.json'
+    });
+    // connect() always talks to api.stripe.com, the tests build the client for the local server themselves
+    stripe = new Stripe('sk_test_123', { host: '127.0.0.1', port: Number(new URL(server.url).port), protocol: 'http', maxNetworkRetries: 0 });
+});
+
+afterAll(() => server.close());
+
+test('fetches every page of products and of their prices', async () => {
+    const ctx = testContext(stripe);
+    const records = await type('products').fetch(ctx);
+    expect(records.map(record => [record.product.id, record.prices.map((price: Stripe.Price) => price.id)])).toEqual([
+        ['prod_pro', ['price_pro_monthly', 'price_pro_yearly', 'price_pro_weekly']],
+        ['prod_ebook', ['price_ebook']]
+    ]);
+    expect(type('products').count!(records)).toEqual({ products: 2, prices: 4 });
+
+    // Weekly prices can't be migrated from Stripe yet, they are left out
+    const items = await type('products').transform(records, ctx);
+    expect(items.map(item => item.source_id)).toEqual(['price_pro_monthly', 'price_pro_yearly', 'price_ebook']);
+    expect(items[1].data.price).toMatchObject({ price: 29000, payment_frequency_interval: 'Year', subscription_period_count: 20 });
+    expect(items[2].data.metadata).toEqual({ stripe_price_id: 'price_ebook', stripe_product_id: 'prod_ebook', migrated_from: 'stripe' });
+});
+
+test('migrates the promotion codes of a coupon, or the coupon ID when it has none', async () => {
+    const ctx = testContext(stripe);
+    const records = await type('coupons').fetch(ctx);
+    expect(type('coupons').count!(records)).toEqual({ coupons: 3, 'promotion codes': 3 });
+
+    const items = await type('coupons').transform(records, ctx);
+    expect(items.map(item => [item.source_id, item.data.code])).toEqual([
+        ['promo_launch20', 'LAUNCH20'],
+        ['promo_launchvip', 'LAUNCHVIP'],
+        ['WELCOME', 'WELCOME']
+    ]);
+    expect(ctx.unmigrated.map(record => [record.source_id, record.reason])).toEqual([
+        ['promo_launchbeta', 'every redemption it allows in Stripe has been used'],
+        ['SPRING', 'the coupon is no longer valid']
+    ]);
+
+    const [launch20, launchVip, welcome] = items;
+    const shared = '[WARN] The 60 redemptions left on the coupon are shared by its 3 promotion codes in Stripe, each Dodo Payments discount gets its own limit';
+    // The code's own limit and expiry are tighter than the coupon's
+    expect(launch20.data).toEqual({
+        code: 'LAUNCH20',
+        name: 'Launch offer',
+        type: 'percentage',
+        amount: 2000,
+        usage_limit: 7,
+        expires_at: '2098-01-01T00:00:00.000Z',
+        brand_id: 'brand_test'
+    });
+    expect(launch20.details).toEqual([shared, '[WARN] Limited to first-time customers in Stripe, the Dodo Payments discount can be used by anyone']);
+
+    expect(launchVip.data).toMatchObject({ usage_limit: 60, expires_at: '2099-01-01T00:00:00.000Z' });
+    expect(launchVip.details).toEqual([
+        shared,
+        '[WARN] Requires a minimum order of 50.00 USD in Stripe, not carried over',
+        '[WARN] Limited to a single customer in Stripe, the Dodo Payments discount can be used by anyone'
+    ]);
+
+    expect(welcome.data).toMatchObject({ name: 'WELCOME', amount: 1000, usage_limit: null, expires_at: null });
+    expect(welcome.details).toEqual([]);
+});
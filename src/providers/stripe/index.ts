@@ -1,289 +1,186 @@
 import Stripe from 'stripe';
-import DodoPayments from 'dodopayments';
-import { input, select, checkbox } from '@inquirer/prompts';
-
-export default {
-    command: 'stripe [arguments]',
-    describe: 'Migrate from Stripe to Dodo Payments',
-    builder: (yargs: any) => {
-        return yargs
-            .option('provider-api-key', {
-                describe: 'Stripe Secret API Key',
-                type: 'string',
-                demandOption: false
-            })
-            .option('dodo-api-key', {
-                describe: 'Dodo Payments API Key',
-                type: 'string',
-                demandOption: false
-            })
-            .option('dodo-brand-id', {
-                describe: 'Dodo Payments Brand ID',
-                type: 'string',
-                demandOption: false
-            })
-            .option('mode', {
-                describe: 'Dodo Payments environment',
-                type: 'string',
-                choices: ['test_mode', 'live_mode'],
-                demandOption: false,
-                default: 'test_mode'
-            })
-            .option('migrate-types', {
-                describe: 'Types of data to migrate (comma-separated: products,coupons,customers)',
-                type: 'string',
-                demandOption: false
-            });
+import { createCommand } from '../../core/command';
+import { fixedDiscountOptions, handleFixedDiscount } from '../../core/discounts';
+import { skipRecord } from '../../core/engine';
+import { productItem } from '../../core/products';
+import { billingAddress, subscriptionCustomer } from '../../core/subscriptions';
+import { MigrationContext, MigrationItem, SourceProvider } from '../../core/types';
+
+export const StripeProvider: SourceProvider<Stripe> = {
+    command: 'stripe',
+    name: 'Stripe',
+    apiKeyDescription: 'Stripe Secret API Key',
+    apiKeyPrompt: 'Enter your Stripe Secret API Key (sk_...):',
+    options: fixedDiscountOptions,
+    connect: async (apiKey) => {
+        const stripe = new Stripe(apiKey);
+        await stripe.accounts.retrieve();
+        return stripe;
     },
-    handler: async (argv: any) => {
-        const PROVIDER_API_KEY = argv['provider-api-key'] || await input({
-            message: 'Enter your Stripe Secret API Key (sk_...):',
-            required: true
-        });
-        const DODO_API_KEY = argv['dodo-api-key'] || await input({
-            message: 'Enter your Dodo Payments API Key:',
-            required: true
-        });
-        const MODE = argv['mode'] || await select({
-            message: 'Select Dodo Payments environment:',
-            choices: [
-                { name: 'Test Mode', value: 'test_mode' },
-                { name: 'Live Mode', value: 'live_mode' }
-            ],
-            default: 'test_mode'
-        });
-
-        const stripe = new Stripe(PROVIDER_API_KEY);
-
-        try {
-            await stripe.accounts.retrieve();
-            console.log('[LOG] Successfully connected to Stripe');
-        } catch (error: any) {
-            console.log("[ERROR] Failed to connect to Stripe!\n", error.message);
-            process.exit(1);
-        }
-
-        const client = new DodoPayments({
-            bearerToken: DODO_API_KEY,
-            environment: MODE,
-        });
-
-        let brand_id = argv['dodo-brand-id'];
-        if (!brand_id) {
-            try {
-                const brands = await client.brands.list();
-
-                brand_id = await select({
-                    message: 'Select your Dodo Payments brand:',
-                    choices: brands.items.map((brand) => ({
-                        name: brand.name || 'Unnamed Brand',
-                        value: brand.brand_id,
-                    })),
-                });
-            } catch (e) {
-                console.log("[ERROR] Failed to fetch brands from Dodo Payments!\n", e);
-                process.exit(1);
-            }
-        }
-
-        let migrateTypes: string[] = [];
-        if (argv['migrate-types']) {
-            migrateTypes = argv['migrate-types'].split(',').map((type: string) => type.trim());
-        } else {
-            migrateTypes = await checkbox({
-                message: 'Select what you want to migrate:',
-                choices: [
-                    { name: 'Products', value: 'products', checked: true },
-                    { name: 'Coupons', value: 'coupons', checked: true },
-                    { name: 'Customers', value: 'customers', checked: false }
-                ],
-                required: true
-            });
-        }
-
-        console.log(`[LOG] Will migrate: ${migrateTypes.join(', ')}`);
-
-        if (migrateTypes.includes('products')) {
-            await migrateProducts(stripe, client, brand_id);
-        }
-
-        if (migrateTypes.includes('coupons')) {
-            await migrateCoupons(stripe, client, brand_id);
+    types: [
+        {
+            value: 'products',
+            name: 'Products',
+            checked: true,
+            fetch: fetchProducts,
+            count: (records) => ({
+                products: records.length,
+                prices: records.reduce((total, record) => total + record.prices.length, 0)
+            }),
+            transform: transformProducts
+        },
+        {
+            value: 'coupons',
+            name: 'Coupons',
+            checked: true,
+            fetch: fetchCoupons,
+            count: (records) => ({
+                coupons: records.length,
+                'promotion codes': records.reduce((total, record) => total + record.promotion_codes.length, 0)
+            }),
+            transform: transformCoupons
+        },
+        {
+            value: 'customers',
+            name: 'Customers',
+            checked: false,
+            fetch: ({ source }) => listAll(source.customers.list({ limit: 100 })),
+            transform: transformCustomers
+        },
+        {
+            value: 'subscriptions',
+            name: 'Subscriptions',
+            checked: false,
+            fetch: fetchSubscriptions,
+            transform: transformSubscriptions
         }
+    ]
+};
 
-        if (migrateTypes.includes('customers')) {
-            await migrateCustomers(stripe, client, brand_id);
-        }
+export default createCommand(StripeProvider);
 
-        console.log('\n[LOG] Migration completed successfully!');
+// Walk every page of a Stripe list call. Stripe returns at most 100 objects per page (10 by default).
+async function listAll<T>(list: Stripe.ApiListPromise<T>): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of list) {
+        items.push(item);
     }
-};
+    return items;
+}
 
-async function migrateProducts(stripe: Stripe, client: DodoPayments, brand_id: string) {
-    console.log('\n[LOG] Starting products migration...');
+// Active products together with their active prices
+async function fetchProducts({ source }: MigrationContext<Stripe>) {
+    const products = await listAll(source.products.list({
+        limit: 100,
+        active: true
+    }));
+
+    const productsWithPrices: { product: Stripe.Product, prices: Stripe.Price[] }[] = [];
+    for (const product of products) {
+        const prices = await listAll(source.prices.list({
+            product: product.id,
+            active: true,
+            limit: 100
+        }));
+        productsWithPrices.push({ product, prices });
+    }
+    return productsWithPrices;
+}
 
-    try {
-        const products = await stripe.products.list({
-            limit: 100,
-            active: true
-        });
+function transformProducts(records: { product: Stripe.Product, prices: Stripe.Price[] }[], { brand_id }: MigrationContext<Stripe>): MigrationItem[] {
+    const ProductsToMigrate: MigrationItem[] = [];
 
-        if (products.data.length === 0) {
-            console.log('[LOG] No active products found in Stripe');
-            return;
+    for (const { product, prices } of records) {
+        if (prices.length === 0) {
+            console.log(`[LOG] Skipping product ${product.name} - no active prices found`);
+            continue;
         }
 
-        console.log(`[LOG] Found ${products.data.length} active products in Stripe`);
-
-        const ProductsToMigrate: { type: 'one_time_product' | 'subscription_product', data: any }[] = [];
-
-        for (const product of products.data) {
-            const prices = await stripe.prices.list({
-                product: product.id,
-                active: true
-            });
-
-            if (prices.data.length === 0) {
-                console.log(`[LOG] Skipping product ${product.name} - no active prices found`);
+        for (const price of prices) {
+            const interval = price.recurring?.interval;
+            if (price.type === 'recurring' && interval !== 'month' && interval !== 'year') {
+                console.log(`[ERROR] Unsupported billing interval "${interval}" for product ${product.id}; skipping to avoid creating a wrong plan`);
                 continue;
             }
 
-            for (const price of prices.data) {
-                const isRecurring = price.type === 'recurring';
-
-                if (isRecurring) {
-                    const interval = price.recurring?.interval;
-                    const intervalCount = price.recurring?.interval_count || 1;
-
-                    if (interval !== 'month' && interval !== 'year') {
-                        console.log(`[ERROR] Unsupported billing interval "${interval}" for product ${product.id}; skipping to avoid creating a wrong plan`);
-                        continue;
-                    }
-
-                    // Map interval to Dodo format
-                    const intervalMap: Record<string, string> = {
-                        'day': 'Day',
-                        'week': 'Week',
-                        'month': 'Month',
-                        'year': 'Year'
-                    };
-                    const paymentFrequencyInterval = intervalMap[interval];
-
-                    ProductsToMigrate.push({
-                        type: 'subscription_product',
-                        data: {
-                            name: product.name || 'Unnamed Product',
-                            description: product.description || '',
-                            tax_category: 'saas',
-                            type: 'subscription',
-                            price: {
-                                currency: price.currency.toUpperCase(),
-                                price: price.unit_amount || 0,
-                                discount: 0,
-                                purchasing_power_parity: false,
-                                type: 'recurring_price',
-                                billing_period: interval === 'month' ? 'monthly' : 'yearly',
-                                payment_frequency_interval: paymentFrequencyInterval,
-                                payment_frequency_count: intervalCount,
-                                subscription_period_interval: paymentFrequencyInterval,
-                                subscription_period_count: intervalCount
-                            },
-                            brand_id: brand_id,
-                            metadata: {
-                                stripe_price_id: price.id,
-                                stripe_product_id: product.id,
-                                migrated_from: 'stripe'
-                            }
-                        }
-                    });
-                } else {
-                    ProductsToMigrate.push({
-                        type: 'one_time_product',
-                        data: {
-                            name: product.name || 'Unnamed Product',
-                            description: product.description || '',
-                            tax_category: 'saas',
-                            type: 'one_time',
-                            price: {
-                                currency: price.currency.toUpperCase(),
-                                price: price.unit_amount || 0,
-                                discount: 0,
-                                purchasing_power_parity: false,
-                                type: 'one_time_price'
-                            },
-                            brand_id: brand_id,
-                            metadata: {
-                                stripe_price_id: price.id,
-                                stripe_product_id: product.id,
-                                migrated_from: 'stripe'
-                            }
-                        }
-                    });
+            ProductsToMigrate.push(productItem({
+                source_id: price.id,
+                metadata_key: 'stripe_price_id',
+                name: product.name || 'Unnamed Product',
+                description: product.description || '',
+                currency: price.currency,
+                amount: price.unit_amount || 0,
+                recurring: price.recurring ? {
+                    interval: interval === 'month' ? 'Month' : 'Year',
+                    count: price.recurring.interval_count || 1
+                } : undefined,
+                metadata: {
+                    stripe_product_id: product.id,
+                    migrated_from: 'stripe'
                 }
-            }
+            }, brand_id));
         }
+    }
 
-        if (ProductsToMigrate.length === 0) {
-            console.log('[LOG] No products to migrate');
-            return;
-        }
+    return ProductsToMigrate;
+}
 
-        console.log('\n[LOG] These are the products to be migrated:');
-        ProductsToMigrate.forEach((product, index) => {
-            const price = product.data.price.price / 100;
-            const type = product.type === 'one_time_product' ? 'One Time' : 'Subscription';
-            const billing = product.type === 'subscription_product' ? ` (${product.data.price.billing_period})` : '';
-            console.log(`${index + 1}. ${product.data.name} - ${product.data.price.currency} ${price.toFixed(2)} (${type}${billing})`);
-        });
+interface CouponRecord {
+    coupon: Stripe.Coupon;
+    // Active promotion codes created for the coupon, the codes customers actually type at checkout
+    promotion_codes: Stripe.PromotionCode[];
+}
 
-        const migrateProducts = await select({
-            message: 'Proceed to create these products in Dodo Payments?',
-            choices: [
-                { name: 'Yes', value: 'yes' },
-                { name: 'No', value: 'no' }
-            ],
-        });
+// Coupons together with their active promotion codes
+async function fetchCoupons({ source }: MigrationContext<Stripe>): Promise<CouponRecord[]> {
+    const coupons = await listAll(source.coupons.list({ limit: 100 }));
+    const promotionCodes = await listAll(source.promotionCodes.list({ limit: 100, active: true }));
 
-        if (migrateProducts === 'yes') {
-            for (const product of ProductsToMigrate) {
-                console.log(`[LOG] Migrating product: ${product.data.name}`);
-                try {
-                    const createdProduct = await client.products.create(product.data);
-                    console.log(`[LOG] Migration for product: ${createdProduct.name} completed (Dodo Payments product ID: ${createdProduct.product_id})`);
-                } catch (error: any) {
-                    console.log(`[ERROR] Failed to migrate product: ${product.data.name} - ${error.message}`);
-                }
-            }
-            console.log('[LOG] Products migration completed!');
-        } else {
-            console.log('[LOG] Products migration skipped by user');
-        }
+    return coupons.map(coupon => ({
+        coupon,
+        promotion_codes: promotionCodes.filter(promotionCode => promotionCode.coupon.id === coupon.id)
+    }));
+}
 
-    } catch (error: any) {
-        console.log("[ERROR] Failed to migrate products!\n", error.message);
-    }
+// A code customers can redeem: one of the coupon's promotion codes, or the coupon ID itself
+interface RedeemableCode {
+    source_id: string;
+    code: string;
+    usage_limit: number | null;
+    expires_at: string | null;
+    // Restrictions Dodo Payments discounts can't express, shown in the preview
+    details: string[];
 }
 
-async function migrateCoupons(stripe: Stripe, client: DodoPayments, brand_id: string) {
-    console.log('\n[LOG] Starting coupons migration...');
+async function transformCoupons(records: CouponRecord[], ctx: MigrationContext<Stripe>): Promise<MigrationItem[]> {
+    const { brand_id } = ctx;
+    const CouponsToMigrate: MigrationItem[] = [];
 
-    try {
-        const coupons = await stripe.coupons.list({
-            limit: 100
-        });
-
-        if (coupons.data.length === 0) {
-            console.log('[LOG] No coupons found in Stripe');
-            return;
+    for (const { coupon, promotion_codes } of records) {
+        const name = coupon.name || coupon.id;
+        if (!coupon.valid) {
+            skipRecord(ctx, { entity: 'discount', source_id: coupon.id, label: `${name} (${coupon.id})`, reason: 'the coupon is no longer valid' });
+            continue;
+        }
+        if (!coupon.percent_off && !coupon.amount_off) {
+            skipRecord(ctx, { entity: 'discount', source_id: coupon.id, label: `${name} (${coupon.id})`, reason: 'no discount value found' });
+            continue;
         }
 
-        console.log(`[LOG] Found ${coupons.data.length} coupons in Stripe`);
-
-        const CouponsToMigrate: any[] = [];
-
-        for (const coupon of coupons.data) {
-            if (!coupon.valid) {
-                console.log(`[LOG] Skipping invalid coupon: ${coupon.id}`);
+        // Coupons without promotion codes are redeemed by their ID
+        const codes: RedeemableCode[] = promotion_codes.length > 0
+            ? promotion_codes.map(promotionCode => toRedeemableCode(coupon, promotionCode, promotion_codes.length))
+            : [{
+                source_id: coupon.id,
+                code: coupon.id,
+                usage_limit: redemptionsLeft(coupon.max_redemptions, coupon.times_redeemed),
+                expires_at: coupon.redeem_by ? new Date(coupon.redeem_by * 1000).toISOString() : null,
+                details: []
+            }];
+
+        for (const code of codes) {
+            if (code.usage_limit !== null && code.usage_limit <= 0) {
+                skipRecord(ctx, { entity: 'discount', source_id: code.source_id, label: `${name} (${code.code})`, reason: 'every redemption it allows in Stripe has been used' });
                 continue;
             }
 
@@ -292,85 +189,91 @@ async function migrateCoupons(stripe: Stripe, client: DodoPayments, brand_id: st
             // Dodo Payments expects amount multiplied by 100 (1500 for 15%)
             if (coupon.percent_off) {
                 CouponsToMigrate.push({
-                    code: coupon.id,
-                    name: coupon.name || coupon.id,
-                    type: 'percentage',
-                    amount: coupon.percent_off * 100, // Convert: 15 -> 1500, 20 -> 2000, etc.
-                    usage_limit: coupon.max_redemptions || null,
-                    expires_at: coupon.redeem_by ? new Date(coupon.redeem_by * 1000).toISOString() : null,
-                    brand_id: brand_id
+                    entity: 'discount',
+                    source_id: code.source_id,
+                    label: `${name} (${code.code}) - ${coupon.percent_off}% discount`,
+                    details: code.details,
+                    data: {
+                        code: code.code,
+                        name,
+                        type: 'percentage',
+                        amount: coupon.percent_off * 100, // Convert: 15 -> 1500, 20 -> 2000, etc.
+                        usage_limit: code.usage_limit,
+                        expires_at: code.expires_at,
+                        brand_id: brand_id
+                    }
                 });
-            } else if (coupon.amount_off) {
-                console.log(`[LOG] Skipping coupon ${coupon.id} (${coupon.name || coupon.id}) - Dodo Payments only supports percentage discounts, not fixed amount discounts`);
-                continue;
-            } else {
-                console.log(`[LOG] Skipping coupon ${coupon.id} - no discount value found`);
                 continue;
             }
-        }
-
-        if (CouponsToMigrate.length === 0) {
-            console.log('[LOG] No valid coupons to migrate');
-            return;
-        }
-
-        console.log('\n[LOG] These are the coupons to be migrated:');
-        CouponsToMigrate.forEach((coupon, index) => {
-            console.log(`${index + 1}. ${coupon.name} (${coupon.code}) - ${coupon.amount / 100}% discount`);
-        });
-
-        const migrateCoupons = await select({
-            message: 'Proceed to create these coupons in Dodo Payments?',
-            choices: [
-                { name: 'Yes', value: 'yes' },
-                { name: 'No', value: 'no' }
-            ],
-        });
 
-        if (migrateCoupons === 'yes') {
-            for (const coupon of CouponsToMigrate) {
-                console.log(`[LOG] Migrating coupon: ${coupon.name} (${coupon.code})`);
-                try {
-                    const createdCoupon = await client.discounts.create(coupon);
-                    console.log(`[LOG] Migration for coupon: ${createdCoupon.name} completed (Dodo Payments discount ID: ${createdCoupon.discount_id})`);
-                } catch (error: any) {
-                    console.log(`[ERROR] Failed to migrate coupon: ${coupon.name} - ${error.message}`);
-                }
+            // Fixed amount coupons are handled according to --fixed-discount-strategy
+            const item = await handleFixedDiscount({
+                source_id: code.source_id,
+                code: code.code,
+                name,
+                amount: coupon.amount_off!,
+                currency: coupon.currency || 'usd',
+                usage_limit: code.usage_limit,
+                expires_at: code.expires_at,
+                brand_id
+            }, ctx);
+            if (item) {
+                CouponsToMigrate.push({ ...item, details: [...(item.details || []), ...code.details] });
             }
-            console.log('[LOG] Coupons migration completed!');
-        } else {
-            console.log('[LOG] Coupons migration skipped by user');
         }
-
-    } catch (error: any) {
-        console.log("[ERROR] Failed to migrate coupons!\n", error.message);
     }
-}
 
-async function migrateCustomers(stripe: Stripe, client: DodoPayments, brand_id: string) {
-    console.log('\n[LOG] Starting customers migration...');
+    return CouponsToMigrate;
+}
 
-    try {
-        const customers = await stripe.customers.list({
-            limit: 100
-        });
+// Dodo counts redemptions from zero, only what is left of a Stripe limit is carried over
+function redemptionsLeft(limit: number | null, redeemed: number): number | null {
+    return limit ? limit - redeemed : null;
+}
 
-        if (customers.data.length === 0) {
-            console.log('[LOG] No customers found in Stripe');
-            return;
-        }
+// Promotion codes inherit the discount of their coupon but have their own code, limits and expiry
+function toRedeemableCode(coupon: Stripe.Coupon, promotionCode: Stripe.PromotionCode, codeCount: number): RedeemableCode {
+    // Both the coupon and the promotion code can expire, whichever comes first wins
+    const expiries = [coupon.redeem_by, promotionCode.expires_at].filter((expiry): expiry is number => !!expiry);
+    const expires_at = expiries.length > 0 ? new Date(Math.min(...expiries) * 1000).toISOString() : null;
+
+    // The code's own limit counts its redemptions, the coupon's limit counts the redemptions of all its codes
+    const couponLeft = redemptionsLeft(coupon.max_redemptions, coupon.times_redeemed);
+    const limits = [redemptionsLeft(promotionCode.max_redemptions, promotionCode.times_redeemed), couponLeft]
+        .filter((limit): limit is number => limit !== null);
+    const usage_limit = limits.length > 0 ? Math.min(...limits) : null;
+
+    const details: string[] = [];
+    if (couponLeft !== null && codeCount > 1) {
+        details.push(`[WARN] The ${couponLeft} redemptions left on the coupon are shared by its ${codeCount} promotion codes in Stripe, each Dodo Payments discount gets its own limit`);
+    }
+    if (promotionCode.restrictions.first_time_transaction) {
+        details.push('[WARN] Limited to first-time customers in Stripe, the Dodo Payments discount can be used by anyone');
+    }
+    if (promotionCode.restrictions.minimum_amount) {
+        details.push(`[WARN] Requires a minimum order of ${(promotionCode.restrictions.minimum_amount / 100).toFixed(2)} ${promotionCode.restrictions.minimum_amount_currency?.toUpperCase()} in Stripe, not carried over`);
+    }
+    if (promotionCode.customer) {
+        details.push('[WARN] Limited to a single customer in Stripe, the Dodo Payments discount can be used by anyone');
+    }
 
-        console.log(`[LOG] Found ${customers.data.length} customers in Stripe`);
+    return { source_id: promotionCode.id, code: promotionCode.code, usage_limit, expires_at, details };
+}
 
-        const CustomersToMigrate: any[] = [];
+function transformCustomers(customers: Stripe.Customer[], { brand_id }: MigrationContext<Stripe>): MigrationItem[] {
+    const CustomersToMigrate: MigrationItem[] = [];
 
-        for (const customer of customers.data) {
-            if (customer.deleted) {
-                console.log(`[LOG] Skipping deleted customer: ${customer.id}`);
-                continue;
-            }
+    for (const customer of customers) {
+        if (customer.deleted) {
+            console.log(`[LOG] Skipping deleted customer: ${customer.id}`);
+            continue;
+        }
 
-            CustomersToMigrate.push({
+        CustomersToMigrate.push({
+            entity: 'customer',
+            source_id: customer.id,
+            label: `${customer.name || 'Unnamed'} (${customer.email || 'No email'})`,
+            data: {
                 email: customer.email || '',
                 name: customer.name || '',
                 phone: customer.phone || '',
@@ -387,43 +290,83 @@ async function migrateCustomers(stripe: Stripe, client: DodoPayments, brand_id:
                     stripe_customer_id: customer.id,
                     migrated_from: 'stripe'
                 }
-            });
-        }
+            }
+        });
+    }
 
-        if (CustomersToMigrate.length === 0) {
-            console.log('[LOG] No valid customers to migrate');
-            return;
-        }
+    return CustomersToMigrate;
+}
 
-        console.log('\n[LOG] These are the customers to be migrated:');
-        CustomersToMigrate.forEach((customer, index) => {
-            console.log(`${index + 1}. ${customer.name || 'Unnamed'} (${customer.email || 'No email'})`);
-        });
+// Subscription statuses that are still billing, or will be once the trial or the retries end
+const MIGRATED_SUBSCRIPTION_STATUSES: Stripe.Subscription.Status[] = ['active', 'trialing', 'past_due'];
 
-        const migrateCustomers = await select({
-            message: 'Proceed to create these customers in Dodo Payments?',
-            choices: [
-                { name: 'Yes', value: 'yes' },
-                { name: 'No', value: 'no' }
-            ],
-        });
+async function fetchSubscriptions({ source }: MigrationContext<Stripe>) {
+    const subscriptions = await listAll(source.subscriptions.list({
+        limit: 100,
+        status: 'all',
+        // The customer's email, name and address are needed for the Dodo subscription
+        expand: ['data.customer']
+    }));
 
-        if (migrateCustomers === 'yes') {
-            for (const customer of CustomersToMigrate) {
-                console.log(`[LOG] Migrating customer: ${customer.name || customer.email || 'Unnamed'}`);
-                try {
-                    const createdCustomer = await client.customers.create(customer);
-                    console.log(`[LOG] Migration for customer: ${createdCustomer.name || createdCustomer.email} completed (Dodo Payments customer ID: ${createdCustomer.customer_id})`);
-                } catch (error: any) {
-                    console.log(`[ERROR] Failed to migrate customer: ${customer.name || customer.email} - ${error.message}`);
-                }
-            }
-            console.log('[LOG] Customers migration completed!');
-        } else {
-            console.log('[LOG] Customers migration skipped by user');
+    const migrated = subscriptions.filter(subscription => MIGRATED_SUBSCRIPTION_STATUSES.includes(subscription.status));
+    console.log(`[LOG] ${migrated.length} of ${subscriptions.length} subscriptions are active, trialing or past due`);
+    return migrated;
+}
+
+// One Dodo subscription per subscription item, since a Dodo subscription belongs to a single product
+async function transformSubscriptions(subscriptions: Stripe.Subscription[], ctx: MigrationContext<Stripe>): Promise<MigrationItem[]> {
+    const SubscriptionsToMigrate: MigrationItem[] = [];
+
+    for (const subscription of subscriptions) {
+        const customer = subscription.customer as Stripe.Customer | Stripe.DeletedCustomer;
+        if (customer.deleted || !customer.email) {
+            console.log(`[LOG] Skipping subscription ${subscription.id} - the customer was deleted or has no email address`);
+            continue;
         }
 
-    } catch (error: any) {
-        console.log("[ERROR] Failed to migrate customers!\n", error.message);
+        const address = customer.address;
+        const details = address?.country ? [] : ['[WARN] The customer has no billing address in Stripe, a placeholder address will be used'];
+        const current_period_end = new Date(subscription.current_period_end * 1000).toISOString();
+
+        const dodoCustomer = await subscriptionCustomer(ctx, customer.id, customer.email, customer.name);
+
+        for (const item of subscription.items.data) {
+            SubscriptionsToMigrate.push({
+                entity: 'subscription',
+                source_id: item.id,
+                metadata_key: 'stripe_subscription_item_id',
+                label: `${subscription.id} - ${customer.email} - ${item.price.nickname || item.price.id} x${item.quantity || 1} (${subscription.status}, renews ${current_period_end.slice(0, 10)})`,
+                details,
+                data: {
+                    billing: billingAddress({
+                        street: [address?.line1, address?.line2].filter(Boolean).join(', '),
+                        city: address?.city,
+                        state: address?.state,
+                        zipcode: address?.postal_code,
+                        country: address?.country
+                    }),
+                    customer: dodoCustomer,
+                    quantity: item.quantity || 1,
+                    metadata: {
+                        stripe_subscription_id: subscription.id,
+                        stripe_subscription_item_id: item.id,
+                        stripe_customer_id: customer.id,
+                        stripe_price_id: item.price.id,
+                        original_status: subscription.status,
+                        migrated_from: 'stripe'
+                    }
+                },
+                // Link to the Dodo product created from the subscribed Stripe price (stripe_price_id)
+                refs: {
+                    product_id: { entity: 'product', source_id: item.price.id }
+                },
+                // Keep the billing cycle: the first Dodo charge happens when the current Stripe period ends
+                after_create: {
+                    next_billing_date: current_period_end
+                }
+            });
+        }
     }
-}
\ No newline at end of file
+
+    return SubscriptionsToMigrate;
+}
@@ -0,0 +1,30 @@
+import { join } from 'node:path';
+import { FixtureResponse, serveFixtures } from './testing';
+
+// Recorded Paddle Billing API responses, replayed by the Paddle tests and the local mock
+export const PADDLE_FIXTURES: Record<string, FixtureResponse> = {
+    '/products': 'products-page1.json',
+    '/products?after=pro_02onboarding': 'products-page2.json',
+    '/discounts': 'discounts.json',
+    '/customers': 'customers.json',
+    '/customers/ctm_01ada': 'customer-ada.json',
+    '/customers/ctm_01ada/addresses': 'addresses-ada.json',
+    '/customers/ctm_01ada/addresses/add_01office': 'address-ada-office.json',
+    '/customers/ctm_01ada/businesses': 'businesses-ada.json',
+    '/customers/ctm_01ada/businesses/biz_01engines': 'business-ada-engines.json',
+    '/customers/ctm_02bob': 'customer-bob.json',
+    '/customers/ctm_02bob/addresses': 'empty-list.json',
+    '/customers/ctm_02bob/businesses': 'empty-list.json',
+    '/subscriptions': 'subscriptions.json'
+};
+
+export function servePaddleMock(port = 0) {
+    return serveFixtures(join(import.meta.dir, '../src/providers/paddle/fixtures'), PADDLE_FIXTURES, port);
+}
+
+// Rehearse a migration without a Paddle account: npx bun test/paddle-mock.ts, then
+// dodo-migrate paddle --paddle-api-url=http://127.0.0.1:4010 --dry-run
+if (import.meta.main) {
+    const server = await servePaddleMock(4010);
+    console.log(`[LOG] Paddle mock listening on ${server.url}, press Ctrl+C to stop`);
+}
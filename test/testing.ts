@@ -0,0 +1,114 @@
+import { createServer, IncomingHttpHeaders } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import DodoPayments from 'dodopayments';
+import { MappingStore } from '../src/core/mapping';
+import { MigrationContext } from '../src/core/types';
+
+// Test helpers only, the CLI never imports them
+
+// A recorded response: the name of a JSON file in the fixtures directory, or an inline response (e.g. a rate limit)
+export type FixtureResponse = string | { status: number, body?: any, headers?: Record<string, string> };
+
+export interface FixtureServer {
+    url: string;
+    // Every request the server received, in order
+    requests: { path: string, headers: IncomingHttpHeaders }[];
+    close: () => Promise<void>;
+}
+
+// Local HTTP server replaying recorded provider responses. Routes are matched on the path with its query string first,
+// then on the path alone, anything else gets a 404. Fixtures refer to the server itself as {{base_url}} (e.g. in next page links).
+export async function serveFixtures(dir: string, routes: Record<string, FixtureResponse>, port = 0): Promise<FixtureServer> {
+    const requests: FixtureServer['requests'] = [];
+    const server = createServer((req, res) => {
+        const path = req.url || '/';
+        requests.push({ path, headers: req.headers });
+
+        const route = routes[path] ?? routes[path.split('?')[0]] ?? { status: 404, body: { message: `No fixture for ${path}` } };
+        const response = typeof route === 'string'
+            ? { status: 200, body: JSON.parse(readFileSync(join(dir, route), 'utf8').replaceAll('{{base_url}}', baseUrl())), headers: {} }
+            : route;
+        res.writeHead(response.status, { 'content-type': 'application/json', ...response.headers });
+        res.end(JSON.stringify(response.body ?? {}));
+    });
+
+    const baseUrl = () => `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    await new Promise<void>(resolve => server.listen(port, '127.0.0.1', resolve));
+    return {
+        url: baseUrl(),
+        requests,
+        close: () => new Promise<void>(resolve => server.close(() => resolve()))
+    };
+}
+
+// A call received by the local Dodo Payments API
+export interface DodoCall {
+    method: string;
+    path: string;
+    body: any;
+}
+
+export interface DodoServer {
+    // Client sending its calls to the local API
+    client: DodoPayments;
+    // Every call the API received, in order
+    calls: DodoCall[];
+    close: () => Promise<void>;
+}
+
+// ID field and prefix of the records each create endpoint returns
+const CREATED_IDS: Record<string, [string, string]> = {
+    '/meters': ['id', 'mtr'],
+    '/products': ['product_id', 'pdt'],
+    '/discounts': ['discount_id', 'dsc'],
+    '/customers': ['customer_id', 'cus'],
+    '/subscriptions': ['subscription_id', 'sub']
+};
+
+// Local stand-in for the Dodo Payments API: creates return numbered IDs (pdt_1, sub_2), lists an empty page and anything
+// else an empty object. `respond` can answer single calls differently, e.g. fail them.
+export async function serveDodo(respond: (call: DodoCall) => Exclude<FixtureResponse, string> | undefined = () => undefined): Promise<DodoServer> {
+    const calls: DodoCall[] = [];
+    const server = createServer(async (req, res) => {
+        let text = '';
+        for await (const chunk of req) text += chunk;
+        const call = { method: req.method || 'GET', path: req.url || '/', body: text ? JSON.parse(text) : undefined };
+        calls.push(call);
+
+        const created = call.method === 'POST' ? CREATED_IDS[call.path] : undefined;
+        const response = respond(call)
+            ?? (created ? { status: 200, body: { [created[0]]: `${created[1]}_${calls.length}` } } : undefined)
+            ?? (call.method === 'GET' ? { status: 200, body: { items: [] } } : { status: 200, body: {} });
+        res.writeHead(response.status, { 'content-type': 'application/json', ...response.headers });
+        res.end(JSON.stringify(response.body ?? {}));
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return {
+        client: new DodoPayments({ bearerToken: 'dodo_test', baseURL: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, maxRetries: 0 }),
+        calls,
+        close: () => new Promise<void>(resolve => server.close(() => resolve()))
+    };
+}
+
+// A dry run context with an empty mapping store and nothing to reconcile against. Dry runs never call the Dodo client,
+// it points at a closed local port so a call fails right away instead of reaching the API.
+export function testContext<TSource>(source: TSource, argv: any = {}): MigrationContext<TSource> {
+    return {
+        source,
+        client: new DodoPayments({ bearerToken: 'dodo_test', baseURL: 'http://127.0.0.1:9', maxRetries: 0 }),
+        brand_id: 'brand_test',
+        mode: 'test_mode',
+        argv,
+        interactive: false,
+        dryRun: true,
+        onExisting: 'skip',
+        mappings: new MappingStore(join(tmpdir(), `dodo-migrate-test-${process.pid}-${Date.now()}.json`), 'test', 'test_mode', 'brand_test'),
+        reconcile: async () => undefined,
+        unmigrated: []
+    };
+}